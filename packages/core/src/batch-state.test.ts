@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { createBatchTally, createPriorityQueue } from "./batch-state";
+import type { BatchUploadItem } from "./batch";
+
+describe("createPriorityQueue", () => {
+  it("pops by priority, then by order", () => {
+    const queue = createPriorityQueue<string>();
+    const values = Array.from({ length: 200 }, (_, i) => ({
+      value: `v${i}`,
+      priority: (i * 7) % 5,
+      order: (i * 13) % 200,
+    }));
+    for (const { value, priority, order } of values) queue.push(value, priority, order);
+
+    const popped: string[] = [];
+    for (let value = queue.pop(); value; value = queue.pop()) popped.push(value);
+
+    const expected = [...values]
+      .sort((a, b) => b.priority - a.priority || a.order - b.order)
+      .map((v) => v.value);
+    expect(popped).toEqual(expected);
+    expect(queue.size).toBe(0);
+  });
+});
+
+describe("createBatchTally", () => {
+  it("keeps counts and bytes in step with item changes", () => {
+    const tally = createBatchTally();
+    const item = (id: string, size: number): BatchUploadItem => ({
+      id,
+      status: "pending",
+      options: { url: id, file: new Blob(["x".repeat(size)]) },
+    });
+    const a = item("a", 300);
+    const b = item("b", 100);
+    tally.add(a);
+    tally.add(b);
+
+    tally.update(a, () => {
+      a.status = "uploading";
+      a.progress = { loaded: 150, speed: 50 };
+    });
+    expect(tally.snapshot()).toMatchObject({
+      pending: 1,
+      uploading: 1,
+      totalBytes: 400,
+      uploadedBytes: 150,
+      speed: 50,
+      eta: 5,
+    });
+
+    tally.update(a, () => (a.status = "completed"));
+    tally.update(b, () => (b.status = "failed"));
+    expect(tally.snapshot()).toMatchObject({
+      completed: 1,
+      failed: 1,
+      uploadedBytes: 300,
+      failedBytes: 100,
+      percent: 75,
+      itemPercent: 50,
+      speed: 0,
+    });
+
+    tally.remove(b);
+    expect(tally.snapshot()).toMatchObject({ total: 1, failed: 0, totalBytes: 300, percent: 100 });
+  });
+
+  it("sizes byte arrays up front and file paths once a total is reported", () => {
+    const tally = createBatchTally();
+    const bytes: BatchUploadItem = {
+      id: "bytes",
+      status: "pending",
+      options: { url: "bytes", file: new Uint8Array(200) },
+    };
+    const path: BatchUploadItem = {
+      id: "path",
+      status: "pending",
+      options: { url: "path", file: "/videos/clip.mp4" },
+    };
+    tally.add(bytes);
+    tally.add(path);
+    expect(tally.snapshot().totalBytes).toBe(200);
+
+    tally.update(path, () => {
+      path.status = "uploading";
+      path.progress = { loaded: 100, total: 800 };
+    });
+    expect(tally.snapshot()).toMatchObject({ totalBytes: 1000, uploadedBytes: 100, percent: 10 });
+  });
+});
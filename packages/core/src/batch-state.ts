@@ -0,0 +1,168 @@
+/**
+ * @uplnk/core/batch-state — Internal bookkeeping for batches and queues.
+ *
+ * Progress is reported on every byte update of every concurrent upload, so
+ * it must not depend on the number of items: counts and byte totals are kept
+ * as running sums, updated from each item's change.
+ */
+
+import type { BatchProgress, BatchUploadItem, BatchUploadStatus } from "./batch";
+
+/** Running counts and byte totals over a set of items. */
+export interface BatchTally {
+  /** Count a new item. */
+  add(item: BatchUploadItem): void;
+  /** Stop counting an item. */
+  remove(item: BatchUploadItem): void;
+  /** Change an item's status or progress inside `change`, keeping the totals in step. */
+  update(item: BatchUploadItem, change: () => void): void;
+  /** Number of items with this status. */
+  count(status: BatchUploadStatus): number;
+  /** Current progress. */
+  snapshot(): BatchProgress;
+}
+
+/**
+ * Bytes of an upload's file: a Blob's size or a byte array's length, else
+ * (file paths, streams) the `total` its transport reported, once it has.
+ */
+function sizeOf(item: BatchUploadItem): number {
+  const { file } = item.options;
+  if (file instanceof Blob) return file.size;
+  if (file instanceof Uint8Array) return file.byteLength;
+  return item.progress?.total ?? 0;
+}
+
+/** @internal Create an empty tally. */
+export function createBatchTally(): BatchTally {
+  const counts: Record<BatchUploadStatus, number> = {
+    pending: 0,
+    uploading: 0,
+    completed: 0,
+    failed: 0,
+    skipped: 0,
+    cancelled: 0,
+  };
+  let total = 0;
+  let totalBytes = 0;
+  let uploadedBytes = 0;
+  let failedBytes = 0;
+  let speed = 0;
+
+  /** Add (1) or take away (-1) what an item contributes in its current state. */
+  const apply = (item: BatchUploadItem, sign: 1 | -1): void => {
+    counts[item.status] += sign;
+    if (item.status === "skipped" || item.status === "cancelled") return;
+    const size = sizeOf(item);
+    totalBytes += sign * size;
+    if (item.status === "completed") uploadedBytes += sign * size;
+    if (item.status === "failed") failedBytes += sign * size;
+    if (item.status === "uploading") {
+      uploadedBytes += sign * Math.min(item.progress?.loaded ?? 0, size);
+      speed += sign * (item.progress?.speed ?? 0);
+    }
+  };
+
+  return {
+    add(item) {
+      total++;
+      apply(item, 1);
+    },
+    remove(item) {
+      total--;
+      apply(item, -1);
+    },
+    update(item, change) {
+      apply(item, -1);
+      change();
+      apply(item, 1);
+    },
+    count: (status) => counts[status],
+    snapshot() {
+      const toUpload = total - counts.skipped - counts.cancelled;
+      const itemPercent = toUpload > 0 ? (counts.completed / toUpload) * 100 : 0;
+      // Running float sums can drift below zero once every upload has finished.
+      const currentSpeed = counts.uploading > 0 ? Math.max(0, speed) : 0;
+      const remaining = totalBytes - uploadedBytes - failedBytes;
+      return {
+        total,
+        completed: counts.completed,
+        failed: counts.failed,
+        skipped: counts.skipped,
+        cancelled: counts.cancelled,
+        pending: counts.pending,
+        uploading: counts.uploading,
+        percent: totalBytes > 0 ? (uploadedBytes / totalBytes) * 100 : itemPercent,
+        itemPercent,
+        totalBytes,
+        uploadedBytes,
+        failedBytes,
+        speed: currentSpeed,
+        ...(currentSpeed > 0 && { eta: remaining / currentSpeed }),
+      };
+    },
+  };
+}
+
+/** Values ordered by priority (highest first), then by `order` (lowest first). */
+export interface PriorityQueue<T> {
+  push(value: T, priority: number, order: number): void;
+  /** Remove and return the first value; undefined when empty. */
+  pop(): T | undefined;
+  readonly size: number;
+}
+
+interface Node<T> {
+  value: T;
+  priority: number;
+  order: number;
+}
+
+/** @internal Create a binary-heap priority queue; push and pop are O(log n). */
+export function createPriorityQueue<T>(): PriorityQueue<T> {
+  const heap: Node<T>[] = [];
+
+  const before = (a: Node<T>, b: Node<T>): boolean =>
+    a.priority > b.priority || (a.priority === b.priority && a.order < b.order);
+  const swap = (i: number, j: number): void => {
+    const tmp = heap[i];
+    heap[i] = heap[j];
+    heap[j] = tmp;
+  };
+
+  return {
+    push(value, priority, order) {
+      heap.push({ value, priority, order });
+      let i = heap.length - 1;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (!before(heap[i], heap[parent])) break;
+        swap(i, parent);
+        i = parent;
+      }
+    },
+    pop() {
+      if (heap.length === 0) return undefined;
+      const first = heap[0];
+      const last = heap.pop() as Node<T>;
+      if (heap.length > 0) {
+        heap[0] = last;
+        let i = 0;
+        for (;;) {
+          const left = 2 * i + 1;
+          const right = left + 1;
+          let next = i;
+          if (left < heap.length && before(heap[left], heap[next])) next = left;
+          if (right < heap.length && before(heap[right], heap[next])) next = right;
+          if (next === i) break;
+          swap(i, next);
+          i = next;
+        }
+      }
+      return first.value;
+    },
+    get size() {
+      return heap.length;
+    },
+  };
+}
@@ -0,0 +1,347 @@
+import { describe, it, expect } from "vitest";
+import { batchUpload, createUploadQueue } from "./batch";
+import type { TransportResponse, UplnkOptions, UploadTransport } from "@uplnk/types";
+import type { BatchProgress } from "./batch";
+import { createGatedTransport, tick } from "./test-transports";
+
+const ok: TransportResponse = { status: 200, headers: {}, responseText: "" };
+
+describe("createUploadQueue", () => {
+  it("starts higher priorities first and keeps add order among equals", async () => {
+    const transport = createGatedTransport();
+    const queue = createUploadQueue({ concurrency: 1 });
+    const file = new Blob(["x"]);
+    queue.add({ url: "a", file, transport });
+    queue.add({ url: "b", file, transport });
+    const c = queue.add({ url: "c", file, transport });
+    queue.add({ url: "d", file, transport }, { priority: 5 });
+
+    queue.start();
+    await tick();
+    expect(transport.started).toEqual(["d"]);
+
+    // The user clicked "upload this first" on c.
+    expect(queue.setPriority(c, 10)).toBe(true);
+    for (const url of ["d", "c", "a", "b"]) {
+      transport.release(url);
+      await tick();
+    }
+
+    const result = await queue.waitForCompletion();
+    expect(transport.started).toEqual(["d", "c", "a", "b"]);
+    expect(result).toMatchObject({ successful: 4, failed: 0, cancelled: 0, aborted: false });
+  });
+
+  it("cancels pending and active items by id", async () => {
+    const transport = createGatedTransport();
+    const completed: string[] = [];
+    const queue = createUploadQueue({
+      concurrency: 1,
+      onItemComplete: (item) => completed.push(item.id),
+    });
+    const file = new Blob(["x"]);
+    const a = queue.add({ url: "a", file, transport });
+    const b = queue.add({ url: "b", file, transport });
+    const c = queue.add({ url: "c", file, transport });
+
+    const done = queue.waitForCompletion();
+    await tick();
+    expect(queue.cancel(b)).toBe(true);
+    expect(queue.cancel(a)).toBe(true);
+    expect(transport.requests[0].signal?.aborted).toBe(true);
+    await tick();
+    transport.release("c");
+
+    const result = await done;
+    expect(transport.started).toEqual(["a", "c"]);
+    expect(completed).toEqual([c]);
+    expect(result).toMatchObject({ successful: 1, failed: 0, cancelled: 2 });
+    expect(queue.cancel(c)).toBe(false);
+  });
+
+  it("retries failed items", async () => {
+    const transport = createGatedTransport();
+    const errors: string[] = [];
+    const queue = createUploadQueue({ onItemError: (item) => errors.push(item.id) });
+    const file = new Blob(["x"]);
+    const a = queue.add({ url: "a", file, transport });
+    const b = queue.add({ url: "b", file, transport });
+
+    const first = queue.waitForCompletion();
+    await tick();
+    transport.release("a", { status: 500, headers: {}, responseText: "" });
+    transport.release("b", { status: 500, headers: {}, responseText: "" });
+    expect(await first).toMatchObject({ successful: 0, failed: 2 });
+    expect(errors).toEqual([a, b]);
+    expect(queue.retry("missing")).toBe(false);
+
+    expect(queue.retryAllFailed()).toEqual([a, b]);
+    const second = queue.waitForCompletion();
+    await tick();
+    transport.release("a");
+    transport.release("b");
+
+    const result = await second;
+    expect(result).toMatchObject({ successful: 2, failed: 0 });
+    expect(queue.getItems().every((item) => item.error === undefined)).toBe(true);
+  });
+
+  it("pauses by aborting active items and starts them over on resume", async () => {
+    const transport = createGatedTransport();
+    const queue = createUploadQueue({ concurrency: 2 });
+    const file = new Blob(["x"]);
+    queue.addMany([
+      { url: "a", file, transport },
+      { url: "b", file, transport },
+      { url: "c", file, transport },
+    ]);
+
+    const done = queue.waitForCompletion();
+    await tick();
+    queue.pause();
+    await tick();
+    expect(transport.requests.every((request) => request.signal?.aborted)).toBe(true);
+    expect(queue.getStatus()).toMatchObject({ pending: 3, uploading: 0, isPaused: true });
+
+    queue.resume();
+    await tick();
+    expect(transport.started).toEqual(["a", "b", "a", "b"]);
+    for (const url of ["a", "b", "c"]) {
+      transport.release(url);
+      await tick();
+    }
+
+    expect(await done).toMatchObject({ successful: 3, failed: 0, aborted: false });
+  });
+
+  it("re-queues an item paused and resumed in the same tick", async () => {
+    const transport = createGatedTransport();
+    const errors: string[] = [];
+    const queue = createUploadQueue({ onItemError: (item) => errors.push(item.id) });
+    queue.add({ url: "a", file: new Blob(["x"]), transport });
+
+    const done = queue.waitForCompletion();
+    await tick();
+    queue.pause();
+    queue.resume();
+    await tick();
+    expect(transport.started).toEqual(["a", "a"]);
+    transport.release("a");
+
+    expect(await done).toMatchObject({ successful: 1, failed: 0 });
+    expect(errors).toEqual([]);
+  });
+
+  it("uploads items added while running and after draining", async () => {
+    const transport = createGatedTransport();
+    const completed: string[] = [];
+    const totals: number[] = [];
+    const queue = createUploadQueue({
+      concurrency: 2,
+      onItemComplete: (item) => completed.push(item.id),
+      onProgress: (p: BatchProgress) => totals.push(p.total),
+    });
+    const file = new Blob(["x"]);
+    const a = queue.add({ url: "a", file, transport });
+    queue.start();
+    await tick();
+
+    const b = queue.add({ url: "b", file, transport });
+    await tick();
+    expect(transport.started).toEqual(["a", "b"]);
+    expect(totals).toContain(2);
+
+    const drained = queue.waitForCompletion();
+    transport.release("a");
+    await tick();
+    const c = queue.add({ url: "c", file, transport });
+    await tick();
+    transport.release("b");
+    transport.release("c");
+
+    const result = await drained;
+    expect(result.successful).toBe(3);
+    expect(completed).toEqual([a, b, c]);
+    expect(queue.getStatus()).toMatchObject({ isStarted: true, isRunning: false });
+
+    // A drained queue stays live.
+    const d = queue.add({ url: "d", file, transport });
+    await tick();
+    expect(queue.getStatus()).toMatchObject({ uploading: 1, isRunning: true });
+    transport.release("d");
+    await queue.waitForCompletion();
+    expect(completed).toEqual([a, b, c, d]);
+    expect(totals[totals.length - 1]).toBe(4);
+  });
+});
+
+describe("batchUpload progress", () => {
+  it("weights percent by bytes and reports failed bytes", async () => {
+    const transport = createGatedTransport();
+    const progress: BatchProgress[] = [];
+    const big = new Blob(["x".repeat(900)]);
+    const small = new Blob(["x".repeat(100)]);
+    const done = batchUpload(
+      [
+        { url: "big", file: big, transport, progress: { throttleMs: 0 } },
+        { url: "small", file: small, transport },
+        { url: "broken", file: small, transport },
+      ],
+      { throttleMs: 0, onProgress: (p) => progress.push(p) },
+    );
+    await tick();
+    transport.release("small");
+    transport.release("broken", { status: 500, headers: {}, responseText: "" });
+    await tick();
+    transport.requests[0].onUploadProgress?.(450, 900);
+
+    expect(progress[progress.length - 1]).toMatchObject({
+      completed: 1,
+      failed: 1,
+      totalBytes: 1100,
+      uploadedBytes: 550,
+      failedBytes: 100,
+      percent: 50,
+      itemPercent: (1 / 3) * 100,
+    });
+
+    transport.release("big");
+    await done;
+    expect(progress[progress.length - 1]).toMatchObject({ uploadedBytes: 1000, speed: 0 });
+    expect(progress[progress.length - 1].eta).toBeUndefined();
+  });
+
+  it("throttles byte updates but reports status changes", async () => {
+    const transport = createGatedTransport();
+    const progress: BatchProgress[] = [];
+    const file = new Blob(["x".repeat(100)]);
+    const done = batchUpload([{ url: "a", file, transport, progress: { throttleMs: 0 } }], {
+      throttleMs: 60_000,
+      onProgress: (p) => progress.push(p),
+    });
+    await tick();
+    transport.requests[0].onUploadProgress?.(10, 100);
+    transport.requests[0].onUploadProgress?.(20, 100);
+    transport.release("a");
+    await done;
+
+    expect(progress.map((p) => [p.pending, p.uploading, p.completed])).toEqual([
+      [1, 0, 0],
+      [0, 1, 0],
+      [0, 0, 1],
+    ]);
+  });
+});
+
+describe("batchUpload sources", () => {
+  it("reads an iterable only as slots free up", async () => {
+    const transport = createGatedTransport();
+    const read: string[] = [];
+    function* uploads(): Generator<UplnkOptions> {
+      for (const url of ["a", "b", "c", "d"]) {
+        read.push(url);
+        yield { url, file: new Blob(["x"]), transport };
+      }
+    }
+
+    const done = batchUpload(uploads(), { concurrency: 2 });
+    await tick();
+    expect(read).toEqual(["a", "b"]);
+
+    transport.release("a");
+    await tick();
+    expect(read).toEqual(["a", "b", "c"]);
+    for (const url of ["b", "c", "d"]) {
+      transport.release(url);
+      await tick();
+    }
+
+    const result = await done;
+    expect(result.successful).toBe(4);
+    expect(result.items.map((item) => item.id)).toEqual([
+      "upload-0",
+      "upload-1",
+      "upload-2",
+      "upload-3",
+    ]);
+  });
+
+  it("accepts an async iterable and stops reading it on abort", async () => {
+    const controller = new AbortController();
+    let closed = false;
+    const transport: UploadTransport = { name: "fake", send: async () => ok };
+    async function* uploads(): AsyncGenerator<UplnkOptions> {
+      try {
+        for (let i = 0; ; i++) yield { url: `u${i}`, file: new Blob(["x"]), transport };
+      } finally {
+        closed = true;
+      }
+    }
+
+    const result = await batchUpload(uploads(), {
+      concurrency: 1,
+      signal: controller.signal,
+      onItemComplete: (item) => item.id === "upload-1" && controller.abort(),
+    });
+
+    expect(result).toMatchObject({ successful: 2, aborted: true });
+    expect(closed).toBe(true);
+  });
+
+  it("drops completed items from the result without retainCompleted", async () => {
+    const transport: UploadTransport = {
+      name: "fake",
+      send: async (request) =>
+        request.url === "bad" ? { status: 500, headers: {}, responseText: "" } : ok,
+    };
+    const completed: string[] = [];
+    const result = await batchUpload(
+      ["a", "bad", "c"].map((url) => ({ url, file: new Blob(["x"]), transport })),
+      { retainCompleted: false, onItemComplete: (item) => completed.push(item.id) },
+    );
+
+    expect(completed).toEqual(["upload-0", "upload-2"]);
+    expect(result).toMatchObject({ successful: 2, failed: 1 });
+    expect(result.items.map((item) => item.id)).toEqual(["upload-1"]);
+  });
+});
+
+describe("batchUpload progress cost", () => {
+  it("does no work for waiting items on a progress event", async () => {
+    const transport = createGatedTransport();
+    const file = new Blob(["x".repeat(100)]);
+    // Every look at a waiting item's file is counted; scanning the batch on
+    // each event would read all of them.
+    let reads = 0;
+    const waiting = Array.from({ length: 1000 }, (_, i) => ({
+      url: `u${i + 1}`,
+      transport,
+      get file() {
+        reads++;
+        return file;
+      },
+    }));
+    const controller = new AbortController();
+    let events = 0;
+    const done = batchUpload(
+      [{ url: "u0", file, transport, progress: { throttleMs: 0 } }, ...waiting],
+      {
+        concurrency: 1,
+        throttleMs: 0,
+        signal: controller.signal,
+        onProgress: () => events++,
+      },
+    );
+    await tick();
+
+    const before = { reads, events };
+    const { onUploadProgress } = transport.requests[0];
+    for (let loaded = 1; loaded <= 100; loaded++) onUploadProgress?.(loaded, 100);
+
+    expect(events - before.events).toBeGreaterThanOrEqual(100);
+    expect(reads).toBe(before.reads);
+
+    controller.abort();
+    await done;
+  });
+});
@@ -3,10 +3,29 @@
  */
 
 import { uplnk } from "./index";
-import type { UplnkOptions, UploadProgress, UploadError } from "@uplnk/types";
+import { createRateLimiter, toRateLimiter } from "./rate-limit";
+import { createBatchTally, createPriorityQueue } from "./batch-state";
+import type { BatchTally } from "./batch-state";
+import type { FileCollectionReport, ValidationError } from "./validators";
+import type {
+  UplnkOptions,
+  UploadProgress,
+  UploadError,
+  UploadResult,
+  RateLimiter,
+} from "@uplnk/types";
 
-/** Status of a single upload in a batch. */
-export type BatchUploadStatus = "pending" | "uploading" | "completed" | "failed";
+/**
+ * Status of a single upload in a batch; "skipped" uploads were rejected by
+ * validation, "cancelled" ones were cancelled in an upload queue.
+ */
+export type BatchUploadStatus =
+  | "pending"
+  | "uploading"
+  | "completed"
+  | "failed"
+  | "skipped"
+  | "cancelled";
 
 /** Information about a single upload in a batch. */
 export interface BatchUploadItem {
@@ -18,8 +37,14 @@ export interface BatchUploadItem {
   options: UplnkOptions;
   /** Current progress (if uploading). */
   progress?: UploadProgress;
+  /** Upload result (if completed), e.g. to read a server-assigned ID. */
+  result?: UploadResult;
   /** Error (if failed). */
   error?: UploadError;
+  /** Why the file was rejected (if skipped). */
+  validationErrors?: ValidationError[];
+  /** Scheduling priority in an upload queue; higher starts first. */
+  priority?: number;
   /** Completion timestamp. */
   completedAt?: number;
 }
@@ -32,16 +57,35 @@ export interface BatchProgress {
   completed: number;
   /** Number of failed uploads. */
   failed: number;
+  /** Number of uploads skipped because their file was rejected. */
+  skipped: number;
+  /** Number of uploads cancelled in an upload queue. */
+  cancelled: number;
   /** Number of pending uploads. */
   pending: number;
   /** Number of currently uploading. */
   uploading: number;
-  /** Overall completion percentage (0-100). */
+  /**
+   * Overall completion percentage (0-100), weighted by bytes: `uploadedBytes`
+   * over `totalBytes`. Count-based while no upload's size is known.
+   */
   percent: number;
-  /** Total bytes across all uploads. */
+  /** Completed uploads over the uploads that were not skipped or cancelled (0-100). */
+  itemPercent: number;
+  /**
+   * Total bytes across all uploads that were not skipped or cancelled. Blobs
+   * and byte arrays count from the start; file paths and streams once their
+   * upload reports a `total`.
+   */
   totalBytes: number;
-  /** Uploaded bytes across all uploads. */
+  /** Bytes of completed uploads plus bytes sent by active ones. */
   uploadedBytes: number;
+  /** Bytes of failed uploads; they are part of `totalBytes` but not uploaded. */
+  failedBytes: number;
+  /** Bytes per second: the sum of the active uploads' `speed`. */
+  speed: number;
+  /** Seconds until the remaining bytes are sent at the current `speed`, once it is known. */
+  eta?: number;
 }
 
 /** Options for batch uploads. */
@@ -50,6 +94,11 @@ export interface BatchUploadOptions {
   concurrency?: number;
   /** Called when overall batch progress changes. */
   onProgress?: (progress: BatchProgress) => void;
+  /**
+   * Minimum time between `onProgress` calls caused by bytes moving (ms).
+   * Uploads starting, finishing or failing are always reported. Default: 100.
+   */
+  throttleMs?: number;
   /** Called when an individual upload completes. */
   onItemComplete?: (item: BatchUploadItem) => void;
   /** Called when an individual upload fails. */
@@ -58,6 +107,22 @@ export interface BatchUploadOptions {
   stopOnError?: boolean;
   /** Abort signal to cancel all uploads. */
   signal?: AbortSignal;
+  /**
+   * Bandwidth limit in bytes per second for the whole batch, or a shared
+   * RateLimiter. Replaces any per-upload `rateLimit`.
+   */
+  rateLimit?: number | RateLimiter;
+  /**
+   * Report from `validateFiles()`. Uploads whose file it rejected are not
+   * sent; they end as "skipped" with their `validationErrors`.
+   */
+  validation?: FileCollectionReport;
+  /**
+   * Keep completed items in `BatchUploadResult.items` (default: true). Set to
+   * false for very large batches; completed items are still passed to
+   * `onItemComplete` and counted.
+   */
+  retainCompleted?: boolean;
 }
 
 /** Result of a batch upload operation. */
@@ -68,14 +133,46 @@ export interface BatchUploadResult {
   successful: number;
   /** Number of failed uploads. */
   failed: number;
+  /** Number of uploads skipped because their file was rejected. */
+  skipped: number;
+  /** Number of uploads cancelled in an upload queue. */
+  cancelled: number;
   /** Whether the batch was aborted. */
   aborted: boolean;
 }
 
+/** Default `throttleMs` of batch progress. */
+const DEFAULT_BATCH_THROTTLE_MS = 100;
+
+/** Report batch progress; byte updates are throttled, `force` reports status changes at once. */
+function createBatchProgressEmitter(
+  tally: BatchTally,
+  options: Pick<BatchUploadOptions, "onProgress" | "throttleMs">,
+): (force?: boolean) => void {
+  const { onProgress, throttleMs = DEFAULT_BATCH_THROTTLE_MS } = options;
+  let lastEmit = -Infinity;
+  return (force = false) => {
+    if (!onProgress) return;
+    const now = Date.now();
+    if (!force && now - lastEmit < throttleMs) return;
+    lastEmit = now;
+    onProgress(tally.snapshot());
+  };
+}
+
+/** Uploads for batchUpload(): an array, or an iterable read as uploads start. */
+export type BatchUploadSource = Iterable<UplnkOptions> | AsyncIterable<UplnkOptions>;
+
 /**
  * Upload multiple files concurrently with progress tracking.
  *
- * @param uploads - Array of upload options (each should have a unique URL or file)
+ * An array is counted up front. Any other iterable or async iterable is read
+ * one upload at a time as slots free up, so options (and signed URLs) for a
+ * large import are only created when needed; progress totals then grow as the
+ * source is read.
+ *
+ * @param uploads - Upload options (each should have a unique URL or file);
+ *   a `url` resolver is only called when its upload starts
  * @param options - Batch upload options
  * @returns Result containing status of all uploads
  *
@@ -96,90 +193,101 @@ export interface BatchUploadResult {
  * ```
  */
 export async function batchUpload(
-  uploads: UplnkOptions[],
+  uploads: BatchUploadSource,
   options: BatchUploadOptions = {},
 ): Promise<BatchUploadResult> {
   const {
     concurrency = 3,
-    onProgress,
     onItemComplete,
     onItemError,
     stopOnError = false,
     signal,
+    validation,
+    retainCompleted = true,
   } = options;
-
-  // Initialize items
-  const items: BatchUploadItem[] = uploads.map((opts, index) => ({
-    id: `upload-${index}`,
-    status: "pending" as const,
-    options: opts,
-  }));
-
-  let completed = 0;
-  let failed = 0;
-  let aborted = false;
-
-  // Calculate total bytes
-  const totalBytes = uploads.reduce(
-    (sum, opts) => sum + (opts.file instanceof Blob ? opts.file.size : 0),
-    0,
+  const limiter = toRateLimiter(options.rateLimit);
+  // Matched by identity, so the report may cover the files in any order.
+  const rejected = new Map(
+    validation?.files.filter((r) => r.errors.length > 0).map((r) => [r.file, r.errors]),
   );
 
-  // Track uploaded bytes per item
-  const uploadedBytesMap = new Map<string, number>();
-
-  const emitProgress = (): void => {
-    if (!onProgress) return;
+  // A Set keeps insertion order and drops completed items in O(1) without `retainCompleted`.
+  const items = new Set<BatchUploadItem>();
+  const tally = createBatchTally();
+  const emitProgress = createBatchProgressEmitter(tally, options);
+  let created = 0;
+  let aborted = false;
 
-    const uploadedBytes = Array.from(uploadedBytesMap.values()).reduce(
-      (sum, bytes) => sum + bytes,
-      0,
-    );
-
-    const batchProgress: BatchProgress = {
-      total: items.length,
-      completed,
-      failed,
-      pending: items.filter((i) => i.status === "pending").length,
-      uploading: items.filter((i) => i.status === "uploading").length,
-      percent: items.length > 0 ? (completed / items.length) * 100 : 0,
-      totalBytes,
-      uploadedBytes,
-    };
+  const createItem = (opts: UplnkOptions): BatchUploadItem => {
+    const id = `upload-${created++}`;
+    const validationErrors = rejected.get(opts.file as Blob);
+    const item: BatchUploadItem = validationErrors
+      ? { id, status: "skipped", options: opts, validationErrors }
+      : { id, status: "pending", options: opts };
+    items.add(item);
+    tally.add(item);
+    return item;
+  };
 
-    onProgress(batchProgress);
+  // Pending items of an array; a lazy source is read in next().
+  const ready = Array.isArray(uploads) ? uploads.map(createItem) : [];
+  let head = 0;
+  const iterator = Array.isArray(uploads)
+    ? undefined
+    : Symbol.asyncIterator in uploads
+      ? uploads[Symbol.asyncIterator]()
+      : uploads[Symbol.iterator]();
+  let exhausted = !iterator;
+
+  /** The next pending item, reading the source as needed. */
+  const next = async (): Promise<BatchUploadItem | undefined> => {
+    while (head < ready.length) {
+      const item = ready[head++];
+      if (item.status === "pending") return item;
+    }
+    while (iterator && !exhausted && !aborted) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        exhausted = true;
+        break;
+      }
+      const item = createItem(value);
+      emitProgress(true);
+      if (item.status === "pending") return item;
+    }
+    return undefined;
   };
 
   const processItem = async (item: BatchUploadItem): Promise<void> => {
-    if (aborted) return;
-
-    item.status = "uploading";
-    uploadedBytesMap.set(item.id, 0);
-    emitProgress();
+    tally.update(item, () => (item.status = "uploading"));
+    emitProgress(true);
 
     try {
-      await uplnk({
+      const result = await uplnk({
         ...item.options,
         signal,
+        ...(limiter && { rateLimit: limiter }),
         onProgress: (progress) => {
-          item.progress = progress;
-          uploadedBytesMap.set(item.id, progress.loaded);
+          tally.update(item, () => (item.progress = progress));
           emitProgress();
         },
       });
 
-      item.status = "completed";
-      item.completedAt = Date.now();
-      completed++;
-      uploadedBytesMap.set(item.id, item.options.file instanceof Blob ? item.options.file.size : 0);
-      emitProgress();
+      tally.update(item, () => {
+        item.result = result;
+        item.status = "completed";
+        item.completedAt = Date.now();
+      });
+      emitProgress(true);
       onItemComplete?.(item);
+      if (!retainCompleted) items.delete(item);
     } catch (err) {
-      item.status = "failed";
-      item.error = err as UploadError;
-      item.completedAt = Date.now();
-      failed++;
-      emitProgress();
+      tally.update(item, () => {
+        item.status = "failed";
+        item.error = err as UploadError;
+        item.completedAt = Date.now();
+      });
+      emitProgress(true);
       onItemError?.(item);
 
       if (stopOnError) {
@@ -188,14 +296,19 @@ export async function batchUpload(
     }
   };
 
+  const finish = (): BatchUploadResult => ({
+    items: [...items],
+    successful: tally.count("completed"),
+    failed: tally.count("failed"),
+    skipped: tally.count("skipped"),
+    cancelled: 0,
+    aborted,
+  });
+
   // Check if already aborted
   if (signal?.aborted) {
-    return {
-      items,
-      successful: 0,
-      failed: 0,
-      aborted: true,
-    };
+    aborted = true;
+    return finish();
   }
 
   // Handle abort signal
@@ -206,50 +319,30 @@ export async function batchUpload(
 
   try {
     // Initial progress
-    emitProgress();
-
-    // Process uploads with concurrency limit
-    const queue = [...items];
-    const active: Promise<void>[] = [];
-
-    while (queue.length > 0 || active.length > 0) {
-      if (aborted) break;
-
-      // Start new uploads up to concurrency limit
-      while (active.length < concurrency && queue.length > 0) {
-        const item = queue.shift();
-        if (!item) break;
-        const promise = processItem(item).then(() => {
-          const index = active.indexOf(promise);
-          if (index > -1) active.splice(index, 1);
-        });
-        active.push(promise);
-      }
-
-      // Wait for at least one to complete
-      if (active.length > 0) {
-        await Promise.race(active);
+    emitProgress(true);
+
+    // Each worker takes the next pending item until none is left
+    const worker = async (): Promise<void> => {
+      while (!aborted) {
+        const item = await next();
+        if (!item) return;
+        await processItem(item);
       }
-    }
-
-    // Wait for all active uploads to complete
-    await Promise.all(active);
+    };
+    await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
   } finally {
     signal?.removeEventListener("abort", onAbort);
+    // Let a generator source clean up when the batch stops early
+    if (!exhausted) await iterator?.return?.();
   }
 
-  return {
-    items,
-    successful: completed,
-    failed,
-    aborted,
-  };
+  return finish();
 }
 
 /**
  * Upload files sequentially (one at a time).
  *
- * @param uploads - Array of upload options
+ * @param uploads - Upload options, as for batchUpload()
  * @param options - Batch upload options (concurrency is ignored)
  * @returns Result containing status of all uploads
  *
@@ -262,16 +355,84 @@ export async function batchUpload(
  * ```
  */
 export async function sequentialUpload(
-  uploads: UplnkOptions[],
+  uploads: BatchUploadSource,
   options: Omit<BatchUploadOptions, "concurrency"> = {},
 ): Promise<BatchUploadResult> {
   return batchUpload(uploads, { ...options, concurrency: 1 });
 }
 
+/** Options for UploadQueue.add(). */
+export interface QueueAddOptions {
+  /** Higher priorities start first; equal ones start in the order added. Default: 0. */
+  priority?: number;
+}
+
+/** Status counts of an upload queue. */
+export interface UploadQueueStatus {
+  total: number;
+  pending: number;
+  uploading: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  /** Whether start() was called; uploads added since then start on their own. */
+  isStarted: boolean;
+  /** Whether uploads are pending or running in a started queue. */
+  isRunning: boolean;
+  isPaused: boolean;
+}
+
+/** Upload queue controller returned by createUploadQueue(). */
+export interface UploadQueue {
+  /** Add an upload; returns its id. Once started, the queue picks it up right away. */
+  add(uploadOptions: UplnkOptions, options?: QueueAddOptions): string;
+  /** Add multiple uploads; returns their ids. */
+  addMany(uploadOptions: UplnkOptions[], options?: QueueAddOptions): string[];
+  /** Start processing the queue (non-blocking); it keeps running as uploads are added. */
+  start(): void;
+  /**
+   * Start if needed, and resolve once no upload is pending or running,
+   * including uploads added while waiting. A paused queue is not drained.
+   */
+  waitForCompletion(): Promise<BatchUploadResult>;
+  /** Abort all pending and active uploads; the queue cannot be restarted. */
+  abort(): void;
+  /**
+   * Stop starting uploads. Active uploads are aborted and go back to
+   * "pending"; they start over on resume().
+   */
+  pause(): void;
+  /** Resume a paused queue. */
+  resume(): void;
+  /** Cancel a pending or active upload. Returns false if it already finished. */
+  cancel(id: string): boolean;
+  /** Queue a failed or cancelled upload again. Returns false for other statuses. */
+  retry(id: string): boolean;
+  /** Queue every failed upload again; returns their ids. */
+  retryAllFailed(): string[];
+  /** Change an upload's priority; a pending upload moves accordingly. */
+  setPriority(id: string, priority: number): boolean;
+  /**
+   * Change the queue's bandwidth limit (bytes per second; Infinity lifts it).
+   * Running uploads follow the new rate immediately when the queue was
+   * created with a `rateLimit`; otherwise it applies to uploads started later.
+   */
+  setRateLimit(bytesPerSecond: number): void;
+  /** Get current queue status. */
+  getStatus(): UploadQueueStatus;
+  /** Get all items in the queue. */
+  getItems(): BatchUploadItem[];
+  /** Clear finished (completed, failed and cancelled) items from the queue. */
+  clear(): void;
+}
+
 /**
- * Create a batch upload queue that can be controlled dynamically.
+ * Create a long-lived upload queue. Once started, it uploads items as they
+ * are added, by priority, then in the order added; they can be cancelled,
+ * retried and reprioritized by the id that add() returns, which is also the
+ * id callbacks report.
  *
- * @param options - Batch upload options
+ * @param options - Batch upload options (`validation` is not used)
  * @returns Upload queue controller
  *
  * @example
@@ -281,132 +442,286 @@ export async function sequentialUpload(
  *   onProgress: (p) => console.log(`${p.percent}%`),
  * });
  *
- * queue.add({ url: url1, file: file1 });
- * queue.add({ url: url2, file: file2 });
+ * const ids = files.map((file, i) => queue.add({ url: urls[i], file }));
+ * queue.start();
  *
- * await queue.start();
+ * // The user clicked "upload this first"
+ * queue.setPriority(ids[7], 10);
  *
- * // Add more while running
- * queue.add({ url: url3, file: file3 });
- *
- * await queue.waitForCompletion();
+ * const result = await queue.waitForCompletion();
+ * if (result.failed > 0) queue.retryAllFailed();
  * ```
  */
-export function createUploadQueue(options: BatchUploadOptions = {}) {
-  const items: BatchUploadItem[] = [];
-  const controller = new AbortController();
+export function createUploadQueue(options: BatchUploadOptions = {}): UploadQueue {
+  // By id, in the order added.
+  const items = new Map<string, BatchUploadItem>();
+  const tally = createBatchTally();
+  // Pending items by priority, then the order they were added. An item's
+  // older entries are stale once it is queued again (retry, pause,
+  // setPriority) and are skipped when popped.
+  const ready = createPriorityQueue<{ item: BatchUploadItem; version: number }>();
+  const entries = new Map<string, { order: number; version: number }>();
+  let added = 0;
+  // In-flight uploads, by item id; `paused` marks the ones pause() aborted.
+  const active = new Map<string, { controller: AbortController; paused: boolean }>();
+  let isStarted = false;
   let isRunning = false;
-  let currentBatch: Promise<BatchUploadResult> | null = null;
-
-  const { concurrency = 3, onProgress, onItemComplete, onItemError } = options;
-
-  return {
-    /**
-     * Add an upload to the queue.
-     */
-    add(uploadOptions: UplnkOptions): string {
-      const id = `upload-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-      const item: BatchUploadItem = {
-        id,
-        status: "pending",
-        options: uploadOptions,
-      };
-      items.push(item);
-      return id;
-    },
+  let isPaused = false;
+  let aborted = false;
+  let run: { promise: Promise<BatchUploadResult>; resolve: (r: BatchUploadResult) => void } | null =
+    null;
+
+  const { concurrency = 3, onItemComplete, onItemError, stopOnError = false, signal } = options;
+  let limiter = toRateLimiter(options.rateLimit);
+  const emitProgress = createBatchProgressEmitter(tally, options);
+
+  const result = (): BatchUploadResult => ({
+    items: [...items.values()],
+    successful: tally.count("completed"),
+    failed: tally.count("failed"),
+    skipped: tally.count("skipped"),
+    cancelled: tally.count("cancelled"),
+    aborted,
+  });
 
-    /**
-     * Add multiple uploads to the queue.
-     */
-    addMany(uploadOptions: UplnkOptions[]): string[] {
-      return uploadOptions.map((opts) => this.add(opts));
-    },
+  const enqueue = (item: BatchUploadItem): void => {
+    const entry = entries.get(item.id) ?? { order: added++, version: 0 };
+    entry.version++;
+    entries.set(item.id, entry);
+    ready.push({ item, version: entry.version }, item.priority ?? 0, entry.order);
+  };
 
-    /**
-     * Start processing the queue (non-blocking).
-     */
-    start(): void {
-      if (isRunning) return;
-      isRunning = true;
+  /** Highest priority first; the earliest added wins ties. */
+  const nextPending = (): BatchUploadItem | undefined => {
+    for (let next = ready.pop(); next; next = ready.pop()) {
+      const { item, version } = next;
+      if (item.status === "pending" && entries.get(item.id)?.version === version) return item;
+    }
+    return undefined;
+  };
 
-      const pendingItems = items.filter((i) => i.status === "pending");
-      if (pendingItems.length === 0) return;
-
-      currentBatch = batchUpload(
-        pendingItems.map((i) => i.options),
-        {
-          concurrency,
-          signal: controller.signal,
-          onProgress,
-          onItemComplete,
-          onItemError,
+  const finishRun = (): void => {
+    isRunning = false;
+    const current = run;
+    run = null;
+    current?.resolve(result());
+  };
+
+  const processItem = async (item: BatchUploadItem): Promise<void> => {
+    const controller = new AbortController();
+    const upload = { controller, paused: false };
+    active.set(item.id, upload);
+    tally.update(item, () => {
+      item.status = "uploading";
+      item.progress = undefined;
+      item.error = undefined;
+    });
+    emitProgress(true);
+
+    try {
+      const uploaded = await uplnk({
+        ...item.options,
+        signal: controller.signal,
+        ...(limiter && { rateLimit: limiter }),
+        onProgress: (progress) => {
+          tally.update(item, () => (item.progress = progress));
+          emitProgress();
         },
-      ).finally(() => {
-        isRunning = false;
-        currentBatch = null;
       });
+      tally.update(item, () => {
+        item.result = uploaded;
+        item.status = "completed";
+        item.completedAt = Date.now();
+      });
+      emitProgress(true);
+      onItemComplete?.(item);
+    } catch (err) {
+      // cancel(id) may have changed the status while the upload ran; that abort is expected.
+      const cancelled = (item.status as BatchUploadStatus) === "cancelled";
+      // Decided by the abort's cause: pause(); resume() in one tick must still re-queue.
+      if (!cancelled && upload.paused && !aborted) {
+        tally.update(item, () => {
+          item.status = "pending";
+          item.progress = undefined;
+        });
+        enqueue(item);
+        emitProgress(true);
+      } else if (!cancelled) {
+        tally.update(item, () => {
+          item.status = "failed";
+          item.error = err as UploadError;
+          item.completedAt = Date.now();
+        });
+        emitProgress(true);
+        onItemError?.(item);
+        if (stopOnError) aborted = true;
+      }
+    } finally {
+      active.delete(item.id);
+      pump();
+    }
+  };
+
+  /** Start uploads up to the concurrency limit; end the run once nothing is left. */
+  const pump = (): void => {
+    if (!run) return;
+    while (!aborted && !isPaused && active.size < concurrency) {
+      const item = nextPending();
+      if (!item) break;
+      void processItem(item);
+    }
+    if (active.size === 0 && (aborted || tally.count("pending") === 0)) finishRun();
+  };
+
+  /** Begin a run if the queue is started and idle, then fill free slots. */
+  const schedule = (): void => {
+    if (!isStarted || aborted) return;
+    if (!run) {
+      let resolve: (r: BatchUploadResult) => void = () => undefined;
+      const promise = new Promise<BatchUploadResult>((r) => (resolve = r));
+      run = { promise, resolve };
+      isRunning = true;
+    }
+    pump();
+  };
+
+  const queue: UploadQueue = {
+    add(uploadOptions, addOptions) {
+      return queue.addMany([uploadOptions], addOptions)[0];
     },
 
-    /**
-     * Wait for all uploads to complete.
-     */
-    async waitForCompletion(): Promise<BatchUploadResult> {
-      if (!isRunning) {
-        this.start();
+    addMany(uploadOptions, addOptions = {}) {
+      const ids = uploadOptions.map((opts) => {
+        const id = `upload-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+        const item: BatchUploadItem = {
+          id,
+          status: "pending",
+          options: opts,
+          priority: addOptions.priority,
+        };
+        items.set(id, item);
+        tally.add(item);
+        enqueue(item);
+        return id;
+      });
+      // Schedule once, so the highest priority of the whole group starts first.
+      if (isStarted && ids.length > 0) {
+        emitProgress(true);
+        schedule();
       }
+      return ids;
+    },
 
-      if (!currentBatch) {
-        return {
-          items,
-          successful: items.filter((i) => i.status === "completed").length,
-          failed: items.filter((i) => i.status === "failed").length,
-          aborted: false,
-        };
+    start() {
+      if (isStarted || aborted) return;
+      isStarted = true;
+      emitProgress(true);
+      schedule();
+    },
+
+    async waitForCompletion() {
+      queue.start();
+      return run ? run.promise : result();
+    },
+
+    abort() {
+      aborted = true;
+      for (const { controller } of active.values()) controller.abort();
+      if (active.size === 0 && run) finishRun();
+    },
+
+    pause() {
+      if (isPaused) return;
+      isPaused = true;
+      for (const upload of active.values()) {
+        upload.paused = true;
+        upload.controller.abort();
       }
+    },
 
-      return currentBatch;
+    resume() {
+      if (!isPaused) return;
+      isPaused = false;
+      schedule();
     },
 
-    /**
-     * Abort all pending and active uploads.
-     */
-    abort(): void {
-      controller.abort();
-      isRunning = false;
+    cancel(id) {
+      const item = items.get(id);
+      if (!item || (item.status !== "pending" && item.status !== "uploading")) return false;
+      tally.update(item, () => {
+        item.status = "cancelled";
+        item.completedAt = Date.now();
+      });
+      active.get(id)?.controller.abort();
+      emitProgress(true);
+      pump();
+      return true;
+    },
+
+    retry(id) {
+      const item = items.get(id);
+      if (!item || (item.status !== "failed" && item.status !== "cancelled")) return false;
+      tally.update(item, () => {
+        item.status = "pending";
+        item.error = undefined;
+        item.progress = undefined;
+        item.completedAt = undefined;
+      });
+      enqueue(item);
+      emitProgress(true);
+      schedule();
+      return true;
+    },
+
+    retryAllFailed() {
+      return [...items.values()]
+        .filter((i) => i.status === "failed")
+        .map((i) => i.id)
+        .filter((id) => queue.retry(id));
+    },
+
+    setPriority(id, priority) {
+      const item = items.get(id);
+      if (!item) return false;
+      item.priority = priority;
+      if (item.status === "pending") enqueue(item);
+      return true;
+    },
+
+    setRateLimit(bytesPerSecond) {
+      if (limiter) limiter.setRate(bytesPerSecond);
+      else limiter = createRateLimiter(bytesPerSecond);
     },
 
-    /**
-     * Get current queue status.
-     */
     getStatus() {
       return {
-        total: items.length,
-        pending: items.filter((i) => i.status === "pending").length,
-        uploading: items.filter((i) => i.status === "uploading").length,
-        completed: items.filter((i) => i.status === "completed").length,
-        failed: items.filter((i) => i.status === "failed").length,
+        total: items.size,
+        pending: tally.count("pending"),
+        uploading: tally.count("uploading"),
+        completed: tally.count("completed"),
+        failed: tally.count("failed"),
+        cancelled: tally.count("cancelled"),
+        isStarted,
         isRunning,
+        isPaused,
       };
     },
 
-    /**
-     * Get all items in the queue.
-     */
-    getItems(): BatchUploadItem[] {
-      return [...items];
+    getItems() {
+      return [...items.values()];
     },
 
-    /**
-     * Clear completed and failed items from the queue.
-     */
-    clear(): void {
-      const indicesToRemove: number[] = [];
-      items.forEach((item, index) => {
-        if (item.status === "completed" || item.status === "failed") {
-          indicesToRemove.push(index);
-        }
-      });
-      indicesToRemove.reverse().forEach((index) => items.splice(index, 1));
+    clear() {
+      const finished: BatchUploadStatus[] = ["completed", "failed", "cancelled"];
+      for (const item of items.values()) {
+        if (!finished.includes(item.status)) continue;
+        items.delete(item.id);
+        entries.delete(item.id);
+        tally.remove(item);
+      }
     },
   };
+
+  signal?.addEventListener("abort", () => queue.abort());
+  return queue;
 }
@@ -0,0 +1,194 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "node:crypto";
+import { uplnk, UplnkError, exponentialBackoff } from "./index";
+import { computeChecksum, checksumHeaders, echoedChecksum } from "./checksum";
+import type { TransportRequest, UploadTransport } from "@uplnk/types";
+
+function bytes(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+}
+
+/** Echo request headers back as response headers, optionally rewriting them. */
+function echoTransport(
+  requests: TransportRequest[],
+  rewrite: (headers: Record<string, string>) => Record<string, string> = (h) => h,
+): UploadTransport {
+  return {
+    name: "fake",
+    async send(request) {
+      requests.push(request);
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(request.headers)) {
+        headers[name.toLowerCase()] = value;
+      }
+      return { status: 200, headers: rewrite(headers), responseText: "" };
+    },
+  };
+}
+
+describe("computeChecksum", () => {
+  it.each(["md5", "sha1", "sha256"] as const)(
+    "matches node:crypto for %s across block and chunk boundaries",
+    async (algorithm) => {
+      for (const length of [0, 1, 55, 56, 63, 64, 65, 1000, 5000]) {
+        const data = bytes(length);
+        const expected = createHash(algorithm).update(data).digest("hex");
+
+        await expect(computeChecksum(data, algorithm)).resolves.toMatchObject({ hex: expected });
+        const fromBlob = await computeChecksum(new Blob([data as BlobPart]), algorithm, {
+          chunkSize: 100,
+        });
+        expect(fromBlob.hex).toBe(expected);
+      }
+    },
+  );
+
+  it("computes CRC32C", async () => {
+    const checksum = await computeChecksum(new TextEncoder().encode("123456789"), "crc32c");
+
+    expect(checksum).toEqual({ algorithm: "crc32c", hex: "e3069283", base64: "4waSgw==" });
+  });
+
+  it("rejects when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      computeChecksum(new Blob(["abc"]), "sha256", { signal: controller.signal }),
+    ).rejects.toMatchObject({ type: "abort" });
+  });
+});
+
+describe("checksum headers", () => {
+  const md5 = { algorithm: "md5" as const, base64: "kAFQmDzST7DWlj99KOF/cg==", hex: "" };
+
+  it("maps providers to header names", () => {
+    expect(checksumHeaders(md5, "s3")).toEqual({ "Content-MD5": md5.base64 });
+    expect(checksumHeaders({ ...md5, algorithm: "sha256" }, "s3")).toEqual({
+      "x-amz-checksum-sha256": md5.base64,
+    });
+    expect(checksumHeaders(md5, "gcs")).toEqual({ "x-goog-hash": `md5=${md5.base64}` });
+    expect(checksumHeaders(md5, "X-Digest")).toEqual({ "X-Digest": md5.base64 });
+    expect(checksumHeaders(md5, false)).toEqual({});
+  });
+
+  it("reads the server's echo", () => {
+    expect(echoedChecksum({ "x-goog-hash": "crc32c=4waSgw==,md5=abc==" }, "crc32c", "gcs")).toBe(
+      "4waSgw==",
+    );
+    expect(echoedChecksum({ "content-md5": "kAFQmDzST7DWlj99KOF/cg==" }, "md5", "s3")).toBe(
+      "kAFQmDzST7DWlj99KOF/cg==",
+    );
+    // ETags are not an MD5 of the file with SSE-KMS or SSE-C, so they are opt-in.
+    expect(echoedChecksum({ etag: '"900150983cd24fb0d6963f7d28e17f72"' }, "md5", "s3")).toBe(
+      undefined,
+    );
+    expect(echoedChecksum({ etag: '"900150983cd24fb0d6963f7d28e17f72"' }, "md5", "s3", true)).toBe(
+      "kAFQmDzST7DWlj99KOF/cg==",
+    );
+    // Multipart ETags are not an MD5 of the file.
+    expect(
+      echoedChecksum({ etag: '"900150983cd24fb0d6963f7d28e17f72-2"' }, "md5", "s3", true),
+    ).toBe(undefined);
+    expect(echoedChecksum({}, "sha256", "s3")).toBeUndefined();
+  });
+});
+
+describe("uplnk checksum option", () => {
+  const file = new Blob(["abc"]);
+  const sha256 = "ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=";
+
+  it("sends the checksum and verifies the echo", async () => {
+    const requests: TransportRequest[] = [];
+    const result = await uplnk({
+      url: "https://bucket.s3.amazonaws.com/a",
+      file,
+      transport: echoTransport(requests),
+      checksum: "sha256",
+    });
+
+    expect(requests[0].headers["x-amz-checksum-sha256"]).toBe(sha256);
+    expect(result.checksum).toEqual({
+      algorithm: "sha256",
+      base64: sha256,
+      hex: "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+      verified: true,
+    });
+  });
+
+  it("reports an unverified checksum when the server echoes nothing", async () => {
+    const result = await uplnk({
+      url: "https://example.com/a",
+      file,
+      transport: echoTransport([], () => ({})),
+      checksum: { algorithm: "md5", header: false },
+    });
+
+    expect(result.checksum).toMatchObject({ algorithm: "md5", verified: false });
+  });
+
+  it("rejects with checksum-mismatch and does not retry it by default", async () => {
+    const requests: TransportRequest[] = [];
+    const err = await uplnk({
+      url: "https://storage.googleapis.com/bucket/a",
+      file,
+      transport: echoTransport(requests, () => ({ "x-goog-hash": "crc32c=AAAAAA==" })),
+      checksum: { algorithm: "crc32c", header: "gcs" },
+      retry: exponentialBackoff({ maxAttempts: 3 }),
+    }).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(UplnkError);
+    expect(err).toMatchObject({
+      type: "checksum-mismatch",
+      checksum: { algorithm: "crc32c", actual: "AAAAAA==" },
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers["x-goog-hash"]).toMatch(/^crc32c=/);
+  });
+
+  it("verifies md5 against a single-part ETag when asked", async () => {
+    const etag = () => ({ etag: '"900150983cd24fb0d6963f7d28e17f72"' });
+    const unverified = await uplnk({
+      url: "https://bucket.s3.amazonaws.com/a",
+      file,
+      transport: echoTransport([], etag),
+      checksum: "md5",
+    });
+    const verified = await uplnk({
+      url: "https://bucket.s3.amazonaws.com/a",
+      file,
+      transport: echoTransport([], etag),
+      checksum: { algorithm: "md5", verifyEtag: true },
+    });
+
+    expect(unverified.checksum?.verified).toBe(false);
+    expect(verified.checksum?.verified).toBe(true);
+    await expect(
+      uplnk({
+        url: "https://bucket.s3.amazonaws.com/a",
+        file: new Blob(["abd"]),
+        transport: echoTransport([], etag),
+        checksum: { algorithm: "md5", verifyEtag: true },
+      }),
+    ).rejects.toMatchObject({ type: "checksum-mismatch" });
+  });
+
+  it("rejects algorithms the provider header cannot carry", async () => {
+    await expect(
+      uplnk({
+        url: "https://example.com/a",
+        file,
+        transport: echoTransport([]),
+        checksum: { algorithm: "sha256", header: "gcs" },
+      }),
+    ).rejects.toThrow(TypeError);
+    await expect(
+      uplnk({
+        url: "https://example.com/a",
+        file,
+        transport: echoTransport([]),
+        checksum: { algorithm: "sha256", verifyEtag: true },
+      }),
+    ).rejects.toThrow("verifyEtag");
+  });
+});
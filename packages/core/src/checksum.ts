@@ -0,0 +1,145 @@
+/**
+ * @uplnk/core/checksum — End-to-end checksums sent in provider headers and verified on response.
+ */
+
+import type { ChecksumAlgorithm, ChecksumOptions, FileChecksum, UploadBody } from "@uplnk/types";
+import { createHasher } from "./hash";
+import { blobChunks, DEFAULT_STREAM_CHUNK_SIZE } from "./streams";
+import { UplnkError } from "./errors";
+
+/** Options for computeChecksum(). */
+export interface ComputeChecksumOptions {
+  /** Abort hashing. */
+  signal?: AbortSignal;
+  /** Bytes read from the Blob at a time. Default: 65536. */
+  chunkSize?: number;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function hexToBase64(hex: string): string {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return toBase64(bytes);
+}
+
+/**
+ * Hash a file chunk by chunk, so large Blobs are never read into memory at once.
+ *
+ * @param file - File, Blob or byte array
+ * @param algorithm - "sha256", "sha1", "md5" or "crc32c"
+ * @param options - Abort signal and read size
+ *
+ * @example
+ * ```ts
+ * const { base64 } = await computeChecksum(file, "sha256");
+ * await api.registerUpload({ name: file.name, sha256: base64 });
+ * ```
+ */
+export async function computeChecksum(
+  file: Blob | Uint8Array,
+  algorithm: ChecksumAlgorithm,
+  options: ComputeChecksumOptions = {},
+): Promise<FileChecksum> {
+  const { signal, chunkSize = DEFAULT_STREAM_CHUNK_SIZE } = options;
+  const hasher = createHasher(algorithm);
+  if (file instanceof Blob) {
+    for await (const chunk of blobChunks(file, chunkSize)) {
+      if (signal?.aborted) throw new UplnkError({ type: "abort" });
+      hasher.update(chunk);
+    }
+  } else {
+    hasher.update(file);
+  }
+  if (signal?.aborted) throw new UplnkError({ type: "abort" });
+  const digest = hasher.digest();
+  return { algorithm, base64: toBase64(digest), hex: toHex(digest) };
+}
+
+/**
+ * Normalize the `checksum` option and check that the file can be hashed.
+ *
+ * @internal
+ */
+export function toChecksumOptions(
+  checksum: ChecksumAlgorithm | ChecksumOptions,
+  file: UploadBody,
+): Required<ChecksumOptions> {
+  const {
+    algorithm,
+    header = "s3",
+    verify = true,
+    verifyEtag = false,
+  } = typeof checksum === "string" ? { algorithm: checksum } : checksum;
+  if (!(file instanceof Blob) && !ArrayBuffer.isView(file)) {
+    throw new TypeError("uplnk: checksum needs a File, Blob or Uint8Array file");
+  }
+  if (header === "gcs" && algorithm !== "md5" && algorithm !== "crc32c") {
+    throw new TypeError(`uplnk: x-goog-hash does not carry ${algorithm}; use md5 or crc32c`);
+  }
+  if (verifyEtag && algorithm !== "md5") {
+    throw new TypeError(`uplnk: verifyEtag compares an MD5; ${algorithm} cannot be checked`);
+  }
+  return { algorithm, header, verify, verifyEtag };
+}
+
+/**
+ * Request headers that carry the checksum.
+ *
+ * @internal
+ */
+export function checksumHeaders(
+  checksum: FileChecksum,
+  header: string | false,
+): Record<string, string> {
+  const { algorithm, base64 } = checksum;
+  if (header === false) return {};
+  if (header === "gcs") return { "x-goog-hash": `${algorithm}=${base64}` };
+  if (header === "s3") {
+    return algorithm === "md5"
+      ? { "Content-MD5": base64 }
+      : { [`x-amz-checksum-${algorithm}`]: base64 };
+  }
+  return { [header]: base64 };
+}
+
+/**
+ * Find the checksum the server echoed, base64-encoded: the custom header,
+ * `x-amz-checksum-<algorithm>`, the matching `x-goog-hash` entry, or for md5
+ * `Content-MD5`. With `verifyEtag`, an md5 also matches a single-part ETag;
+ * it is opt-in because with SSE-KMS or SSE-C the ETag is not the MD5 of the file.
+ *
+ * @internal
+ */
+export function echoedChecksum(
+  headers: Record<string, string>,
+  algorithm: ChecksumAlgorithm,
+  header: string | false,
+  verifyEtag = false,
+): string | undefined {
+  if (header && header !== "s3" && header !== "gcs") {
+    const custom = headers[header.toLowerCase()];
+    if (custom) return custom.trim();
+  }
+  const amz = headers[`x-amz-checksum-${algorithm}`];
+  if (amz) return amz.trim();
+  for (const entry of (headers["x-goog-hash"] ?? "").split(",")) {
+    const eq = entry.indexOf("=");
+    if (eq > 0 && entry.slice(0, eq).trim() === algorithm) return entry.slice(eq + 1).trim();
+  }
+  if (algorithm === "md5") {
+    if (headers["content-md5"]) return headers["content-md5"].trim();
+    // Multipart ETags end in "-<parts>" and never match.
+    const etag = verifyEtag && /^"?([0-9a-f]{32})"?$/i.exec((headers["etag"] ?? "").trim());
+    if (etag) return hexToBase64(etag[1].toLowerCase());
+  }
+  return undefined;
+}
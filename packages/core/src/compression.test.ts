@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { gunzipSync, inflateSync } from "node:zlib";
+import { uplnk } from "./index";
+import { compressFile } from "./compression";
+import { computeChecksum } from "./checksum";
+import { readBlob } from "./streams";
+import type { TransportRequest, UploadProgress, UploadTransport } from "@uplnk/types";
+
+const csv = Array.from({ length: 5000 }, (_, i) => `${i},item-${i % 50},${(i * 37) % 1000}\n`).join(
+  "",
+);
+
+async function decompress(body: Blob, format: "gzip" | "deflate"): Promise<string> {
+  const bytes = Buffer.from(await readBlob(body));
+  return (format === "gzip" ? gunzipSync(bytes) : inflateSync(bytes)).toString();
+}
+
+/** Report progress in 4 steps of the body, like a transport would. */
+function steppingTransport(requests: TransportRequest[]): UploadTransport {
+  return {
+    name: "fake",
+    async send(request) {
+      requests.push(request);
+      const size = (request.body as Blob).size;
+      for (let step = 1; step <= 4; step++) {
+        request.onUploadProgress?.(Math.round((size * step) / 4), size);
+      }
+      return { status: 200, headers: {}, responseText: "" };
+    },
+  };
+}
+
+describe("compressFile", () => {
+  it.each(["gzip", "deflate"] as const)(
+    "produces valid %s with the JS compressor",
+    async (format) => {
+      const compressed = await compressFile(new Blob([csv]), format, {
+        native: false,
+        chunkSize: 10000,
+      });
+
+      expect(compressed.sourceSize).toBe(csv.length);
+      expect(compressed.size).toBe(compressed.body.size);
+      expect(compressed.size).toBeLessThan(csv.length / 2);
+      await expect(decompress(compressed.body, format)).resolves.toBe(csv);
+    },
+  );
+
+  it.runIf(typeof CompressionStream === "function")("uses CompressionStream", async () => {
+    const compressed = await compressFile(new Blob([csv]), "gzip", { chunkSize: 10000 });
+
+    expect(compressed.toSourceBytes(compressed.size)).toBe(csv.length);
+    await expect(decompress(compressed.body, "gzip")).resolves.toBe(csv);
+  });
+
+  it("maps wire bytes to source bytes", async () => {
+    const compressed = await compressFile(new Blob([csv]), "gzip", {
+      native: false,
+      chunkSize: 10000,
+    });
+
+    expect(compressed.toSourceBytes(0)).toBe(0);
+    expect(compressed.toSourceBytes(compressed.size)).toBe(csv.length);
+    const half = compressed.toSourceBytes(compressed.size / 2);
+    expect(half).toBeGreaterThan(csv.length / 4);
+    expect(half).toBeLessThan((csv.length * 3) / 4);
+  });
+
+  it("keeps the MIME type", async () => {
+    const compressed = await compressFile(new Blob([csv], { type: "text/csv" }), "gzip", {
+      native: false,
+    });
+
+    expect(compressed.body.type).toBe("text/csv");
+  });
+});
+
+describe("uplnk compress option", () => {
+  it("sends a compressed body with Content-Encoding and reports both byte counts", async () => {
+    const requests: TransportRequest[] = [];
+    const events: UploadProgress[] = [];
+    const result = await uplnk({
+      url: "https://example.com/export.csv",
+      file: new Blob([csv]),
+      transport: steppingTransport(requests),
+      compress: await compressFile(new Blob([csv]), "deflate", { native: false }),
+      progress: { throttleMs: 0 },
+      onProgress: (p) => events.push({ ...p }),
+    });
+
+    const body = requests[0].body as Blob;
+    expect(requests[0].headers["Content-Encoding"]).toBe("deflate");
+    await expect(decompress(body, "deflate")).resolves.toBe(csv);
+    expect(result.timing.bytes).toBe(body.size);
+
+    const last = events[events.length - 1];
+    expect(last).toMatchObject({
+      loaded: csv.length,
+      total: csv.length,
+      percent: 100,
+      wireLoaded: body.size,
+      wireTotal: body.size,
+    });
+    const loaded = events.map((e) => e.loaded);
+    expect(loaded).toEqual([...loaded].sort((a, b) => a - b));
+  });
+
+  it("checksums the compressed bytes", async () => {
+    const requests: TransportRequest[] = [];
+    const result = await uplnk({
+      url: "https://example.com/export.csv",
+      file: new Blob([csv]),
+      transport: steppingTransport(requests),
+      compress: "gzip",
+      checksum: { algorithm: "crc32c", header: false },
+    });
+
+    const sent = await computeChecksum(requests[0].body as Blob, "crc32c");
+    expect(result.checksum?.hex).toBe(sent.hex);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @uplnk/core/compression — gzip/deflate request bodies with source-to-wire progress mapping.
+ */
+
+import type { CompressedBody, UploadBody, UploadCompression } from "@uplnk/types";
+import { createCompressor } from "./deflate";
+import { blobChunks, DEFAULT_STREAM_CHUNK_SIZE } from "./streams";
+import { UplnkError } from "./errors";
+
+/** Options for compressFile(). */
+export interface CompressFileOptions {
+  /** Abort compression. */
+  signal?: AbortSignal;
+  /** Bytes read from the file at a time. Default: 65536. */
+  chunkSize?: number;
+  /** Use CompressionStream where available. Default: true; false forces the JS compressor. */
+  native?: boolean;
+}
+
+/**
+ * Build `toSourceBytes` from `[sourceBytes, wireBytes]` checkpoints,
+ * interpolating linearly between them.
+ */
+function sourceMapper(points: Array<[number, number]>): (wireBytes: number) => number {
+  return (wireBytes) => {
+    let lo = 0;
+    let hi = points.length - 1;
+    if (wireBytes >= points[hi][1]) return points[hi][0];
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (points[mid][1] <= wireBytes) lo = mid;
+      else hi = mid;
+    }
+    const [s0, w0] = points[lo];
+    const [s1, w1] = points[hi];
+    return Math.round(w1 > w0 ? s0 + ((wireBytes - w0) / (w1 - w0)) * (s1 - s0) : s0);
+  };
+}
+
+/**
+ * Compress a file with gzip or deflate (zlib), reading it in chunks. Uses
+ * CompressionStream where the runtime has it and a built-in JS compressor
+ * otherwise. The result can be passed as `compress` to uplnk() so the same
+ * body is sent on every attempt.
+ *
+ * @param file - File, Blob or byte array
+ * @param format - "gzip" or "deflate"
+ * @param options - Abort signal, read size and compressor choice
+ *
+ * @example
+ * ```ts
+ * const compressed = await compressFile(file, "gzip");
+ * const error = validateFile(file, { maxSize: 50_000_000, compressedSize: compressed.size });
+ * if (!error) await uplnk({ url, file, compress: compressed });
+ * ```
+ */
+export async function compressFile(
+  file: Blob | Uint8Array,
+  format: UploadCompression,
+  options: CompressFileOptions = {},
+): Promise<CompressedBody> {
+  const { signal, chunkSize = DEFAULT_STREAM_CHUNK_SIZE, native = true } = options;
+  const blob = file instanceof Blob ? file : new Blob([file as BlobPart]);
+  const parts: Uint8Array[] = [];
+  const points: Array<[number, number]> = [[0, 0]];
+  let source = 0;
+  let wire = 0;
+  const emit = (bytes: Uint8Array): void => {
+    if (bytes.length === 0) return;
+    parts.push(bytes);
+    wire += bytes.length;
+    points.push([source, wire]);
+  };
+  const checkAbort = (): void => {
+    if (signal?.aborted) throw new UplnkError({ type: "abort" });
+  };
+
+  if (native && typeof CompressionStream === "function") {
+    const stream = new CompressionStream(format);
+    const writer = stream.writable.getWriter();
+    const reader = stream.readable.getReader();
+    // Output lags input inside the stream, so checkpoints slightly overstate source bytes.
+    const reading = (async () => {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        emit(value);
+      }
+    })();
+    try {
+      for await (const chunk of blobChunks(blob, chunkSize)) {
+        checkAbort();
+        await writer.write(chunk as BufferSource);
+        source += chunk.length;
+      }
+      await writer.close();
+    } catch (err) {
+      await writer.abort(err).catch(() => undefined);
+      await reading.catch(() => undefined);
+      throw err;
+    }
+    await reading;
+  } else {
+    const compressor = createCompressor(format);
+    for await (const chunk of blobChunks(blob, chunkSize)) {
+      checkAbort();
+      source += chunk.length;
+      emit(compressor.push(chunk));
+    }
+    emit(compressor.finish());
+  }
+  checkAbort();
+  points.push([source, wire]);
+
+  return {
+    body: new Blob(parts as BlobPart[], { type: blob.type }),
+    format,
+    sourceSize: source,
+    size: wire,
+    toSourceBytes: sourceMapper(points),
+  };
+}
+
+/**
+ * Resolve the `compress` option: compress the file, or pass a body from
+ * compressFile() through.
+ *
+ * @internal
+ */
+export function resolveCompression(
+  compress: UploadCompression | CompressedBody,
+  file: UploadBody,
+  signal?: AbortSignal,
+): Promise<CompressedBody> {
+  if (typeof compress !== "string") return Promise.resolve(compress);
+  if (!(file instanceof Blob) && !ArrayBuffer.isView(file)) {
+    return Promise.reject(new TypeError("uplnk: compress needs a File, Blob or Uint8Array file"));
+  }
+  return compressFile(file as Blob | Uint8Array, compress, { signal });
+}
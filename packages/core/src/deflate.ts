@@ -0,0 +1,248 @@
+/**
+ * @uplnk/core/deflate — Pure-JS gzip/deflate compressor, used where CompressionStream is missing.
+ *
+ * LZ77 over a 32 KiB window with hash chains, encoded with the fixed Huffman
+ * codes of RFC 1951. Output is larger than zlib's, but text still shrinks
+ * several times, and the compressor keeps only the window in memory.
+ */
+
+import type { UploadCompression } from "@uplnk/types";
+import { createCrc32 } from "./hash";
+
+/** Streaming compressor: feed chunks, then finish. */
+export interface Compressor {
+  /** Compress the next chunk; returns the bytes produced so far. */
+  push(chunk: Uint8Array): Uint8Array;
+  /** Flush the final block and trailer. */
+  finish(): Uint8Array;
+}
+
+const WINDOW_SIZE = 32768;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+const MAX_CHAIN = 32;
+const HASH_SIZE = 1 << 15;
+
+// prettier-ignore
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+// prettier-ignore
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+// prettier-ignore
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+// prettier-ignore
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+
+/** Huffman codes are defined MSB-first but written into an LSB-first bit stream. */
+function reverseBits(code: number, length: number): number {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | (code & 1);
+    code >>>= 1;
+  }
+  return reversed;
+}
+
+// Fixed literal/length codes (RFC 1951 §3.2.6), already bit-reversed.
+const LIT_CODES = new Uint16Array(288);
+const LIT_BITS = new Uint8Array(288);
+for (let i = 0; i < 288; i++) {
+  const [code, bits] =
+    i < 144
+      ? [0x30 + i, 8]
+      : i < 256
+        ? [0x190 + i - 144, 9]
+        : i < 280
+          ? [i - 256, 7]
+          : [0xc0 + i - 280, 8];
+  LIT_CODES[i] = reverseBits(code, bits);
+  LIT_BITS[i] = bits;
+}
+const DIST_CODES = DIST_BASE.map((_, i) => reverseBits(i, 5));
+
+const LENGTH_SYMBOL = new Uint8Array(MAX_MATCH + 1);
+for (let j = 0; j < 28; j++) {
+  for (let len = LENGTH_BASE[j]; len < LENGTH_BASE[j + 1]; len++) LENGTH_SYMBOL[len] = j;
+}
+LENGTH_SYMBOL[MAX_MATCH] = 28;
+
+function distanceSymbol(distance: number): number {
+  let symbol = DIST_BASE.length - 1;
+  while (DIST_BASE[symbol] > distance) symbol--;
+  return symbol;
+}
+
+const hashAt = (buf: Uint8Array, i: number): number =>
+  ((buf[i] << 10) ^ (buf[i + 1] << 5) ^ buf[i + 2]) & (HASH_SIZE - 1);
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+/** Raw DEFLATE stream: one fixed-Huffman block per pushed chunk. */
+function deflateRaw(): Compressor {
+  let history = new Uint8Array(0);
+  let position = 0;
+  // Absolute positions; Float64 so files over 2 GiB do not overflow.
+  const head = new Float64Array(HASH_SIZE).fill(-1);
+  const prev = new Float64Array(WINDOW_SIZE).fill(-1);
+  let bitBuf = 0;
+  let bitCount = 0;
+  let out = new Uint8Array(0);
+  let outPos = 0;
+
+  const writeBits = (value: number, bits: number): void => {
+    bitBuf |= value << bitCount;
+    bitCount += bits;
+    while (bitCount >= 8) {
+      out[outPos++] = bitBuf & 0xff;
+      bitBuf >>>= 8;
+      bitCount -= 8;
+    }
+  };
+  const writeSymbol = (symbol: number): void => writeBits(LIT_CODES[symbol], LIT_BITS[symbol]);
+  const insert = (hash: number, abs: number): void => {
+    prev[abs % WINDOW_SIZE] = head[hash];
+    head[hash] = abs;
+  };
+
+  return {
+    push(chunk) {
+      if (chunk.length === 0) return new Uint8Array(0);
+      const buf = concat(history, chunk);
+      const base = position - history.length;
+      const end = buf.length;
+      // At most 9 bits per input byte, plus the block header and end-of-block code.
+      out = new Uint8Array(Math.ceil((chunk.length * 9) / 8) + 8);
+      outPos = 0;
+      writeBits(0, 1); // BFINAL
+      writeBits(1, 2); // BTYPE: fixed Huffman
+
+      let i = history.length;
+      while (i < end) {
+        let bestLength = 0;
+        let bestDistance = 0;
+        if (i + MIN_MATCH <= end) {
+          const abs = base + i;
+          const hash = hashAt(buf, i);
+          const maxLength = Math.min(MAX_MATCH, end - i);
+          let candidate = head[hash];
+          for (let chain = MAX_CHAIN; candidate >= 0 && chain > 0; chain--) {
+            const distance = abs - candidate;
+            const j = candidate - base;
+            if (distance > WINDOW_SIZE || j < 0) break;
+            if (buf[j + bestLength] === buf[i + bestLength]) {
+              let length = 0;
+              while (length < maxLength && buf[j + length] === buf[i + length]) length++;
+              if (length > bestLength) {
+                bestLength = length;
+                bestDistance = distance;
+                if (length === maxLength) break;
+              }
+            }
+            const next = prev[candidate % WINDOW_SIZE];
+            // The slot was reused by a newer position: the chain ends here.
+            if (next >= candidate) break;
+            candidate = next;
+          }
+          insert(hash, abs);
+        }
+
+        if (bestLength >= MIN_MATCH) {
+          const lengthSymbol = LENGTH_SYMBOL[bestLength];
+          writeSymbol(257 + lengthSymbol);
+          writeBits(bestLength - LENGTH_BASE[lengthSymbol], LENGTH_EXTRA[lengthSymbol]);
+          const distSymbol = distanceSymbol(bestDistance);
+          writeBits(DIST_CODES[distSymbol], 5);
+          writeBits(bestDistance - DIST_BASE[distSymbol], DIST_EXTRA[distSymbol]);
+          for (let k = 1; k < bestLength; k++) {
+            if (i + k + MIN_MATCH <= end) insert(hashAt(buf, i + k), base + i + k);
+          }
+          i += bestLength;
+        } else {
+          writeSymbol(buf[i]);
+          i++;
+        }
+      }
+      writeSymbol(256);
+
+      position += chunk.length;
+      history = buf.slice(Math.max(0, end - WINDOW_SIZE));
+      return out.subarray(0, outPos);
+    },
+    finish() {
+      out = new Uint8Array(8);
+      outPos = 0;
+      writeBits(1, 1); // BFINAL
+      writeBits(1, 2);
+      writeSymbol(256);
+      if (bitCount > 0) out[outPos++] = bitBuf & 0xff;
+      bitBuf = 0;
+      bitCount = 0;
+      return out.subarray(0, outPos);
+    },
+  };
+}
+
+function adler32(): { update(data: Uint8Array): void; value(): number } {
+  let a = 1;
+  let b = 0;
+  return {
+    update(data) {
+      // Reduce every 5552 bytes, as zlib does, so the sums stay small.
+      for (let start = 0; start < data.length; start += 5552) {
+        const end = Math.min(start + 5552, data.length);
+        for (let i = start; i < end; i++) {
+          a += data[i];
+          b += a;
+        }
+        a %= 65521;
+        b %= 65521;
+      }
+    },
+    value: () => ((b << 16) | a) >>> 0,
+  };
+}
+
+/**
+ * Create a gzip (RFC 1952) or zlib-wrapped deflate (RFC 1950) compressor,
+ * the formats `Content-Encoding: gzip` and `deflate` name.
+ *
+ * @internal
+ */
+export function createCompressor(format: UploadCompression): Compressor {
+  const raw = deflateRaw();
+  const gzip = format === "gzip";
+  const crc = createCrc32();
+  const adler = adler32();
+  let size = 0;
+  let headerSent = false;
+  const header = (): Uint8Array => {
+    if (headerSent) return new Uint8Array(0);
+    headerSent = true;
+    // gzip: deflate, no flags, no mtime, unknown OS. zlib: deflate with a 32 KiB window.
+    return gzip ? Uint8Array.of(0x1f, 0x8b, 8, 0, 0, 0, 0, 0, 0, 0xff) : Uint8Array.of(0x78, 0x01);
+  };
+
+  return {
+    push(chunk) {
+      if (gzip) crc.update(chunk);
+      else adler.update(chunk);
+      size = (size + chunk.length) % 0x100000000;
+      return concat(header(), raw.push(chunk));
+    },
+    finish() {
+      const trailer = new Uint8Array(gzip ? 8 : 4);
+      const view = new DataView(trailer.buffer);
+      if (gzip) {
+        view.setUint32(0, new DataView(crc.digest().buffer).getUint32(0), true);
+        view.setUint32(4, size, true);
+      } else {
+        view.setUint32(0, adler.value());
+      }
+      return concat(concat(header(), raw.finish()), trailer);
+    },
+  };
+}
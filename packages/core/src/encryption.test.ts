@@ -0,0 +1,262 @@
+import { describe, it, expect, vi } from "vitest";
+import { uplnk } from "./index";
+import { encryptFile, createEncryptor, decryptStream } from "./encryption";
+import { multipartUpload } from "./multipart";
+import { collectBody, readBlob } from "./streams";
+import type { StreamBody, TransportRequest, UploadProgress, UploadTransport } from "@uplnk/types";
+
+function bytes(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+}
+
+function generateKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+}
+
+async function decrypt(body: Blob | ReadableStream<Uint8Array>, key: CryptoKey): Promise<number[]> {
+  const reader = decryptStream(body, key).getReader();
+  const out: number[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return out;
+    out.push(...value);
+  }
+}
+
+/** Split a blob into a byte stream of `size`-byte chunks, unaligned with segments. */
+function chunkedStream(blob: Blob, size: number): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    async pull(controller) {
+      if (offset >= blob.size) return controller.close();
+      controller.enqueue(await readBlob(blob.slice(offset, offset + size)));
+      offset += size;
+    },
+  });
+}
+
+function recordingTransport(requests: TransportRequest[]): UploadTransport {
+  return {
+    name: "fake",
+    async send(request) {
+      requests.push(request);
+      const size = (request.body as Blob).size;
+      request.onUploadProgress?.(Math.round(size / 2), size);
+      request.onUploadProgress?.(size, size);
+      return { status: 200, headers: { etag: `"${requests.length}"` }, responseText: "" };
+    },
+  };
+}
+
+describe("encryptFile / decryptStream", () => {
+  it("round-trips across segment boundaries", async () => {
+    const key = await generateKey();
+    for (const length of [0, 1, 99, 100, 101, 250, 300]) {
+      const data = bytes(length);
+      const encrypted = await encryptFile(data, { key, segmentSize: 100 });
+      const segments = Math.max(1, Math.ceil(length / 100));
+
+      expect(encrypted.size).toBe(21 + length + segments * 16);
+      expect(encrypted.sourceSize).toBe(length);
+      await expect(decrypt(encrypted.body, key)).resolves.toEqual([...data]);
+      await expect(decrypt(chunkedStream(encrypted.body, 7), key)).resolves.toEqual([...data]);
+    }
+  });
+
+  it("maps wire bytes to plaintext bytes", async () => {
+    const encrypted = await encryptFile(bytes(250), { key: await generateKey(), segmentSize: 100 });
+
+    expect(encrypted.toSourceBytes(0)).toBe(0);
+    expect(encrypted.toSourceBytes(21 + 50)).toBe(50);
+    expect(encrypted.toSourceBytes(21 + 110)).toBe(100);
+    expect(encrypted.toSourceBytes(21 + 116 + 10)).toBe(110);
+    expect(encrypted.toSourceBytes(encrypted.size)).toBe(250);
+  });
+
+  it("fails on tampered, truncated or wrongly keyed ciphertext", async () => {
+    const key = await generateKey();
+    const encrypted = await encryptFile(bytes(250), { key, segmentSize: 100 });
+    const ciphertext = await readBlob(encrypted.body);
+
+    const tampered = ciphertext.slice();
+    tampered[150] ^= 1;
+    await expect(decrypt(new Blob([tampered as BlobPart]), key)).rejects.toThrow(/segment 1/);
+    // Dropping whole segments still fails: the new last segment was not sealed as final.
+    const cut = ciphertext.slice(0, 21 + 2 * 116);
+    await expect(decrypt(new Blob([cut as BlobPart]), key)).rejects.toThrow(/segment 1/);
+    await expect(decrypt(new Blob([ciphertext.slice(0, 30) as BlobPart]), key)).rejects.toThrow(
+      /truncated/,
+    );
+    await expect(decrypt(encrypted.body, await generateKey())).rejects.toThrow(/segment 0/);
+  });
+
+  it("takes a key provider and reports key ID and IV headers", async () => {
+    const key = await generateKey();
+    const iv = new Uint8Array(12).fill(1);
+    const encrypted = await encryptFile(new Blob(["secret"]), {
+      key: async () => ({ key, keyId: "kms-1" }),
+      iv,
+    });
+
+    expect(encrypted).toMatchObject({ algorithm: "AES-GCM", keyId: "kms-1", segmentSize: 65536 });
+    expect(encrypted.headers).toEqual({
+      "x-uplnk-key-id": "kms-1",
+      "x-uplnk-iv": "AQEBAQEBAQEBAQEB",
+    });
+    const custom = await encryptFile(new Blob(["secret"]), {
+      key,
+      keyId: "k",
+      headers: { keyId: "x-amz-meta-key-id", iv: "x-amz-meta-iv" },
+    });
+    expect(Object.keys(custom.headers)).toEqual(["x-amz-meta-key-id", "x-amz-meta-iv"]);
+    await expect(encryptFile(new Blob(["x"]), { key, iv: new Uint8Array(8) })).rejects.toThrow(
+      RangeError,
+    );
+  });
+});
+
+describe("createEncryptor", () => {
+  it("encrypts any ciphertext range from the segments it covers", async () => {
+    const key = await generateKey();
+    const iv = new Uint8Array(12).fill(9);
+    const data = bytes(1000);
+    const encryptor = await createEncryptor(data, { key, iv, segmentSize: 100 });
+    const whole = [
+      ...(await readBlob((await encryptFile(data, { key, iv, segmentSize: 100 })).body)),
+    ];
+    expect(encryptor.size).toBe(whole.length);
+
+    for (const [start, end] of [
+      [0, 10],
+      [0, 21],
+      [15, 300],
+      [137, 138],
+      [500, encryptor.size],
+      [0, encryptor.size],
+    ]) {
+      const range = await readBlob(await encryptor.read(start, end));
+      expect([...range]).toEqual(whole.slice(start, end));
+    }
+  });
+});
+
+describe("encrypt option", () => {
+  it("sends ciphertext with metadata headers and plaintext progress", async () => {
+    const key = await generateKey();
+    const requests: TransportRequest[] = [];
+    const progress: UploadProgress[] = [];
+    const data = bytes(1000);
+    const result = await uplnk({
+      url: "https://example.com/a",
+      file: new Blob([data as BlobPart]),
+      transport: recordingTransport(requests),
+      encrypt: { key, keyId: "k1", segmentSize: 256 },
+      onProgress: (p) => progress.push(p),
+    });
+
+    const body = await collectBody(requests[0].body as StreamBody);
+    expect(requests[0].headers["x-uplnk-key-id"]).toBe("k1");
+    expect(requests[0].headers["x-uplnk-iv"]).toBe(result.encryption?.iv);
+    expect(result.encryption).toMatchObject({
+      algorithm: "AES-GCM",
+      keyId: "k1",
+      segmentSize: 256,
+    });
+    await expect(decrypt(body, key)).resolves.toEqual([...data]);
+    expect(progress[progress.length - 1]).toMatchObject({
+      loaded: 1000,
+      total: 1000,
+      wireLoaded: body.size,
+      wireTotal: body.size,
+    });
+  });
+
+  it("encrypts a single request's segments as the transport reads them", async () => {
+    const key = await generateKey();
+    const data = bytes(1000);
+    const file = new Blob([data as BlobPart]);
+    const slice = vi.spyOn(file, "slice");
+    const chunks: Uint8Array[] = [];
+    let readUpFront = -1;
+    const transport: UploadTransport = {
+      name: "fake",
+      async send(request) {
+        readUpFront = slice.mock.calls.length;
+        for await (const chunk of request.body as StreamBody) chunks.push(chunk);
+        return { status: 200, headers: {}, responseText: "" };
+      },
+    };
+
+    await uplnk({
+      url: "https://example.com/a",
+      file,
+      transport,
+      encrypt: { key, segmentSize: 256 },
+    });
+
+    // Nothing is encrypted before the transport asks for it, then one segment per chunk.
+    expect(readUpFront).toBe(0);
+    expect(slice).toHaveBeenCalledTimes(4);
+    expect(chunks.map((c) => c.byteLength)).toEqual([21, 272, 272, 272, 248]);
+    await expect(decrypt(new Blob(chunks as BlobPart[]), key)).resolves.toEqual([...data]);
+  });
+
+  it("rejects combining encrypt with compress", async () => {
+    await expect(
+      uplnk({
+        url: "https://example.com/a",
+        file: new Blob(["abc"]),
+        transport: recordingTransport([]),
+        compress: "gzip",
+        encrypt: { key: await generateKey() },
+      }),
+    ).rejects.toThrow(TypeError);
+  });
+
+  it("encrypts multipart uploads part by part", async () => {
+    const key = await generateKey();
+    const requests: TransportRequest[] = [];
+    const progress: UploadProgress[] = [];
+    const data = bytes(5000);
+    const result = await multipartUpload({
+      file: new Blob([data as BlobPart]),
+      partSize: 2000,
+      concurrency: 1,
+      encrypt: { key, segmentSize: 1024 },
+      transport: recordingTransport(requests),
+      signPart: (n) => `https://example.com/part/${n}`,
+      complete: () => {},
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(requests).toHaveLength(3);
+    const ciphertext = new Blob(requests.map((r) => r.body as Blob));
+    await expect(decrypt(ciphertext, key)).resolves.toEqual([...data]);
+    expect(result.encryption).toMatchObject({ algorithm: "AES-GCM", segmentSize: 1024 });
+    expect(progress[progress.length - 1]).toMatchObject({ loaded: 5000, total: 5000 });
+  });
+  it("sends the metadata of a prepared encryptor with its parts", async () => {
+    const key = await generateKey();
+    const requests: TransportRequest[] = [];
+    const data = bytes(3000);
+    const encryptor = await createEncryptor(data, { key, keyId: "k2", segmentSize: 512 });
+    const result = await multipartUpload({
+      file: new Blob([data as BlobPart]),
+      partSize: 1000,
+      encrypt: encryptor,
+      transport: recordingTransport(requests),
+      signPart: (n) => `https://example.com/part/${n}`,
+      complete: () => {},
+    });
+
+    const bodies = requests.sort((a, b) => a.url.localeCompare(b.url)).map((r) => r.body as Blob);
+    expect(bodies.reduce((sum, body) => sum + body.size, 0)).toBe(encryptor.size);
+    await expect(decrypt(new Blob(bodies), key)).resolves.toEqual([...data]);
+    expect(result.encryption).toEqual({
+      algorithm: "AES-GCM",
+      keyId: "k2",
+      iv: encryptor.headers["x-uplnk-iv"],
+      segmentSize: 512,
+    });
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * @uplnk/core/encryption — Segmented AES-GCM encryption of upload bodies with WebCrypto.
+ *
+ * Framing, version 1 (integers are big-endian):
+ *
+ *   header   "UPLE" (4 bytes) | version 0x01 (1) | segment size (4) | base IV (12)
+ *   segment  AES-GCM ciphertext of the plaintext segment, followed by its 16-byte tag
+ *
+ * Every segment holds `segment size` plaintext bytes except the last, which
+ * holds the rest (possibly none; an empty file has one empty segment).
+ * Segment i is encrypted with the base IV whose last four bytes are XORed
+ * with i, and with header || i (4 bytes) || final flag (1 byte, 1 for the
+ * last segment) as additional data, so reordered, truncated or spliced
+ * ciphertext fails to decrypt.
+ */
+
+import type {
+  EncryptedBody,
+  EncryptionInfo,
+  Encryptor,
+  EncryptionKey,
+  EncryptionOptions,
+  StreamBody,
+  UploadBody,
+} from "@uplnk/types";
+import { blobChunks, readBlob, DEFAULT_STREAM_CHUNK_SIZE } from "./streams";
+import { UplnkError } from "./errors";
+
+/** Options for encryptFile(). */
+export interface EncryptFileOptions {
+  /** Abort encryption. */
+  signal?: AbortSignal;
+}
+
+const MAGIC = [0x55, 0x50, 0x4c, 0x45]; // "UPLE"
+const VERSION = 1;
+const HEADER_SIZE = 21;
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+const DEFAULT_KEY_ID_HEADER = "x-uplnk-key-id";
+const DEFAULT_IV_HEADER = "x-uplnk-iv";
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+function segmentIv(baseIv: Uint8Array, index: number): Uint8Array {
+  const iv = baseIv.slice();
+  const view = new DataView(iv.buffer);
+  view.setUint32(8, (view.getUint32(8) ^ index) >>> 0);
+  return iv;
+}
+
+function additionalData(header: Uint8Array, index: number, final: boolean): Uint8Array {
+  const aad = new Uint8Array(HEADER_SIZE + 5);
+  aad.set(header);
+  new DataView(aad.buffer).setUint32(HEADER_SIZE, index);
+  aad[HEADER_SIZE + 4] = final ? 1 : 0;
+  return aad;
+}
+
+function encodeHeader(segmentSize: number, baseIv: Uint8Array): Uint8Array {
+  const header = new Uint8Array(HEADER_SIZE);
+  header.set(MAGIC);
+  header[4] = VERSION;
+  new DataView(header.buffer).setUint32(5, segmentSize);
+  header.set(baseIv, 9);
+  return header;
+}
+
+async function resolveKey(options: EncryptionOptions): Promise<EncryptionKey> {
+  if (typeof options.key === "function") return options.key();
+  return { key: options.key, keyId: options.keyId };
+}
+
+/**
+ * Prepare a file for segmented AES-GCM encryption without encrypting it yet.
+ * The key ID, IV and ciphertext size are known right away; each range of
+ * the ciphertext is encrypted when it is read. Pass the result as
+ * multipartUpload()'s `encrypt` so each part is encrypted only when it is
+ * sent.
+ *
+ * @param file - File, Blob or byte array
+ * @param options - Key (or key provider), segment size, IV and metadata header names
+ *
+ * @example
+ * ```ts
+ * const encryptor = await createEncryptor(file, { key, keyId: "patient-docs-2024" });
+ * const { uploadId } = await api.createMultipartUpload({
+ *   key: file.name,
+ *   metadata: encryptor.headers,
+ * });
+ * await multipartUpload({ file, encrypt: encryptor, signPart, complete });
+ * ```
+ */
+export async function createEncryptor(
+  file: Blob | Uint8Array,
+  options: EncryptionOptions,
+): Promise<Encryptor> {
+  const { segmentSize = DEFAULT_STREAM_CHUNK_SIZE } = options;
+  if (!Number.isInteger(segmentSize) || segmentSize < 1 || segmentSize > 0xffffffff) {
+    throw new RangeError("uplnk: encrypt.segmentSize must be a positive 32-bit integer");
+  }
+  const baseIv = options.iv ?? crypto.getRandomValues(new Uint8Array(IV_SIZE));
+  if (baseIv.length !== IV_SIZE) {
+    throw new RangeError(`uplnk: encrypt.iv must be ${IV_SIZE} bytes`);
+  }
+  const blob = file instanceof Blob ? file : new Blob([file as BlobPart]);
+  const count = Math.max(1, Math.ceil(blob.size / segmentSize));
+  if (count > 0xffffffff) {
+    throw new RangeError("uplnk: file has too many segments; increase encrypt.segmentSize");
+  }
+
+  const { key, keyId } = await resolveKey(options);
+  const header = encodeHeader(segmentSize, baseIv);
+  const sourceSize = blob.size;
+  const size = HEADER_SIZE + sourceSize + count * TAG_SIZE;
+  const segment = segmentSize + TAG_SIZE;
+  /** Index of the segment holding ciphertext offset `offset` (past the header). */
+  const segmentAt = (offset: number): number =>
+    Math.min(count - 1, Math.floor((offset - HEADER_SIZE) / segment));
+
+  const encryptSegment = async (index: number): Promise<ArrayBuffer> => {
+    const start = index * segmentSize;
+    const plaintext = await readBlob(blob.slice(start, Math.min(sourceSize, start + segmentSize)));
+    return crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv: segmentIv(baseIv, index) as BufferSource,
+        additionalData: additionalData(header, index, index === count - 1) as BufferSource,
+      },
+      key,
+      plaintext as BufferSource,
+    );
+  };
+
+  const iv = toBase64(baseIv);
+  const headerNames = options.headers === false ? undefined : (options.headers ?? {});
+  const headers: Record<string, string> = {};
+  if (headerNames) {
+    if (keyId != null) headers[headerNames.keyId ?? DEFAULT_KEY_ID_HEADER] = keyId;
+    headers[headerNames.iv ?? DEFAULT_IV_HEADER] = iv;
+  }
+
+  return {
+    algorithm: "AES-GCM",
+    ...(keyId != null && { keyId }),
+    iv,
+    segmentSize,
+    sourceSize,
+    size,
+    headers,
+    toSourceBytes: (wireBytes) => {
+      const sent = Math.max(0, wireBytes - HEADER_SIZE);
+      const full = Math.floor(sent / segment);
+      return Math.min(sourceSize, full * segmentSize + Math.min(sent % segment, segmentSize));
+    },
+    async read(start, end, signal) {
+      start = Math.max(0, start);
+      end = Math.min(size, end);
+      if (end <= start) return new Blob([]);
+      const parts: BlobPart[] = [];
+      // Ciphertext offset of the first byte in `parts`.
+      let offset = 0;
+      if (start < HEADER_SIZE) parts.push(header as BlobPart);
+      if (end > HEADER_SIZE) {
+        const first = segmentAt(Math.max(start, HEADER_SIZE));
+        if (start >= HEADER_SIZE) offset = HEADER_SIZE + first * segment;
+        for (let index = first; index <= segmentAt(end - 1); index++) {
+          if (signal?.aborted) throw new UplnkError({ type: "abort" });
+          parts.push(await encryptSegment(index));
+        }
+      }
+      if (signal?.aborted) throw new UplnkError({ type: "abort" });
+      return new Blob(parts).slice(start - offset, end - offset, "application/octet-stream");
+    },
+  };
+}
+
+/**
+ * Encrypt a file with AES-GCM in fixed-size segments (see the module
+ * comment for the framing). Segments are read and encrypted one at a time;
+ * the ciphertext is collected in a Blob of known size, so it can be sent by
+ * any transport with a Content-Length. multipartUpload() with
+ * EncryptionOptions instead encrypts each part only when it is sent.
+ *
+ * @param file - File, Blob or byte array
+ * @param options - Key (or key provider), segment size, IV and metadata header names
+ * @param encryptOptions - Abort signal
+ *
+ * @example
+ * ```ts
+ * const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+ *   "encrypt",
+ *   "decrypt",
+ * ]);
+ * const encrypted = await encryptFile(file, { key, keyId: "patient-docs-2024" });
+ * await api.createMultipartUpload({ key: file.name, metadata: encrypted.headers });
+ * ```
+ */
+export async function encryptFile(
+  file: Blob | Uint8Array,
+  options: EncryptionOptions,
+  encryptOptions: EncryptFileOptions = {},
+): Promise<EncryptedBody> {
+  const { signal } = encryptOptions;
+  const { read, ...encryptor } = await createEncryptor(file, options);
+  const body = await read(0, encryptor.size, signal);
+  return { ...encryptor, body };
+}
+
+/** An encrypted body for one request: a Blob, or segments encrypted as they are read. */
+export type EncryptedRequestBody = Omit<EncryptedBody, "body"> & { body: Blob | StreamBody };
+
+/**
+ * The ciphertext of an encryptor as a StreamBody: the header, then one
+ * segment at a time, each encrypted when the transport reads it.
+ */
+function encryptedStream(encryptor: Encryptor, signal?: AbortSignal): StreamBody {
+  const { size, segmentSize, read } = encryptor;
+  const segment = segmentSize + TAG_SIZE;
+  return {
+    size,
+    async *[Symbol.asyncIterator]() {
+      yield await readBlob(await read(0, HEADER_SIZE, signal));
+      for (let start = HEADER_SIZE; start < size; start += segment) {
+        yield await readBlob(await read(start, Math.min(size, start + segment), signal));
+      }
+    },
+  };
+}
+
+/**
+ * Resolve the `encrypt` option of a single request: a body from
+ * encryptFile() is passed through; otherwise the file is encrypted segment
+ * by segment as the transport reads it. With `buffer`, e.g. to hash the
+ * ciphertext before sending, it is encrypted into a Blob up front.
+ *
+ * @internal
+ */
+export async function resolveEncryption(
+  encrypt: EncryptionOptions | EncryptedBody,
+  file: UploadBody,
+  options: { signal?: AbortSignal; buffer?: boolean } = {},
+): Promise<EncryptedRequestBody> {
+  const { signal, buffer = false } = options;
+  if ("body" in encrypt) return encrypt;
+  if (!isEncryptable(file)) throw notEncryptable();
+  if (buffer) return encryptFile(file, encrypt, { signal });
+  const encryptor = await createEncryptor(file, encrypt);
+  const { read: _read, ...info } = encryptor;
+  return { ...info, body: encryptedStream(encryptor, signal) };
+}
+
+/**
+ * Resolve the `encrypt` option of a ranged upload (multipart): ranges of a
+ * body from encryptFile() are sliced, all others are encrypted on demand.
+ * When continuing parts encrypted earlier (`previous`), the IV and segment
+ * size default to theirs and must match, or the parts would not form one
+ * ciphertext.
+ *
+ * @internal
+ */
+export async function resolveEncryptor(
+  encrypt: EncryptionOptions | EncryptedBody | Encryptor,
+  file: UploadBody,
+  previous?: EncryptionInfo,
+): Promise<Encryptor> {
+  let encryptor: Encryptor;
+  if ("read" in encrypt) {
+    encryptor = encrypt;
+  } else if ("body" in encrypt) {
+    const { body, ...rest } = encrypt;
+    encryptor = { ...rest, read: async (start, end) => body.slice(start, end) };
+  } else {
+    if (!isEncryptable(file)) throw notEncryptable();
+    encryptor = await createEncryptor(
+      file,
+      previous
+        ? {
+            iv: fromBase64(previous.iv),
+            segmentSize: previous.segmentSize,
+            ...encrypt,
+          }
+        : encrypt,
+    );
+  }
+  if (
+    previous &&
+    (encryptor.iv !== previous.iv || encryptor.segmentSize !== previous.segmentSize)
+  ) {
+    throw new Error(
+      "uplnk: encrypt must use the IV and segment size of the parts already uploaded",
+    );
+  }
+  return encryptor;
+}
+
+function isEncryptable(file: UploadBody): file is Blob | Uint8Array {
+  return file instanceof Blob || ArrayBuffer.isView(file);
+}
+
+function notEncryptable(): TypeError {
+  return new TypeError("uplnk: encrypt needs a File, Blob or Uint8Array file");
+}
+
+/**
+ * The metadata of an encrypted body, as reported in upload results.
+ *
+ * @internal
+ */
+export function encryptionInfo(encrypted: EncryptionInfo): EncryptionInfo {
+  const { algorithm, keyId, iv, segmentSize } = encrypted;
+  return { algorithm, ...(keyId != null && { keyId }), iv, segmentSize };
+}
+
+async function* sourceChunks(
+  source: Blob | ReadableStream<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  if (source instanceof Blob) {
+    yield* blobChunks(source);
+    return;
+  }
+  const reader = source.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function* decryptSegments(
+  source: Blob | ReadableStream<Uint8Array>,
+  key: CryptoKey,
+): AsyncGenerator<Uint8Array> {
+  let pending = new Uint8Array(0);
+  let header: Uint8Array | undefined;
+  let baseIv = new Uint8Array(0);
+  let segment = 0;
+  let index = 0;
+
+  const decrypt = async (bytes: Uint8Array, final: boolean): Promise<Uint8Array> => {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: segmentIv(baseIv, index) as BufferSource,
+          additionalData: additionalData(header as Uint8Array, index, final) as BufferSource,
+        },
+        key,
+        bytes as BufferSource,
+      );
+      index++;
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new Error(`uplnk: segment ${index} failed to decrypt (wrong key or corrupted data)`);
+    }
+  };
+
+  for await (const chunk of sourceChunks(source)) {
+    const joined = new Uint8Array(pending.length + chunk.length);
+    joined.set(pending);
+    joined.set(chunk, pending.length);
+    pending = joined;
+
+    if (!header) {
+      if (pending.length < HEADER_SIZE) continue;
+      header = pending.slice(0, HEADER_SIZE);
+      if (MAGIC.some((byte, i) => header?.[i] !== byte) || header[4] !== VERSION) {
+        throw new Error("uplnk: not an uplnk encrypted stream (version 1)");
+      }
+      segment = new DataView(header.buffer).getUint32(5) + TAG_SIZE;
+      baseIv = header.slice(9, HEADER_SIZE);
+      pending = pending.slice(HEADER_SIZE);
+    }
+    // A full segment is only known not to be the last once more bytes follow it.
+    while (pending.length > segment) {
+      yield await decrypt(pending.subarray(0, segment), false);
+      pending = pending.slice(segment);
+    }
+  }
+
+  if (!header || pending.length < TAG_SIZE) {
+    throw new Error("uplnk: encrypted stream is truncated");
+  }
+  yield await decrypt(pending, true);
+}
+
+/**
+ * Decrypt ciphertext produced by `encrypt` / `encryptFile()`. The stream
+ * errors if the key is wrong or the data was modified, reordered or cut short.
+ *
+ * @param source - Ciphertext as a Blob or a byte stream (e.g. `response.body`)
+ * @param key - The AES-GCM key, with the "decrypt" usage
+ * @returns The plaintext as a byte stream
+ *
+ * @example
+ * ```ts
+ * const response = await fetch(downloadUrl);
+ * const plaintext = await new Response(decryptStream(response.body!, key)).blob();
+ * ```
+ */
+export function decryptStream(
+  source: Blob | ReadableStream<Uint8Array>,
+  key: CryptoKey,
+): ReadableStream<Uint8Array> {
+  const segments = decryptSegments(source, key);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await segments.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await segments.return(undefined);
+    },
+  });
+}
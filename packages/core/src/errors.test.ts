@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { uplnk } from "./index";
+import { UplnkError, redactUrl } from "./errors";
+import { exponentialBackoff } from "./retry-strategies";
+import { createResponder } from "./test-transports";
+
+describe("redactUrl", () => {
+  it("redacts credential-like query parameters", () => {
+    expect(
+      redactUrl(
+        "https://bucket.s3.amazonaws.com/a.png?X-Amz-Credential=AKIA&X-Amz-Signature=abc&v=1",
+      ),
+    ).toBe(
+      "https://bucket.s3.amazonaws.com/a.png?X-Amz-Credential=REDACTED&X-Amz-Signature=REDACTED&v=1",
+    );
+    expect(redactUrl("https://a.blob.core.windows.net/c/f?sv=1&sig=xyz")).toBe(
+      "https://a.blob.core.windows.net/c/f?sv=1&sig=REDACTED",
+    );
+    expect(redactUrl("https://example.com/u?access_token=t")).toBe(
+      "https://example.com/u?access_token=REDACTED",
+    );
+  });
+
+  it("drops the query of relative URLs", () => {
+    expect(redactUrl("/upload?token=abc")).toBe("/upload");
+  });
+});
+
+describe("UplnkError", () => {
+  it("is an Error shaped like the UploadError union", () => {
+    const err = new UplnkError(
+      { type: "http", status: 503, response: "busy" },
+      { url: "https://example.com/u?token=abc", method: "PUT", headers: { "retry-after": "5" } },
+    );
+
+    expect(err).toBeInstanceOf(Error);
+    expect(err.name).toBe("UplnkError");
+    expect(err.message).toBe("uplnk: HTTP 503 (PUT https://example.com/u?token=REDACTED)");
+    expect(err).toMatchObject({
+      type: "http",
+      status: 503,
+      response: "busy",
+      headers: { "retry-after": "5" },
+    });
+    expect(err.toUploadError()).toEqual({ type: "http", status: 503, response: "busy" });
+    expect(new UplnkError({ type: "network" }).status).toBe(0);
+  });
+
+  it("works with existing shouldRetry functions", () => {
+    const { shouldRetry } = exponentialBackoff();
+
+    expect(shouldRetry(new UplnkError({ type: "http", status: 503 }), 0)).toBe(true);
+    expect(shouldRetry(new UplnkError({ type: "http", status: 400 }), 0)).toBe(false);
+    expect(shouldRetry(new UplnkError({ type: "abort" }), 0)).toBe(false);
+  });
+});
+
+describe("uplnk errors", () => {
+  it("rejects with response headers and the redacted URL", async () => {
+    const err = await uplnk({
+      url: "https://example.com/upload?signature=s",
+      file: new Blob(["x"]),
+      transport: createResponder([
+        { status: 429, headers: { "retry-after": "1" }, responseText: "slow down" },
+      ]),
+    }).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(UplnkError);
+    expect(err).toMatchObject({
+      type: "http",
+      status: 429,
+      response: "slow down",
+      headers: { "retry-after": "1" },
+      url: "https://example.com/upload?signature=REDACTED",
+      method: "PUT",
+    });
+  });
+
+  it("records every attempt made by the retry loop", async () => {
+    const err = (await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      retry: { attempts: 3, delayMs: 0, shouldRetry: () => true },
+      transport: createResponder([
+        { type: "network" },
+        { type: "timeout" },
+        { status: 500, headers: {}, responseText: "" },
+      ]),
+    }).catch((e: unknown) => e)) as UplnkError;
+
+    expect(err.type).toBe("http");
+    expect(err.attempts.map((a) => a.error)).toEqual([
+      { type: "network" },
+      { type: "timeout" },
+      { type: "http", status: 500, response: undefined },
+    ]);
+    expect(err.attempts.every((a) => a.durationMs >= 0)).toBe(true);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @uplnk/core/errors — UplnkError, the Error subclass uploads reject with.
+ */
+
+import type { UploadError, TransportMethod, ChecksumMismatch } from "@uplnk/types";
+
+/** A failed attempt made by the uplnk() retry loop. */
+export interface UplnkAttempt {
+  /** Why the attempt failed. */
+  error: UploadError;
+  /** How long the attempt took, in ms. */
+  durationMs: number;
+}
+
+/** Request context attached to an UplnkError. */
+export interface UplnkErrorContext {
+  /** Request URL (query secrets are redacted). */
+  url?: string;
+  /** HTTP method. */
+  method?: TransportMethod;
+  /** Response headers, keyed by lower-cased name. */
+  headers?: Record<string, string>;
+}
+
+const SECRET_PARAM = /sig|token|key|secret|credential|auth|password|policy|^x-amz-|^x-goog-/i;
+
+/**
+ * Replace the values of query parameters that look like credentials
+ * (signatures, tokens, keys, `X-Amz-*` and `X-Goog-*`) with "REDACTED".
+ *
+ * @example
+ * ```ts
+ * redactUrl("https://bucket.s3.amazonaws.com/a.png?X-Amz-Signature=abc&v=1");
+ * // "https://bucket.s3.amazonaws.com/a.png?X-Amz-Signature=REDACTED&v=1"
+ * ```
+ */
+export function redactUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    // Relative or malformed: keep the path, drop the query.
+    return url.split("?")[0];
+  }
+  for (const name of Array.from(new Set(parsed.searchParams.keys()))) {
+    if (SECRET_PARAM.test(name)) parsed.searchParams.set(name, "REDACTED");
+  }
+  return parsed.toString();
+}
+
+function describe(error: UploadError): string {
+  switch (error.type) {
+    case "abort":
+      return "upload aborted";
+    case "timeout":
+      return "upload timed out";
+    case "network":
+      return "network error";
+    case "http":
+      return `HTTP ${error.status}`;
+    case "checksum-mismatch":
+      return error.checksum ? `${error.checksum.algorithm} checksum mismatch` : "checksum mismatch";
+  }
+}
+
+/**
+ * Error thrown by uploads. It carries the same `type`, `status` and
+ * `response` fields as the `UploadError` union, so code that switches on
+ * `err.type` (such as `shouldRetry` functions) keeps working, plus a stack,
+ * the response headers, the redacted URL and the history of attempts.
+ *
+ * `status` is 0 when no HTTP response was received.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await uplnk({ url, file, retry: exponentialBackoff() });
+ * } catch (err) {
+ *   if (err instanceof UplnkError) {
+ *     Sentry.captureException(err, { extra: { url: err.url, attempts: err.attempts } });
+ *   }
+ * }
+ * ```
+ */
+export class UplnkError extends Error {
+  /** Error variant, as in `UploadError`. */
+  readonly type: UploadError["type"];
+  /** HTTP status, or 0 when no response was received. */
+  readonly status: number;
+  /** Response body, if any. */
+  readonly response?: string;
+  /** Local and server checksums, for "checksum-mismatch" errors. */
+  readonly checksum?: ChecksumMismatch;
+  /** Response headers, keyed by lower-cased name. */
+  readonly headers: Record<string, string>;
+  /** Request URL with query secrets redacted. */
+  readonly url?: string;
+  /** HTTP method. */
+  readonly method?: TransportMethod;
+  /** Every attempt made, oldest first, including the one that produced this error. */
+  attempts: UplnkAttempt[];
+
+  constructor(error: UploadError, context: UplnkErrorContext = {}) {
+    const url = context.url != null ? redactUrl(context.url) : undefined;
+    const target = [context.method, url].filter(Boolean).join(" ");
+    super(`uplnk: ${describe(error)}${target ? ` (${target})` : ""}`);
+    this.name = "UplnkError";
+    this.type = error.type;
+    this.status = error.type === "http" ? error.status : 0;
+    if (error.type === "http" && error.response !== undefined) this.response = error.response;
+    if (error.type === "checksum-mismatch") this.checksum = error.checksum;
+    this.headers = context.headers ?? {};
+    this.url = url;
+    this.method = context.method;
+    this.attempts = [];
+  }
+
+  /** The plain `UploadError` for this error. */
+  toUploadError(): UploadError {
+    if (this.type === "http") {
+      return { type: "http", status: this.status, response: this.response };
+    }
+    if (this.type === "checksum-mismatch") {
+      return { type: "checksum-mismatch", checksum: this.checksum };
+    }
+    return { type: this.type };
+  }
+}
+
+/**
+ * Wrap a plain UploadError (e.g. from a transport) in an UplnkError.
+ * UplnkErrors pass through unchanged.
+ *
+ * @internal
+ */
+export function toUplnkError(error: UploadError, context?: UplnkErrorContext): UplnkError {
+  return error instanceof UplnkError ? error : new UplnkError(error, context);
+}
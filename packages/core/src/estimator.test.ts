@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+import { uplnk } from "./index";
+import { createSpeedEstimator, createSpeedMeter } from "./estimator";
+import type { UploadProgress, UploadTransport } from "@uplnk/types";
+
+/** 1000 B/s for 10 s, then 100 B/s for 5 s. */
+function sampleSlowdown(estimator: ReturnType<typeof createSpeedEstimator>): void {
+  for (let t = 0; t <= 10; t++) estimator.sample(t * 1000, t * 1000);
+  for (let t = 1; t <= 5; t++) estimator.sample(10000 + t * 100, 10000 + t * 1000);
+}
+
+describe("createSpeedEstimator", () => {
+  it("needs two samples before reporting a speed", () => {
+    const estimator = createSpeedEstimator();
+    estimator.sample(0, 0);
+    expect(estimator.speed).toBeUndefined();
+    expect(estimator.instantSpeed).toBeUndefined();
+  });
+
+  it("average reports the lifetime average", () => {
+    const estimator = createSpeedEstimator("average");
+    sampleSlowdown(estimator);
+
+    expect(estimator.speed).toBeCloseTo(10500 / 15, 5);
+    expect(estimator.instantSpeed).toBe(100);
+  });
+
+  it("window averages the last N samples", () => {
+    const estimator = createSpeedEstimator({ type: "window", samples: 4 });
+    sampleSlowdown(estimator);
+
+    expect(estimator.speed).toBe(100);
+  });
+
+  it("ewma follows a slowdown within a few half-lives", () => {
+    const estimator = createSpeedEstimator({ type: "ewma", halfLifeMs: 1000 });
+    sampleSlowdown(estimator);
+
+    // Five half-lives after the drop, 1/32 of the old speed is left.
+    expect(estimator.speed).toBeCloseTo(100 + 900 / 32, 5);
+  });
+
+  it("starts over when the byte count goes back", () => {
+    const estimator = createSpeedEstimator("average");
+    estimator.sample(0, 0);
+    estimator.sample(5000, 1000);
+    estimator.sample(0, 2000);
+    estimator.sample(200, 3000);
+
+    expect(estimator.speed).toBe(200);
+  });
+});
+
+describe("createSpeedMeter", () => {
+  it("fills in speed, instantSpeed and eta", () => {
+    const meter = createSpeedMeter({ estimator: "window" });
+    meter.annotate({ loaded: 0, total: 3000 }, 0);
+    const progress = meter.annotate({ loaded: 1000, total: 3000 }, 1000);
+
+    expect(progress).toEqual({
+      loaded: 1000,
+      total: 3000,
+      speed: 1000,
+      instantSpeed: 1000,
+      eta: 2,
+      stalled: false,
+    });
+  });
+
+  it("calls onStall once no bytes moved for stallMs", () => {
+    vi.useFakeTimers();
+    try {
+      const onStall = vi.fn();
+      const meter = createSpeedMeter({ stallMs: 1000 }, onStall);
+      meter.annotate({ loaded: 10, total: 100 });
+
+      vi.advanceTimersByTime(999);
+      expect(onStall).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(onStall).toHaveBeenCalledTimes(1);
+
+      const progress = meter.annotate({ loaded: 10, total: 100 });
+      expect(progress).toMatchObject({ stalled: true, speed: 0, instantSpeed: 0 });
+      expect(progress.eta).toBeUndefined();
+      meter.stop();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("uplnk stall reporting", () => {
+  it("emits a stalled event while the transport is silent", async () => {
+    vi.useFakeTimers();
+    try {
+      let respond: () => void = () => {};
+      const transport: UploadTransport = {
+        name: "fake",
+        send(request) {
+          request.onUploadProgress?.(50, 100);
+          return new Promise((resolve) => {
+            respond = () => resolve({ status: 200, headers: {}, responseText: "" });
+          });
+        },
+      };
+      const events: UploadProgress[] = [];
+
+      const p = uplnk({
+        url: "https://example.com/upload",
+        file: new Blob(["x".repeat(100)]),
+        transport,
+        progress: { throttleMs: 0, emitOnStart: false, emitOnEnd: false, stallMs: 2000 },
+        onProgress: (progress) => events.push({ ...progress }),
+      });
+      await vi.advanceTimersByTimeAsync(2000);
+      respond();
+      await p;
+
+      expect(events.map((e) => [e.loaded, e.stalled])).toEqual([
+        [50, false],
+        [50, true],
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @uplnk/core/estimator — Speed and ETA estimation for progress events.
+ */
+
+import type { EstimatorOptions, ProgressOptions, UploadProgress } from "@uplnk/types";
+
+/** Estimates upload speed from a series of byte counts. */
+export interface SpeedEstimator {
+  /** Record that `loaded` bytes have been sent at time `now` (ms). */
+  sample(loaded: number, now?: number): void;
+  /** Smoothed speed in bytes per second, once it can be computed. */
+  readonly speed: number | undefined;
+  /** Speed over the most recent sample interval, in bytes per second. */
+  readonly instantSpeed: number | undefined;
+  /** Forget all samples, e.g. when a resumed upload starts a new session. */
+  reset(): void;
+}
+
+/** Default half-life of the EWMA estimator (ms). */
+const DEFAULT_HALF_LIFE_MS = 2000;
+/** Default number of samples in the sliding window. */
+const DEFAULT_WINDOW_SAMPLES = 10;
+/** Default time without bytes moving before an upload counts as stalled (ms). */
+export const DEFAULT_STALL_MS = 5000;
+
+interface Sample {
+  loaded: number;
+  time: number;
+}
+
+/**
+ * Create a speed estimator.
+ *
+ * @param options - Algorithm, as a name or with its settings (default: "average")
+ *
+ * @example
+ * ```ts
+ * const estimator = createSpeedEstimator({ type: "window", samples: 20 });
+ * estimator.sample(0, 0);
+ * estimator.sample(1024, 1000);
+ * estimator.speed; // 1024
+ * ```
+ */
+export function createSpeedEstimator(
+  options: EstimatorOptions["type"] | EstimatorOptions = "average",
+): SpeedEstimator {
+  const config: EstimatorOptions = typeof options === "string" ? { type: options } : options;
+  const halfLifeMs = config.type === "ewma" ? (config.halfLifeMs ?? DEFAULT_HALF_LIFE_MS) : 0;
+  const windowSize = Math.max(
+    2,
+    config.type === "window" ? (config.samples ?? DEFAULT_WINDOW_SAMPLES) : 2,
+  );
+
+  let first: Sample | undefined;
+  let last: Sample | undefined;
+  let window: Sample[] = [];
+  let ewma: number | undefined;
+  let instant: number | undefined;
+
+  const reset = (): void => {
+    first = undefined;
+    last = undefined;
+    window = [];
+    ewma = undefined;
+    instant = undefined;
+  };
+
+  return {
+    sample(loaded, now = Date.now()) {
+      if (!first || !last || loaded < last.loaded) {
+        // First sample, or the byte count went back (a retried request): start over.
+        const keep = ewma;
+        reset();
+        ewma = keep;
+        first = last = { loaded, time: now };
+        window.push(first);
+        return;
+      }
+      const elapsed = now - last.time;
+      if (elapsed <= 0) {
+        last.loaded = loaded;
+        return;
+      }
+      instant = ((loaded - last.loaded) / elapsed) * 1000;
+      if (ewma === undefined) {
+        ewma = instant;
+      } else {
+        const weight = 1 - Math.pow(0.5, elapsed / halfLifeMs);
+        ewma += weight * (instant - ewma);
+      }
+      last = { loaded, time: now };
+      window.push(last);
+      if (window.length > windowSize) window.shift();
+    },
+    get speed() {
+      if (!first || !last || last.time <= first.time) return undefined;
+      if (config.type === "ewma") return ewma;
+      const from = config.type === "window" ? window[0] : first;
+      return ((last.loaded - from.loaded) / (last.time - from.time)) * 1000;
+    },
+    get instantSpeed() {
+      return instant;
+    },
+    reset,
+  };
+}
+
+/** Speed estimator plus stall detection, as used by the upload functions. */
+export interface SpeedMeter {
+  /** Record `progress.loaded` and fill in speed, instantSpeed, eta and stalled. */
+  annotate(progress: UploadProgress, now?: number): UploadProgress;
+  /** Forget earlier samples. */
+  reset(): void;
+  /** Cancel the stall timer. */
+  stop(): void;
+}
+
+/**
+ * Create a meter for one upload. When `onStall` is given it is called once
+ * no bytes have moved for `stallMs`, so the caller can emit a stalled event.
+ *
+ * @internal
+ */
+export function createSpeedMeter(options: ProgressOptions = {}, onStall?: () => void): SpeedMeter {
+  const { stallMs = DEFAULT_STALL_MS } = options;
+  const estimator = createSpeedEstimator(options.estimator);
+  let lastLoaded: number | undefined;
+  let lastMove = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const stop = (): void => {
+    if (timer != null) clearTimeout(timer);
+    timer = undefined;
+  };
+
+  return {
+    annotate(progress, now = Date.now()) {
+      const { loaded, total } = progress;
+      estimator.sample(loaded, now);
+      if (lastLoaded === undefined || loaded !== lastLoaded) {
+        lastLoaded = loaded;
+        lastMove = now;
+        stop();
+        const done = total != null && loaded >= total;
+        if (onStall && !done && stallMs > 0) timer = setTimeout(onStall, stallMs);
+      }
+
+      const stalled = stallMs > 0 && now - lastMove >= stallMs;
+      const speed = stalled ? 0 : estimator.speed;
+      if (speed !== undefined) {
+        progress.speed = speed;
+        if (speed > 0 && total != null && loaded < total) {
+          progress.eta = (total - loaded) / speed;
+        }
+      }
+      const instantSpeed = stalled ? 0 : estimator.instantSpeed;
+      if (instantSpeed !== undefined) progress.instantSpeed = instantSpeed;
+      progress.stalled = stalled;
+      return progress;
+    },
+    reset() {
+      estimator.reset();
+      lastLoaded = undefined;
+    },
+    stop,
+  };
+}
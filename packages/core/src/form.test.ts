@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from "vitest";
+import { uplnk } from "./index";
+import { encodeFormBody, s3PresignedPost } from "./form";
+import { readBlob } from "./streams";
+import type { TransportRequest, UploadTransport } from "@uplnk/types";
+
+async function blobText(blob: Blob): Promise<string> {
+  return new TextDecoder().decode(await readBlob(blob));
+}
+
+/** Transport that reports progress at the given fractions of the body. */
+function createFormTransport(fractions: number[]): UploadTransport & {
+  requests: TransportRequest[];
+} {
+  const requests: TransportRequest[] = [];
+  return {
+    name: "fake",
+    requests,
+    async send(request) {
+      requests.push(request);
+      const size = (request.body as Blob).size;
+      for (const fraction of fractions) {
+        request.onUploadProgress?.(Math.round(size * fraction), size);
+      }
+      return { status: 204, headers: {}, responseText: "" };
+    },
+  };
+}
+
+describe("encodeFormBody", () => {
+  it("writes the fields in order and the file last", async () => {
+    const file = new File(["hello"], "a.txt", { type: "text/plain" });
+    const { body, contentType, fileOffset, fileSize } = encodeFormBody(file, {
+      type: "form",
+      fields: [
+        ["key", "uploads/a.txt"],
+        ["policy", "abc"],
+      ],
+    });
+
+    const boundary = contentType.replace("multipart/form-data; boundary=", "");
+    const text = await blobText(body);
+    expect(text).toBe(
+      `--${boundary}\r\nContent-Disposition: form-data; name="key"\r\n\r\nuploads/a.txt\r\n` +
+        `--${boundary}\r\nContent-Disposition: form-data; name="policy"\r\n\r\nabc\r\n` +
+        `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="a.txt"\r\n` +
+        `Content-Type: text/plain\r\n\r\nhello\r\n--${boundary}--\r\n`,
+    );
+    expect(text.slice(fileOffset, fileOffset + fileSize)).toBe("hello");
+  });
+
+  it("uses the field name and file name options", async () => {
+    const { body } = encodeFormBody(new Uint8Array([104, 105]), {
+      type: "form",
+      fieldName: "upload[file]",
+      fileName: 'say "hi".bin',
+    });
+
+    const text = await blobText(body);
+    expect(text).toContain('name="upload[file]"; filename="say %22hi%22.bin"');
+    expect(text).toContain("Content-Type: application/octet-stream\r\n\r\nhi\r\n");
+  });
+
+  it("rejects bodies that are not in memory", () => {
+    expect(() => encodeFormBody("./file.bin", { type: "form" })).toThrow(TypeError);
+  });
+});
+
+describe("uplnk with a form body", () => {
+  it("POSTs the encoded body with its content type", async () => {
+    const transport = createFormTransport([]);
+
+    await uplnk({
+      url: "https://example.com/upload",
+      file: new File(["hello"], "a.txt"),
+      headers: { "content-type": "application/octet-stream", "X-Token": "t" },
+      body: { type: "form", fields: { id: "1" } },
+      transport,
+    });
+
+    const [request] = transport.requests;
+    expect(request.method).toBe("POST");
+    expect(request.headers).toEqual({
+      "X-Token": "t",
+      "Content-Type": expect.stringMatching(/^multipart\/form-data; boundary=/),
+    });
+    expect(await blobText(request.body as Blob)).toContain('name="id"\r\n\r\n1\r\n');
+  });
+
+  it("reports progress in file bytes", async () => {
+    const onProgress = vi.fn();
+
+    await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x".repeat(1000)]),
+      body: { type: "form", fields: { policy: "p".repeat(500) } },
+      transport: createFormTransport([0.2, 0.5, 1]),
+      progress: { throttleMs: 0, emitOnStart: false },
+      onProgress,
+    });
+
+    const calls = onProgress.mock.calls.map(([p]) => [p.loaded, p.total]);
+    expect(calls[0][0]).toBe(0);
+    expect(calls[1][0]).toBeGreaterThan(0);
+    expect(calls[1][0]).toBeLessThan(1000);
+    expect(calls.slice(2)).toEqual([
+      [1000, 1000],
+      [1000, 1000],
+    ]);
+    expect(calls.every(([, total]) => total === 1000)).toBe(true);
+  });
+});
+
+describe("s3PresignedPost", () => {
+  it("maps a presigned post to uplnk options", () => {
+    const post = {
+      url: "https://bucket.s3.amazonaws.com/",
+      fields: { key: "uploads/a.txt", Policy: "p", "X-Amz-Signature": "s" },
+    };
+
+    expect(s3PresignedPost(post, { fieldName: "file" })).toEqual({
+      url: "https://bucket.s3.amazonaws.com/",
+      method: "POST",
+      body: { type: "form", fieldName: "file", fields: post.fields },
+    });
+  });
+});
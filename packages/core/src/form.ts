@@ -0,0 +1,113 @@
+/**
+ * @uplnk/core/form — multipart/form-data bodies and S3 presigned POST.
+ */
+
+import type { FormBodyOptions, UplnkOptions, UploadBody } from "@uplnk/types";
+
+/** The `{ url, fields }` object returned by S3 `createPresignedPost`. */
+export interface PresignedPost {
+  /** Bucket URL to POST to. */
+  url: string;
+  /** Policy, signature and key fields, sent before the file. */
+  fields: Record<string, string>;
+}
+
+/** A file encoded as a multipart/form-data body. */
+export interface EncodedFormBody {
+  /** The complete request body. */
+  body: Blob;
+  /** `multipart/form-data` with the boundary. */
+  contentType: string;
+  /** Offset of the file bytes within the body. */
+  fileOffset: number;
+  /** Size of the file bytes. */
+  fileSize: number;
+}
+
+const CRLF = "\r\n";
+
+function createBoundary(): string {
+  const bytes = new Uint8Array(12);
+  if (typeof crypto !== "undefined" && typeof crypto.getRandomValues === "function") {
+    crypto.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return `----uplnkFormBoundary${hex}`;
+}
+
+/** Escape a name or filename the way browsers do in Content-Disposition. */
+function escapeQuoted(value: string): string {
+  return value.replace(/\r/g, "%0D").replace(/\n/g, "%0A").replace(/"/g, "%22");
+}
+
+/**
+ * Build a multipart/form-data body with the fields first and the file last.
+ * The body is a Blob of known size, so every transport reports exact progress.
+ *
+ * @internal
+ */
+export function encodeFormBody(file: UploadBody, options: FormBodyOptions): EncodedFormBody {
+  let blob: Blob;
+  if (file instanceof Blob) {
+    blob = file;
+  } else if (file instanceof Uint8Array) {
+    blob = new Blob([file as BlobPart]);
+  } else {
+    throw new TypeError("uplnk: form bodies need a File, Blob or Uint8Array file");
+  }
+
+  const { fieldName = "file", fields = {} } = options;
+  const fileName = options.fileName ?? (blob instanceof File ? blob.name : "blob");
+  const boundary = createBoundary();
+  const entries = Array.isArray(fields) ? fields : Object.entries(fields);
+
+  let head = "";
+  for (const [name, value] of entries) {
+    head += `--${boundary}${CRLF}`;
+    head += `Content-Disposition: form-data; name="${escapeQuoted(name)}"${CRLF}${CRLF}`;
+    head += `${value}${CRLF}`;
+  }
+  head += `--${boundary}${CRLF}`;
+  head += `Content-Disposition: form-data; name="${escapeQuoted(fieldName)}"; filename="${escapeQuoted(fileName)}"${CRLF}`;
+  head += `Content-Type: ${blob.type || "application/octet-stream"}${CRLF}${CRLF}`;
+  const tail = `${CRLF}--${boundary}--${CRLF}`;
+
+  const headBytes = new TextEncoder().encode(head);
+  return {
+    body: new Blob([headBytes as BlobPart, blob, tail]),
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    fileOffset: headBytes.byteLength,
+    fileSize: blob.size,
+  };
+}
+
+/**
+ * Turn the result of S3 `createPresignedPost` into uplnk() options: a POST
+ * to the bucket URL with the policy fields first and the file last.
+ *
+ * @param post - `{ url, fields }` from createPresignedPost
+ * @param options - Form options, e.g. a different file field name
+ *
+ * @example
+ * ```ts
+ * const post = await api.createPresignedPost(file.name);
+ *
+ * await uplnk({
+ *   ...s3PresignedPost(post),
+ *   file,
+ *   onProgress: (p) => console.log(`${p.percent?.toFixed(1)}%`),
+ * });
+ * ```
+ */
+export function s3PresignedPost(
+  post: PresignedPost,
+  options: Omit<FormBodyOptions, "type" | "fields"> = {},
+): Pick<UplnkOptions, "url" | "method" | "body"> {
+  return {
+    url: post.url,
+    method: "POST",
+    body: { type: "form", ...options, fields: post.fields },
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { formatBytes, formatSpeed, formatDuration } from "./format";
+
+describe("formatBytes", () => {
+  it("uses IEC binary prefixes", () => {
+    expect(formatBytes(0, { units: "iec" })).toBe("0 B");
+    expect(formatBytes(1536, { units: "iec" })).toBe("1.5 KiB");
+    expect(formatBytes(10 * 1024 ** 3, { units: "iec" })).toBe("10 GiB");
+  });
+
+  it("uses SI decimal prefixes", () => {
+    expect(formatBytes(999, { units: "si" })).toBe("999 B");
+    expect(formatBytes(1500, { units: "si" })).toBe("1.5 kB");
+    expect(formatBytes(2_345_678, { units: "si", decimals: 1 })).toBe("2.3 MB");
+  });
+
+  it("formats numbers for a locale", () => {
+    expect(formatBytes(1_500_000, { units: "si", locale: "de-DE" })).toBe("1,5 MB");
+    expect(formatBytes(1023.5, { locale: "en-US", decimals: 1 })).toBe("1,023.5 Bytes");
+  });
+
+  it("stays within the largest unit and below the smallest", () => {
+    expect(formatBytes(2 * 1024 ** 6, { units: "iec" })).toBe("2048 PiB");
+    expect(formatBytes(0.5)).toBe("0.5 Bytes");
+  });
+});
+
+describe("formatSpeed", () => {
+  it("appends per second", () => {
+    expect(formatSpeed(1_500_000, { units: "si" })).toBe("1.5 MB/s");
+    expect(formatSpeed(512)).toBe("512 Bytes/s");
+  });
+});
+
+describe("formatDuration", () => {
+  it("shows the two largest units", () => {
+    expect(formatDuration(0)).toBe("0s");
+    expect(formatDuration(42.4)).toBe("42s");
+    expect(formatDuration(125)).toBe("2m 5s");
+    expect(formatDuration(3725)).toBe("1h 2m");
+    expect(formatDuration(3605)).toBe("1h");
+  });
+
+  it("formats as a clock", () => {
+    expect(formatDuration(65, { style: "clock" })).toBe("1:05");
+    expect(formatDuration(3725, { style: "clock" })).toBe("1:02:05");
+  });
+
+  it("spells out units, localized with a locale", () => {
+    expect(formatDuration(61, { style: "long" })).toBe("1 minute 1 second");
+    expect(formatDuration(7320, { style: "long" })).toBe("2 hours 2 minutes");
+    expect(formatDuration(3725, { style: "long", locale: "de" })).toBe("1 Stunde 2 Minuten");
+  });
+
+  it("returns an empty string when the duration is unknown", () => {
+    expect(formatDuration(Infinity)).toBe("");
+    expect(formatDuration(NaN, { style: "clock" })).toBe("");
+  });
+});
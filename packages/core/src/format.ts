@@ -0,0 +1,148 @@
+/**
+ * @uplnk/core/format — Human-readable sizes, speeds and durations.
+ */
+
+/**
+ * Unit system for byte sizes:
+ * - "legacy": powers of 1024 labelled Bytes, KB, MB… (the historical default)
+ * - "iec": powers of 1024 labelled B, KiB, MiB…
+ * - "si": powers of 1000 labelled B, kB, MB…
+ */
+export type ByteUnits = "legacy" | "iec" | "si";
+
+/** Options for formatBytes() and formatSpeed(). */
+export interface FormatBytesOptions {
+  /** Maximum number of decimal places. Default: 2. */
+  decimals?: number;
+  /** Unit system. Default: "legacy". */
+  units?: ByteUnits;
+  /** Format the number with `Intl.NumberFormat` for this locale (e.g. "de-DE"). */
+  locale?: string | string[];
+}
+
+/** Options for formatDuration(). */
+export interface FormatDurationOptions {
+  /**
+   * - "short": the two largest units, e.g. "1h 5m" or "42s" (default)
+   * - "long": unit names spelled out, e.g. "1 hour 5 minutes"
+   * - "clock": "1:05:00" or "4:02"
+   */
+  style?: "short" | "long" | "clock";
+  /** Format numbers and unit names with `Intl.NumberFormat` for this locale. */
+  locale?: string | string[];
+}
+
+const UNITS: Record<ByteUnits, { base: number; labels: string[] }> = {
+  legacy: { base: 1024, labels: ["Bytes", "KB", "MB", "GB", "TB", "PB"] },
+  iec: { base: 1024, labels: ["B", "KiB", "MiB", "GiB", "TiB", "PiB"] },
+  si: { base: 1000, labels: ["B", "kB", "MB", "GB", "TB", "PB"] },
+};
+
+function formatNumber(value: number, decimals: number, locale?: string | string[]): string {
+  if (locale === undefined) return `${parseFloat(value.toFixed(decimals))}`;
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: decimals }).format(value);
+}
+
+/**
+ * Format bytes into human-readable size.
+ *
+ * @param bytes - Number of bytes
+ * @param options - Decimal places (default: 2), or options with the unit system and locale
+ * @returns Formatted string (e.g., "1.5 KB")
+ *
+ * @example
+ * ```ts
+ * formatBytes(1536); // "1.5 KB"
+ * formatBytes(1048576); // "1 MB"
+ * formatBytes(1536, { units: "iec" }); // "1.5 KiB"
+ * formatBytes(1_500_000, { units: "si", locale: "de-DE" }); // "1,5 MB"
+ * ```
+ */
+export function formatBytes(bytes: number, options: number | FormatBytesOptions = {}): string {
+  const {
+    decimals = 2,
+    units = "legacy",
+    locale,
+  } = typeof options === "number" ? { decimals: options } : options;
+  const { base, labels } = UNITS[units];
+  if (bytes === 0) return `${formatNumber(0, 0, locale)} ${labels[0]}`;
+
+  const dm = decimals < 0 ? 0 : decimals;
+  const i = Math.max(
+    0,
+    Math.min(labels.length - 1, Math.floor(Math.log(Math.abs(bytes)) / Math.log(base))),
+  );
+
+  return `${formatNumber(bytes / Math.pow(base, i), dm, locale)} ${labels[i]}`;
+}
+
+/**
+ * Format a transfer rate, e.g. `UploadProgress.speed`.
+ *
+ * @param bytesPerSecond - Speed in bytes per second
+ * @param options - Same options as formatBytes()
+ * @returns Formatted string (e.g., "1.5 MB/s")
+ *
+ * @example
+ * ```ts
+ * onProgress: (p) => (label.textContent = p.speed ? formatSpeed(p.speed, { units: "si" }) : "")
+ * ```
+ */
+export function formatSpeed(
+  bytesPerSecond: number,
+  options: number | FormatBytesOptions = {},
+): string {
+  return `${formatBytes(bytesPerSecond, options)}/s`;
+}
+
+const DURATION_UNITS = [
+  { unit: "hour", short: "h" },
+  { unit: "minute", short: "m" },
+  { unit: "second", short: "s" },
+] as const;
+
+/**
+ * Format a duration in seconds, e.g. `UploadProgress.eta`.
+ *
+ * @param seconds - Duration in seconds; rounded to whole seconds
+ * @param options - Style and locale
+ * @returns Formatted string (e.g., "2m 5s"), or "" for a value that is not finite
+ *
+ * @example
+ * ```ts
+ * formatDuration(125); // "2m 5s"
+ * formatDuration(3725, { style: "clock" }); // "1:02:05"
+ * formatDuration(3725, { style: "long", locale: "en" }); // "1 hour 2 minutes"
+ * ```
+ */
+export function formatDuration(seconds: number, options: FormatDurationOptions = {}): string {
+  if (!Number.isFinite(seconds)) return "";
+  const { style = "short", locale } = options;
+  const total = Math.max(0, Math.round(seconds));
+  const parts = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60];
+
+  if (style === "clock") {
+    const [h, m, s] = parts;
+    const pad = (n: number): string => `${n}`.padStart(2, "0");
+    return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+  }
+
+  // The two largest non-zero units; a zero duration is "0s".
+  const first = total === 0 ? 2 : parts.findIndex((n) => n > 0);
+  const shown = DURATION_UNITS.map((unit, i) => ({ ...unit, value: parts[i] }))
+    .slice(first, first + 2)
+    .filter((unit, i) => i === 0 || unit.value > 0);
+
+  return shown
+    .map(({ unit, short, value }) => {
+      if (locale === undefined) {
+        return style === "long" ? `${value} ${unit}${value === 1 ? "" : "s"}` : `${value}${short}`;
+      }
+      return new Intl.NumberFormat(locale, {
+        style: "unit",
+        unit,
+        unitDisplay: style === "long" ? "long" : "narrow",
+      }).format(value);
+    })
+    .join(" ");
+}
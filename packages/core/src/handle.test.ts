@@ -0,0 +1,323 @@
+import { describe, it, expect } from "vitest";
+import { startUpload } from "./index";
+import { fixedDelay } from "./retry-strategies";
+import { createGatedTransport, tick } from "./test-transports";
+import type {
+  TransportRequest,
+  TransportResponse,
+  UploadTransport,
+  UploadProgress,
+} from "@uplnk/types";
+import type { UploadState } from "./handle";
+
+const ok: TransportResponse = { status: 200, headers: {}, responseText: "" };
+
+function recordStates(handle: {
+  on(event: "statechange", listener: (e: { state: UploadState }) => void): () => void;
+}): UploadState[] {
+  const states: UploadState[] = [];
+  handle.on("statechange", ({ state }) => states.push(state));
+  return states;
+}
+
+describe("startUpload", () => {
+  it("is awaitable and reports state, progress and completion", async () => {
+    const transport: UploadTransport = {
+      name: "fake",
+      async send(request) {
+        request.onUploadProgress?.(1, 2);
+        return { status: 201, headers: {}, responseText: "created" };
+      },
+    };
+    const handle = startUpload({ url: "https://example.com/u", file: new Blob(["xy"]), transport });
+    expect(handle.state).toBe("idle");
+    const states = recordStates(handle);
+    const progress: UploadProgress[] = [];
+    const completed: unknown[] = [];
+    handle.on("progress", (p) => progress.push(p));
+    handle.on("complete", (result) => completed.push(result.body));
+
+    const result = await handle;
+
+    expect(result).toMatchObject({ status: 201, body: "created" });
+    expect(states).toEqual(["uploading", "done"]);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(completed).toEqual(["created"]);
+  });
+
+  it("aborts a single request on pause and sends it again on resume", async () => {
+    const transport = createGatedTransport();
+    const handle = startUpload({ url: "https://example.com/u", file: new Blob(["x"]), transport });
+    const states = recordStates(handle);
+    await tick();
+    expect(transport.requests).toHaveLength(1);
+
+    handle.pause();
+    await tick();
+    expect(handle.state).toBe("paused");
+    expect(transport.requests[0].signal?.aborted).toBe(true);
+
+    handle.resume();
+    await tick();
+    expect(transport.requests).toHaveLength(2);
+    transport.release("https://example.com/u");
+
+    await expect(handle.promise).resolves.toMatchObject({ status: 200 });
+    expect(states).toEqual(["uploading", "paused", "uploading", "done"]);
+  });
+
+  it("sends a single request again when paused and resumed in one tick", async () => {
+    const transport = createGatedTransport();
+    const handle = startUpload({ url: "https://example.com/u", file: new Blob(["x"]), transport });
+    const errors: unknown[] = [];
+    handle.on("error", (e) => errors.push(e));
+    await tick();
+
+    handle.pause();
+    handle.resume();
+    await tick();
+    expect(transport.requests).toHaveLength(2);
+    transport.release("https://example.com/u");
+
+    await expect(handle.promise).resolves.toMatchObject({ status: 200 });
+    expect(errors).toEqual([]);
+  });
+
+  it("reports retries", async () => {
+    const responses = [{ status: 503, headers: {}, responseText: "" }, ok];
+    const transport: UploadTransport = {
+      name: "fake",
+      async send(request) {
+        request.onUploadProgress?.(0, 1);
+        return responses.shift() ?? ok;
+      },
+    };
+    const handle = startUpload({
+      url: "https://example.com/u",
+      file: new Blob(["x"]),
+      transport,
+      retry: fixedDelay({ delayMs: 0, maxAttempts: 2 }),
+    });
+    const states = recordStates(handle);
+    const retries: unknown[] = [];
+    handle.on("retry", (e) => retries.push(e));
+
+    await handle;
+
+    expect(retries).toEqual([
+      { attempt: 0, error: expect.objectContaining({ status: 503 }), delayMs: 0 },
+    ]);
+    expect(states).toEqual(["uploading", "retrying", "uploading", "done"]);
+  });
+
+  it("cancels with an abort error and no error event", async () => {
+    const transport = createGatedTransport();
+    const controller = new AbortController();
+    const handle = startUpload({
+      url: "https://example.com/u",
+      file: new Blob(["x"]),
+      transport,
+      signal: controller.signal,
+    });
+    const errors: unknown[] = [];
+    handle.on("error", (e) => errors.push(e));
+    await tick();
+
+    handle.pause();
+    controller.abort();
+
+    await expect(handle).rejects.toMatchObject({ name: "UplnkError", type: "abort" });
+    expect(handle.state).toBe("cancelled");
+    expect(errors).toEqual([]);
+  });
+
+  it("emits error and ends failed", async () => {
+    const transport: UploadTransport = {
+      name: "fake",
+      send: async () => ({ status: 500, headers: {}, responseText: "" }),
+    };
+    const handle = startUpload({ url: "https://example.com/u", file: new Blob(["x"]), transport });
+    const errors: unknown[] = [];
+    handle.on("error", (e) => errors.push(e));
+
+    await expect(handle).rejects.toMatchObject({ status: 500 });
+    expect(handle.state).toBe("failed");
+    expect(errors).toHaveLength(1);
+  });
+
+  it("pauses tus uploads at chunk boundaries", async () => {
+    const patches: number[] = [];
+    const control: { pause?: () => void } = {};
+    let offset = 0;
+    const transport: UploadTransport = {
+      name: "fake-tus",
+      async send(request): Promise<TransportResponse> {
+        if (request.method === "POST") {
+          return { status: 201, headers: { location: "/files/1" }, responseText: "" };
+        }
+        const size = (request.body as Blob).size;
+        patches.push(offset);
+        // Pausing mid-chunk lets the chunk in flight finish.
+        if (patches.length === 1) control.pause?.();
+        request.onUploadProgress?.(size, size);
+        offset += size;
+        return { status: 204, headers: { "upload-offset": String(offset) }, responseText: "" };
+      },
+    };
+
+    const tus = startUpload({
+      protocol: "tus",
+      endpoint: "https://tus.example.com/files/",
+      file: new Blob(["abcdef"]),
+      chunkSize: 2,
+      transport,
+    });
+    control.pause = () => tus.pause();
+    const states = recordStates(tus);
+    await tick();
+    await tick();
+    expect(tus.state).toBe("paused");
+    expect(patches).toEqual([0]);
+
+    tus.resume();
+    await expect(tus).resolves.toEqual({ uploadUrl: "https://tus.example.com/files/1" });
+    expect(patches).toEqual([0, 2, 4]);
+    expect(states).toEqual(["uploading", "paused", "uploading", "done"]);
+  });
+  it("aborts an unchunked tus PATCH on pause and resumes from the server offset", async () => {
+    const requests: TransportRequest[] = [];
+    let offset = 0;
+    const transport: UploadTransport = {
+      name: "fake-tus",
+      send(request): Promise<TransportResponse> {
+        requests.push(request);
+        const headers = { "upload-offset": String(offset) };
+        if (request.method === "POST") {
+          return Promise.resolve({
+            status: 201,
+            headers: { location: "/files/1" },
+            responseText: "",
+          });
+        }
+        if (request.method !== "PATCH") {
+          return Promise.resolve({
+            status: request.method === "HEAD" ? 200 : 204,
+            headers,
+            responseText: "",
+          });
+        }
+        if (requests.filter((r) => r.method === "PATCH").length > 1) {
+          offset += (request.body as Blob).size;
+          return Promise.resolve({
+            status: 204,
+            headers: { "upload-offset": String(offset) },
+            responseText: "",
+          });
+        }
+        // The first PATCH stores 2 bytes, then hangs until aborted.
+        offset = 2;
+        return new Promise((_, reject) => {
+          request.signal.addEventListener("abort", () => reject({ type: "abort" }));
+        });
+      },
+    };
+
+    const tus = startUpload({
+      protocol: "tus",
+      endpoint: "https://tus.example.com/files/",
+      file: new Blob(["abcdef"]),
+      transport,
+    });
+    await tick();
+    tus.pause();
+    await tick();
+    expect(tus.state).toBe("paused");
+    expect(requests.map((r) => r.method)).toEqual(["POST", "PATCH"]);
+
+    tus.resume();
+    await expect(tus).resolves.toEqual({ uploadUrl: "https://tus.example.com/files/1" });
+    expect(requests.map((r) => r.method)).toEqual(["POST", "PATCH", "HEAD", "PATCH"]);
+    expect(requests[3].headers["Upload-Offset"]).toBe("2");
+  });
+
+  it("terminates a paused unchunked tus upload on cancel", async () => {
+    const transport = createGatedTransport();
+    const tus = startUpload({
+      protocol: "tus",
+      endpoint: "https://tus.example.com/files/",
+      file: new Blob(["abcdef"]),
+      transport,
+    });
+    await tick();
+    transport.release("https://tus.example.com/files/", {
+      status: 201,
+      headers: { location: "/files/1" },
+      responseText: "",
+    });
+    await tick();
+    tus.pause();
+    await tick();
+    tus.cancel();
+    await tick();
+    expect(transport.requests.map((r) => r.method)).toEqual(["POST", "PATCH", "DELETE"]);
+    transport.release("https://tus.example.com/files/1", {
+      status: 204,
+      headers: {},
+      responseText: "",
+    });
+
+    await expect(tus).rejects.toMatchObject({ type: "abort" });
+  });
+
+  it("resyncs an unchunked tus upload paused and resumed in one tick", async () => {
+    const transport = createGatedTransport();
+    const uploadUrl = "https://tus.example.com/files/1";
+    const tus = startUpload({
+      protocol: "tus",
+      endpoint: "https://tus.example.com/files/",
+      file: new Blob(["abcdef"]),
+      transport,
+    });
+    await tick();
+    transport.release("https://tus.example.com/files/", {
+      status: 201,
+      headers: { location: "/files/1" },
+      responseText: "",
+    });
+    await tick();
+    tus.pause();
+    tus.resume();
+    await tick();
+    transport.release(uploadUrl, {
+      status: 200,
+      headers: { "upload-offset": "0" },
+      responseText: "",
+    });
+    await tick();
+    transport.release(uploadUrl, {
+      status: 204,
+      headers: { "upload-offset": "6" },
+      responseText: "",
+    });
+
+    await expect(tus).resolves.toEqual({ uploadUrl });
+    expect(transport.requests.map((r) => r.method)).toEqual(["POST", "PATCH", "HEAD", "PATCH"]);
+  });
+
+  it("cancels during a retry delay without waiting it out", async () => {
+    const transport: UploadTransport = {
+      name: "fake",
+      send: async () => ({ status: 503, headers: {}, responseText: "" }),
+    };
+    const handle = startUpload({
+      url: "https://example.com/u",
+      file: new Blob(["x"]),
+      transport,
+      retry: fixedDelay({ delayMs: 60_000, maxAttempts: 2 }),
+    });
+    handle.on("retry", () => handle.cancel());
+
+    await expect(handle).rejects.toMatchObject({ type: "abort" });
+    expect(handle.state).toBe("cancelled");
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * @uplnk/core/handle — Controllable uploads with pause, resume, cancel and events.
+ */
+
+import { uplnk } from "./index";
+import { tusUpload, terminateTusUpload } from "./tus";
+import { multipartUpload } from "./multipart";
+import { UplnkError } from "./errors";
+import type { TusUploadOptions, TusUploadResult } from "./tus";
+import type { MultipartUploadOptions, MultipartUploadResult } from "./multipart";
+import type { RetryEvent, UplnkOptions, UploadProgress, UploadResult } from "@uplnk/types";
+
+/** Lifecycle of an upload started with startUpload(). */
+export type UploadState =
+  | "idle"
+  | "uploading"
+  | "paused"
+  | "retrying"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+/** Events of an UploadHandle and their payloads. */
+export interface UploadHandleEvents<R> {
+  progress: UploadProgress;
+  retry: RetryEvent;
+  statechange: { state: UploadState; previous: UploadState };
+  complete: R;
+  /** The upload failed (not emitted on cancel()). */
+  error: UplnkError | Error;
+}
+
+/** Options for startUpload(): a single request, or a chunked protocol. */
+export type StartUploadOptions =
+  | UplnkOptions
+  | (TusUploadOptions & { protocol: "tus" })
+  | (MultipartUploadOptions & { protocol: "multipart" });
+
+/**
+ * A running upload. Await it (or its `promise`) for the result; control it
+ * with pause(), resume() and cancel(); observe it with on().
+ */
+export interface UploadHandle<R> extends PromiseLike<R> {
+  /** Current state. */
+  readonly state: UploadState;
+  /** Settles like the upload; cancel() rejects it with an "abort" UplnkError. */
+  readonly promise: Promise<R>;
+  /**
+   * Pause. Chunked protocols finish the chunk in flight and wait before the
+   * next one; single requests are aborted and start over on resume(), and
+   * unchunked tus uploads are aborted and continue from the server's offset.
+   */
+  pause(): void;
+  /** Resume a paused upload. */
+  resume(): void;
+  /** Cancel the upload; a chunked upload is terminated on the server as on abort. */
+  cancel(): void;
+  /**
+   * Subscribe to an event.
+   *
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof UploadHandleEvents<R>>(
+    event: K,
+    listener: (payload: UploadHandleEvents<R>[K]) => void,
+  ): () => void;
+  catch<E = never>(onRejected?: (reason: unknown) => E | PromiseLike<E>): Promise<R | E>;
+  finally(onFinally?: () => void): Promise<R>;
+}
+
+type Listener = (payload: never) => void;
+
+/** Call the caller's own callback, then ours. */
+const chain =
+  <A>(theirs: ((arg: A) => void) | undefined, ours: (arg: A) => void) =>
+  (arg: A): void => {
+    theirs?.(arg);
+    ours(arg);
+  };
+
+/**
+ * Start an upload and return a handle to control it. Pass `protocol: "tus"`
+ * or `protocol: "multipart"` with the options of tusUpload() or
+ * multipartUpload() for a chunked upload; anything else is sent with uplnk().
+ * The upload starts in a microtask, so listeners added right away see every event.
+ *
+ * @param options - Upload options
+ * @returns Awaitable handle
+ *
+ * @example
+ * ```ts
+ * const upload = startUpload({ protocol: "tus", endpoint, file, chunkSize: 5 * 1024 * 1024 });
+ *
+ * upload.on("progress", (p) => (bar.value = p.percent ?? 0));
+ * upload.on("statechange", ({ state }) => (label.textContent = state));
+ * pauseButton.onclick = () => (upload.state === "paused" ? upload.resume() : upload.pause());
+ * cancelButton.onclick = () => upload.cancel();
+ *
+ * const { uploadUrl } = await upload;
+ * ```
+ */
+export function startUpload<T = unknown>(options: UplnkOptions): UploadHandle<UploadResult<T>>;
+export function startUpload(
+  options: TusUploadOptions & { protocol: "tus" },
+): UploadHandle<TusUploadResult>;
+export function startUpload(
+  options: MultipartUploadOptions & { protocol: "multipart" },
+): UploadHandle<MultipartUploadResult>;
+export function startUpload(options: StartUploadOptions): UploadHandle<unknown> {
+  const listeners = new Map<string, Set<Listener>>();
+  // Aborted by cancel(); a single request also gets a controller per run, aborted by pause().
+  // `paused` marks a run pause() aborted, which may have been resumed before it rejected.
+  const cancelController = new AbortController();
+  let run: { controller: AbortController; paused: boolean } | undefined;
+  let state: UploadState = "idle";
+  let resumed: { promise: Promise<void>; resolve: () => void } | undefined;
+
+  const emit = <K extends keyof UploadHandleEvents<unknown>>(
+    event: K,
+    payload: UploadHandleEvents<unknown>[K],
+  ): void => {
+    for (const listener of [...(listeners.get(event) ?? [])]) {
+      (listener as (payload: UploadHandleEvents<unknown>[K]) => void)(payload);
+    }
+  };
+
+  const setState = (next: UploadState): void => {
+    if (next === state) return;
+    const previous = state;
+    state = next;
+    emit("statechange", { state, previous });
+  };
+
+  const isSettled = (): boolean => state === "done" || state === "failed" || state === "cancelled";
+
+  /** Resolves at once unless paused; then on resume() or cancel(). */
+  const whilePaused = async (): Promise<void> => {
+    if (resumed) await resumed.promise;
+    if (state === "cancelled") throw new UplnkError({ type: "abort" });
+  };
+
+  const onProgress = (progress: UploadProgress): void => {
+    if (state === "retrying") setState("uploading");
+    emit("progress", progress);
+  };
+  const onRetry = (event: RetryEvent): void => {
+    if (state === "uploading") setState("retrying");
+    emit("retry", event);
+  };
+
+  const userSignal = options.signal;
+  const onUserAbort = (): void => handle.cancel();
+  userSignal?.addEventListener("abort", onUserAbort);
+
+  const upload = async (): Promise<unknown> => {
+    await Promise.resolve();
+    if (userSignal?.aborted) handle.cancel();
+    await whilePaused();
+    setState("uploading");
+
+    if ("protocol" in options && options.protocol === "tus") {
+      const { beforeChunk, chunkSize = Infinity, terminateOnAbort = true } = options;
+      // A single PATCH carries the whole file, so pause() aborts it and
+      // resume() continues from the offset the server reports.
+      const unchunked = !Number.isFinite(chunkSize);
+      let uploadUrl = options.uploadUrl;
+      for (;;) {
+        const current = { controller: new AbortController(), paused: false };
+        if (unchunked) run = current;
+        try {
+          return await tusUpload({
+            ...options,
+            uploadUrl,
+            signal: unchunked ? current.controller.signal : cancelController.signal,
+            terminateOnAbort: !unchunked && terminateOnAbort,
+            onUploadUrl: chain(options.onUploadUrl, (url) => (uploadUrl = url)),
+            onProgress: chain(options.onProgress, onProgress),
+            onRetry: chain(options.onRetry, onRetry),
+            beforeChunk: async (offset) => {
+              await beforeChunk?.(offset);
+              await whilePaused();
+            },
+          });
+        } catch (err) {
+          if (!(unchunked && current.controller.signal.aborted)) throw err;
+          try {
+            if (!current.paused) throw err;
+            await whilePaused();
+            setState("uploading");
+          } catch (abort) {
+            // Cancelled, now or while paused: terminate as tusUpload() would have.
+            if (terminateOnAbort && uploadUrl != null) {
+              await terminateTusUpload(uploadUrl, options);
+            }
+            throw abort;
+          }
+        } finally {
+          run = undefined;
+        }
+      }
+    }
+    if ("protocol" in options && options.protocol === "multipart") {
+      const { beforePart } = options;
+      return multipartUpload({
+        ...options,
+        signal: cancelController.signal,
+        onProgress: chain(options.onProgress, onProgress),
+        onRetry: chain(options.onRetry, onRetry),
+        beforePart: async (partNumber) => {
+          await beforePart?.(partNumber);
+          await whilePaused();
+        },
+      });
+    }
+
+    const single = options as UplnkOptions;
+    for (;;) {
+      const current = { controller: new AbortController(), paused: false };
+      run = current;
+      try {
+        return await uplnk({
+          ...single,
+          signal: current.controller.signal,
+          onProgress: chain(single.onProgress, onProgress),
+          onRetry: chain(single.onRetry, onRetry),
+        });
+      } catch (err) {
+        // Aborted by pause(): wait, then send the whole file again.
+        if (!current.paused) throw err;
+        await whilePaused();
+        setState("uploading");
+      } finally {
+        run = undefined;
+      }
+    }
+  };
+
+  const promise = upload().then(
+    (result) => {
+      setState("done");
+      emit("complete", result);
+      return result;
+    },
+    (err: UplnkError | Error) => {
+      if (state !== "cancelled") {
+        setState("failed");
+        emit("error", err);
+      }
+      throw err;
+    },
+  );
+  // Event-only callers need not await; awaiting callers still see the rejection.
+  promise.catch(() => undefined);
+  promise
+    .finally(() => userSignal?.removeEventListener("abort", onUserAbort))
+    .catch(() => undefined);
+
+  const handle: UploadHandle<unknown> = {
+    get state() {
+      return state;
+    },
+    promise,
+    pause() {
+      if (isSettled() || state === "paused") return;
+      let resolve = (): void => undefined;
+      const waiting = new Promise<void>((r) => (resolve = r));
+      resumed = { promise: waiting, resolve };
+      setState("paused");
+      if (run) {
+        run.paused = true;
+        run.controller.abort();
+      }
+    },
+    resume() {
+      if (state !== "paused" || !resumed) return;
+      const { resolve } = resumed;
+      resumed = undefined;
+      setState("uploading");
+      resolve();
+    },
+    cancel() {
+      if (isSettled()) return;
+      setState("cancelled");
+      cancelController.abort();
+      run?.controller.abort();
+      resumed?.resolve();
+      resumed = undefined;
+    },
+    on(event, listener) {
+      const set = listeners.get(event) ?? new Set<Listener>();
+      listeners.set(event, set);
+      set.add(listener as Listener);
+      return () => set.delete(listener as Listener);
+    },
+    then: (onFulfilled, onRejected) => promise.then(onFulfilled, onRejected),
+    catch: (onRejected) => promise.catch(onRejected),
+    finally: (onFinally) => promise.finally(onFinally),
+  };
+  return handle;
+}
@@ -0,0 +1,273 @@
+/**
+ * @uplnk/core/hash — Incremental SHA-256, SHA-1, MD5, CRC32C and CRC-32.
+ *
+ * WebCrypto can only digest a whole buffer at once, so large files would have
+ * to be read into memory. These hashers take the file chunk by chunk instead.
+ */
+
+import type { ChecksumAlgorithm } from "@uplnk/types";
+
+/** An incremental hash. */
+export interface Hasher {
+  /** Feed the next bytes. */
+  update(data: Uint8Array): void;
+  /** Finish and return the digest. The hasher cannot be used afterwards. */
+  digest(): Uint8Array;
+}
+
+const rotl = (x: number, n: number): number => (x << n) | (x >>> (32 - n));
+
+/**
+ * Merkle–Damgård framing shared by MD5, SHA-1 and SHA-256: 64-byte blocks,
+ * 0x80 padding and a 64-bit bit length (little-endian for MD5).
+ */
+function blockHasher(
+  state: number[],
+  compress: (state: number[], words: Uint32Array) => void,
+  littleEndian: boolean,
+): Hasher {
+  const block = new Uint8Array(64);
+  const view = new DataView(block.buffer);
+  const words = new Uint32Array(16);
+  let filled = 0;
+  let length = 0;
+
+  const processBlock = (): void => {
+    for (let i = 0; i < 16; i++) words[i] = view.getUint32(i * 4, littleEndian);
+    compress(state, words);
+  };
+
+  return {
+    update(data) {
+      length += data.length;
+      let i = 0;
+      while (i < data.length) {
+        const n = Math.min(64 - filled, data.length - i);
+        block.set(data.subarray(i, i + n), filled);
+        filled += n;
+        i += n;
+        if (filled === 64) {
+          processBlock();
+          filled = 0;
+        }
+      }
+    },
+    digest() {
+      const bits = length * 8;
+      block[filled++] = 0x80;
+      if (filled > 56) {
+        block.fill(0, filled);
+        processBlock();
+        filled = 0;
+      }
+      block.fill(0, filled, 56);
+      const high = Math.floor(bits / 0x100000000);
+      const low = bits >>> 0;
+      view.setUint32(56, littleEndian ? low : high, littleEndian);
+      view.setUint32(60, littleEndian ? high : low, littleEndian);
+      processBlock();
+
+      const out = new Uint8Array(state.length * 4);
+      const outView = new DataView(out.buffer);
+      state.forEach((word, i) => outView.setUint32(i * 4, word >>> 0, littleEndian));
+      return out;
+    },
+  };
+}
+
+const MD5_K = Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000),
+);
+const MD5_S = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+
+function md5(): Hasher {
+  return blockHasher(
+    [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476],
+    (state, m) => {
+      let [a, b, c, d] = state;
+      for (let i = 0; i < 64; i++) {
+        let f: number;
+        let g: number;
+        if (i < 16) {
+          f = (b & c) | (~b & d);
+          g = i;
+        } else if (i < 32) {
+          f = (d & b) | (~d & c);
+          g = (5 * i + 1) % 16;
+        } else if (i < 48) {
+          f = b ^ c ^ d;
+          g = (3 * i + 5) % 16;
+        } else {
+          f = c ^ (b | ~d);
+          g = (7 * i) % 16;
+        }
+        const next = d;
+        d = c;
+        c = b;
+        b = (b + rotl((a + f + MD5_K[i] + m[g]) | 0, MD5_S[(i >> 4) * 4 + (i % 4)])) | 0;
+        a = next;
+      }
+      state[0] = (state[0] + a) | 0;
+      state[1] = (state[1] + b) | 0;
+      state[2] = (state[2] + c) | 0;
+      state[3] = (state[3] + d) | 0;
+    },
+    true,
+  );
+}
+
+function sha1(): Hasher {
+  const w = new Uint32Array(80);
+  return blockHasher(
+    [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0],
+    (state, m) => {
+      w.set(m);
+      for (let t = 16; t < 80; t++) w[t] = rotl(w[t - 3] ^ w[t - 8] ^ w[t - 14] ^ w[t - 16], 1);
+      let [a, b, c, d, e] = state;
+      for (let t = 0; t < 80; t++) {
+        let f: number;
+        let k: number;
+        if (t < 20) {
+          f = (b & c) | (~b & d);
+          k = 0x5a827999;
+        } else if (t < 40) {
+          f = b ^ c ^ d;
+          k = 0x6ed9eba1;
+        } else if (t < 60) {
+          f = (b & c) | (b & d) | (c & d);
+          k = 0x8f1bbcdc;
+        } else {
+          f = b ^ c ^ d;
+          k = 0xca62c1d6;
+        }
+        const temp = (rotl(a, 5) + f + e + k + w[t]) | 0;
+        e = d;
+        d = c;
+        c = rotl(b, 30);
+        b = a;
+        a = temp;
+      }
+      state[0] = (state[0] + a) | 0;
+      state[1] = (state[1] + b) | 0;
+      state[2] = (state[2] + c) | 0;
+      state[3] = (state[3] + d) | 0;
+      state[4] = (state[4] + e) | 0;
+    },
+    false,
+  );
+}
+
+// prettier-ignore
+const SHA256_K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+function sha256(): Hasher {
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number): number => (x >>> n) | (x << (32 - n));
+  return blockHasher(
+    [
+      0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab,
+      0x5be0cd19,
+    ],
+    (state, m) => {
+      w.set(m);
+      for (let t = 16; t < 64; t++) {
+        const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+        const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+        w[t] = (w[t - 16] + s0 + w[t - 7] + s1) | 0;
+      }
+      let [a, b, c, d, e, f, g, h] = state;
+      for (let t = 0; t < 64; t++) {
+        const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+        const ch = (e & f) ^ (~e & g);
+        const temp1 = (h + s1 + ch + SHA256_K[t] + w[t]) | 0;
+        const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+        const maj = (a & b) ^ (a & c) ^ (b & c);
+        const temp2 = (s0 + maj) | 0;
+        h = g;
+        g = f;
+        f = e;
+        e = (d + temp1) | 0;
+        d = c;
+        c = b;
+        b = a;
+        a = (temp1 + temp2) | 0;
+      }
+      state[0] = (state[0] + a) | 0;
+      state[1] = (state[1] + b) | 0;
+      state[2] = (state[2] + c) | 0;
+      state[3] = (state[3] + d) | 0;
+      state[4] = (state[4] + e) | 0;
+      state[5] = (state[5] + f) | 0;
+      state[6] = (state[6] + g) | 0;
+      state[7] = (state[7] + h) | 0;
+    },
+    false,
+  );
+}
+
+const crcTables = new Map<number, Uint32Array>();
+
+/** Reflected table-driven CRC-32 for `poly`. The digest is big-endian. */
+function crc(poly: number): Hasher {
+  let table = crcTables.get(poly);
+  if (!table) {
+    table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? poly ^ (c >>> 1) : c >>> 1;
+      table[n] = c >>> 0;
+    }
+    crcTables.set(poly, table);
+  }
+  const t = table;
+  let value = 0xffffffff;
+  return {
+    update(data) {
+      for (let i = 0; i < data.length; i++) value = t[(value ^ data[i]) & 0xff] ^ (value >>> 8);
+    },
+    digest() {
+      const out = new Uint8Array(4);
+      new DataView(out.buffer).setUint32(0, (value ^ 0xffffffff) >>> 0);
+      return out;
+    },
+  };
+}
+
+/** CRC-32C (Castagnoli), as used by S3 and GCS. */
+const crc32c = (): Hasher => crc(0x82f63b78);
+
+/**
+ * CRC-32 (IEEE), as used by the gzip trailer.
+ *
+ * @internal
+ */
+export const createCrc32 = (): Hasher => crc(0xedb88320);
+
+/**
+ * Create an incremental hasher.
+ *
+ * @internal
+ */
+export function createHasher(algorithm: ChecksumAlgorithm): Hasher {
+  switch (algorithm) {
+    case "sha256":
+      return sha256();
+    case "sha1":
+      return sha1();
+    case "md5":
+      return md5();
+    case "crc32c":
+      return crc32c();
+    default:
+      throw new TypeError(`uplnk: unsupported checksum algorithm "${String(algorithm)}"`);
+  }
+}
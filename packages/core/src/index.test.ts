@@ -1,5 +1,41 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { uplnk } from "./index";
+import { uplnk, batchUpload, validateFiles } from "./index";
+import { readBlob } from "./streams";
+import { fixedDelay } from "./retry-strategies";
+import { createResponder } from "./test-transports";
+import type { UploadTransport, TransportRequest, UploadRequest } from "@uplnk/types";
+
+function createFakeTransport(
+  status = 200,
+  responseText = "",
+): UploadTransport & {
+  requests: TransportRequest[];
+} {
+  const requests: TransportRequest[] = [];
+  return {
+    name: "fake",
+    requests,
+    async send(request) {
+      requests.push(request);
+      const handle: UploadRequest = {
+        transport: "fake",
+        method: request.method,
+        url: request.url,
+        bodySize: (request.body as Blob).size,
+        status,
+        responseText,
+        setRequestHeader: () => {},
+        getResponseHeader: () => null,
+        getResponseHeaders: () => ({}),
+        abort: () => {},
+      };
+      request.onStart?.(handle);
+      const size = (request.body as Blob).size;
+      request.onUploadProgress?.(size / 2, size);
+      return { status, headers: {}, responseText };
+    },
+  };
+}
 
 describe("uplnk", () => {
   const originalXHR = globalThis.XMLHttpRequest;
@@ -62,4 +98,221 @@ describe("uplnk", () => {
 
     await expect(p).rejects.toMatchObject({ type: "abort" });
   });
+
+  describe("transports", () => {
+    it("dispatches to options.transport", async () => {
+      const transport = createFakeTransport();
+      const file = new Blob(["hello"]);
+
+      await uplnk({ url: "https://example.com/upload", file, transport, method: "POST" });
+
+      expect(transport.requests).toHaveLength(1);
+      expect(transport.requests[0]).toMatchObject({
+        url: "https://example.com/upload",
+        method: "POST",
+        body: file,
+      });
+    });
+
+    it("passes the transport handle to onStart and onResponse", async () => {
+      const transport = createFakeTransport(201);
+      const onStart = vi.fn();
+      const onResponse = vi.fn();
+
+      await uplnk({
+        url: "https://example.com/upload",
+        file: new Blob(["hello"]),
+        transport,
+        onStart,
+        onResponse,
+      });
+
+      expect(onStart).toHaveBeenCalledWith(expect.objectContaining({ transport: "fake" }));
+      expect(onResponse.mock.calls[0][0]).toBe(onStart.mock.calls[0][0]);
+    });
+
+    it("reports progress from the transport", async () => {
+      const onProgress = vi.fn();
+
+      await uplnk({
+        url: "https://example.com/upload",
+        file: new Blob(["x".repeat(100)]),
+        transport: createFakeTransport(),
+        progress: { throttleMs: 0 },
+        onProgress,
+      });
+
+      const percents = onProgress.mock.calls.map(([p]) => p.percent);
+      expect(percents).toEqual([0, 50, 100]);
+    });
+
+    it("rejects with an http error for non-2xx responses", async () => {
+      const onError = vi.fn();
+
+      await expect(
+        uplnk({
+          url: "https://example.com/upload",
+          file: new Blob(["x"]),
+          transport: createFakeTransport(403, "denied"),
+          onError,
+        }),
+      ).rejects.toMatchObject({ type: "http", status: 403, response: "denied" });
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "http", status: 403, response: "denied" }),
+        expect.objectContaining({ transport: "fake" }),
+      );
+    });
+
+    it("falls back to fetch with a Blob body when XMLHttpRequest is unavailable", async () => {
+      vi.stubGlobal("XMLHttpRequest", undefined);
+      const fetchMock = vi.fn(
+        async (_url: string, _init: RequestInit) => new Response("", { status: 200 }),
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      try {
+        await uplnk({ url: "https://example.com/upload", file: new Blob(["x"]) });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        // A Blob keeps the Content-Length that presigned PUT URLs require.
+        expect(fetchMock.mock.calls[0][1].body).toBeInstanceOf(Blob);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
+
+  describe("results", () => {
+    it("resolves with status, headers, the text body and timing", async () => {
+      const result = await uplnk({
+        url: "https://example.com/upload",
+        file: new Blob(["x".repeat(10)]),
+        transport: createResponder([
+          { status: 201, headers: { location: "/files/1" }, responseText: "created" },
+        ]),
+      });
+
+      expect(result).toMatchObject({
+        status: 201,
+        headers: { location: "/files/1" },
+        body: "created",
+        attempts: 1,
+        timing: { bytes: 10 },
+      });
+      expect(result.timing.endTime).toBeGreaterThanOrEqual(result.timing.startTime);
+      expect(result.timing.duration).toBe(result.timing.endTime - result.timing.startTime);
+    });
+
+    it("parses JSON bodies and counts attempts", async () => {
+      const result = await uplnk<{ id: string }>({
+        url: "https://example.com/upload",
+        file: new Blob(["x"]),
+        responseType: "json",
+        retry: { attempts: 3, delayMs: 0, shouldRetry: () => true },
+        transport: createResponder([
+          { status: 503, headers: {}, responseText: "" },
+          { status: 200, headers: {}, responseText: '{"id":"abc"}' },
+        ]),
+      });
+
+      expect(result.body.id).toBe("abc");
+      expect(result.attempts).toBe(2);
+    });
+
+    it("rejects invalid JSON", async () => {
+      await expect(
+        uplnk({
+          url: "https://example.com/upload",
+          file: new Blob(["x"]),
+          responseType: "json",
+          transport: createResponder([{ status: 200, headers: {}, responseText: "<html>" }]),
+        }),
+      ).rejects.toThrow("not valid JSON");
+    });
+
+    it("returns blob bodies from the transport", async () => {
+      const requests: TransportRequest[] = [];
+      const transport: UploadTransport = {
+        name: "fake",
+        async send(request) {
+          requests.push(request);
+          return { status: 200, headers: {}, responseText: "", body: new Blob(["ok"]) };
+        },
+      };
+
+      const result = await uplnk<Blob>({
+        url: "https://example.com/upload",
+        file: new Blob(["x"]),
+        responseType: "blob",
+        transport,
+      });
+
+      expect(requests[0].responseType).toBe("blob");
+      expect(new TextDecoder().decode(await readBlob(result.body))).toBe("ok");
+    });
+
+    it("keeps results on batch items", async () => {
+      const { items } = await batchUpload(
+        ["1", "2"].map((id) => ({
+          url: `https://example.com/upload/${id}`,
+          file: new Blob(["x"]),
+          responseType: "json" as const,
+          transport: createResponder([{ status: 200, headers: {}, responseText: `{"id":${id}}` }]),
+        })),
+      );
+
+      expect(items.map((item) => item.result?.body)).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it("skips batch items rejected by validateFiles", async () => {
+      const transport = createFakeTransport();
+      const files = ["a", "bb", "ccc"].map((text) => new File([text], `${text}.txt`));
+      const report = await validateFiles(files, { maxFiles: 2 });
+      const progress: number[] = [];
+
+      const result = await batchUpload(
+        files.map((file) => ({ url: `https://example.com/${file.name}`, file, transport })),
+        { validation: report, onProgress: (p) => progress.push(p.percent) },
+      );
+
+      expect(transport.requests.map((r) => r.url)).toEqual([
+        "https://example.com/a.txt",
+        "https://example.com/bb.txt",
+      ]);
+      expect(result).toMatchObject({ successful: 2, failed: 0, skipped: 1 });
+      expect(result.items[2]).toMatchObject({
+        status: "skipped",
+        validationErrors: [{ type: "too-many-files", maxFiles: 2, actualCount: 3 }],
+      });
+      expect(progress[progress.length - 1]).toBe(100);
+    });
+  });
+
+  describe("retry", () => {
+    it("waits for Retry-After and stops at maxElapsedMs", async () => {
+      vi.useFakeTimers();
+      try {
+        const sent: number[] = [];
+        const transport: UploadTransport = {
+          name: "fake",
+          async send() {
+            sent.push(Date.now());
+            return { status: 429, headers: { "retry-after": "3" }, responseText: "" };
+          },
+        };
+
+        const p = uplnk({
+          url: "https://example.com/upload",
+          file: new Blob(["x"]),
+          transport,
+          retry: fixedDelay({ delayMs: 100, maxAttempts: 5, maxElapsedMs: 5000 }),
+        }).catch((e: unknown) => e);
+        await vi.runAllTimersAsync();
+
+        expect(await p).toMatchObject({ type: "http", status: 429 });
+        expect(sent.map((t) => t - sent[0])).toEqual([0, 3000]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
 });
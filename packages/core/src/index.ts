@@ -1,54 +1,201 @@
 /**
  * @uplnk/core — Low-level upload with progress.
- * Browser only (XMLHttpRequest).
+ * Pluggable transports: XMLHttpRequest in browsers, fetch() everywhere else.
  */
 
-import type { UplnkOptions, UploadProgress, UploadError, ProgressOptions } from "@uplnk/types";
+import type {
+  UplnkOptions,
+  UploadProgress,
+  UploadError,
+  ProgressOptions,
+  UploadRequest,
+  UplnkMethod,
+  UploadResult,
+  UploadResponseType,
+  TransportResponse,
+  FileChecksum,
+  ChecksumOptions,
+  CompressedBody,
+  UrlResolverContext,
+  InterceptorContext,
+  InterceptorRequest,
+} from "@uplnk/types";
+import { defaultTransport } from "./transports";
+import { encodeFormBody } from "./form";
+import { UplnkError, toUplnkError } from "./errors";
+import type { UplnkAttempt } from "./errors";
+import { nextRetryDelay, waitForRetry } from "./retry-strategies";
+import { createSpeedMeter } from "./estimator";
+import { toRateLimiter } from "./rate-limit";
+import { computeChecksum, toChecksumOptions, checksumHeaders, echoedChecksum } from "./checksum";
+import { resolveCompression } from "./compression";
+import { resolveEncryption, encryptionInfo } from "./encryption";
+import type { EncryptedRequestBody } from "./encryption";
+import { resolveUrl, isExpiredUrl, DEFAULT_MAX_URL_REFRESHES } from "./signed-url";
+import { isUploadError, runBeforeRequest, runAfterResponse, runOnError } from "./interceptors";
 
 export type {
   UplnkOptions,
   UploadProgress,
   UploadError,
   ProgressOptions,
+  EstimatorOptions,
   RetryOptions,
+  RetryFailure,
+  RetryEvent,
+  UploadRequest,
+  UploadTransport,
+  UploadBody,
+  StreamBody,
+  TransportMethod,
+  TransportRequest,
+  TransportResponse,
+  UploadBodyMode,
+  FormBodyOptions,
+  UploadResult,
+  UploadResponseType,
+  UploadTiming,
+  RateLimiter,
+  ChecksumAlgorithm,
+  ChecksumOptions,
+  ChecksumMismatch,
+  FileChecksum,
+  UploadChecksum,
+  UploadCompression,
+  CompressedBody,
+  EncryptionKey,
+  EncryptionOptions,
+  EncryptionInfo,
+  EncryptedBody,
+  Encryptor,
+  UrlResolver,
+  UrlResolverContext,
+  ResolvedUrl,
+  UplnkInterceptor,
+  InterceptorRequest,
+  InterceptorContext,
+  ResponseInterceptorContext,
+  ErrorInterceptorContext,
 } from "@uplnk/types";
+export { xhrTransport } from "./transport-xhr";
+export { fetchTransport } from "./transport-fetch";
+export type { FetchTransportOptions } from "./transport-fetch";
 export {
   exponentialBackoff,
   fixedDelay,
   networkErrorsOnly,
   customRetry,
   calculateBackoffDelay,
+  retryAfterMs,
 } from "./retry-strategies";
 export {
   validateFile,
+  validateFileAsync,
+  validateFiles,
+  collectValidationErrors,
   validateSize,
   validateType,
+  validateTypeAsync,
   formatValidationError,
-  formatBytes,
   FILE_TYPE_PRESETS,
   FILE_SIZE_PRESETS,
 } from "./validators";
+export { formatBytes, formatSpeed, formatDuration } from "./format";
+export type { ByteUnits, FormatBytesOptions, FormatDurationOptions } from "./format";
+export { registerLocale, setValidationLocale, ENGLISH_MESSAGES } from "./messages";
+export type {
+  ValidationMessage,
+  ValidationMessageKey,
+  ValidationMessages,
+  ValidationMessageOptions,
+} from "./messages";
+export { sniffFileType } from "./sniff";
+export type { SniffedFileType } from "./sniff";
+export { getImageDimensions, getMediaDuration } from "./media";
+export type { ImageDimensions } from "./media";
 export type {
   ValidationError,
   FileValidationOptions,
+  AsyncFileValidationOptions,
+  MediaValidationOptions,
+  FileCollectionRules,
+  FileCollectionReport,
+  FileValidationResult,
+  FileTypePreset,
   SizeValidationOptions,
   TypeValidationOptions,
 } from "./validators";
 export { batchUpload, sequentialUpload, createUploadQueue } from "./batch";
+export { multipartUpload, MAX_PARTS } from "./multipart";
+export { createSpeedEstimator, DEFAULT_STALL_MS } from "./estimator";
+export { createRateLimiter } from "./rate-limit";
+export { computeChecksum } from "./checksum";
+export type { ComputeChecksumOptions } from "./checksum";
+export { compressFile } from "./compression";
+export type { CompressFileOptions } from "./compression";
+export { encryptFile, createEncryptor, decryptStream } from "./encryption";
+export type { EncryptFileOptions } from "./encryption";
+export type { RateLimiterOptions } from "./rate-limit";
+export type { SpeedEstimator } from "./estimator";
+export { UplnkError, redactUrl } from "./errors";
+export { isExpiredUrl, DEFAULT_MAX_URL_REFRESHES } from "./signed-url";
+export { createUplnk } from "./instance";
+export { startUpload } from "./handle";
+export type { UploadHandle, UploadHandleEvents, UploadState, StartUploadOptions } from "./handle";
+export type { UplnkDefaults, UplnkInstance } from "./instance";
+export type { UplnkAttempt, UplnkErrorContext } from "./errors";
+export { s3PresignedPost } from "./form";
+export type { PresignedPost } from "./form";
+export { tusUpload, TUS_VERSION } from "./tus";
+export type { TusUploadOptions, TusUploadResult } from "./tus";
+export {
+  memoryStateStore,
+  localStorageStateStore,
+  indexedDBStateStore,
+  fingerprintFile,
+  cleanupUploadState,
+  DEFAULT_STATE_TTL_MS,
+} from "./state-store";
+export type {
+  FileFingerprint,
+  UploadStateRecord,
+  UploadStateStore,
+  FingerprintOptions,
+  CleanupOptions,
+} from "./state-store";
+export { resumeUpload, findUploadState } from "./resume";
+export type {
+  ResumeUploadOptions,
+  ResumeUploadResult,
+  ResumableTusOptions,
+  ResumableMultipartOptions,
+} from "./resume";
+export type {
+  CompletedPart,
+  SignedPart,
+  MultipartUploadOptions,
+  MultipartUploadResult,
+} from "./multipart";
 export type {
   BatchUploadStatus,
   BatchUploadItem,
   BatchProgress,
   BatchUploadOptions,
   BatchUploadResult,
+  BatchUploadSource,
+  QueueAddOptions,
+  UploadQueue,
+  UploadQueueStatus,
 } from "./batch";
 
-const DEFAULT_METHOD: UplnkOptions["method"] = "PUT";
+const DEFAULT_METHOD: UplnkMethod = "PUT";
 const DEFAULT_THROTTLE_MS = 100;
 const DEFAULT_EMIT_ON_START = true;
 const DEFAULT_EMIT_ON_END = true;
 
-function defaultProgressOptions(): Required<ProgressOptions> {
+function defaultProgressOptions(): Required<
+  Pick<ProgressOptions, "throttleMs" | "emitOnStart" | "emitOnEnd">
+> {
   return {
     throttleMs: DEFAULT_THROTTLE_MS,
     emitOnStart: DEFAULT_EMIT_ON_START,
@@ -74,154 +221,456 @@ function emitProgress(
   opts.onProgress?.(progress);
 }
 
-function doUpload(opts: UplnkOptions): Promise<void> {
+/** Outcome of a single successful attempt. */
+interface AttemptResult {
+  response: TransportResponse;
+  bytes: number;
+  startTime: number;
+}
+
+/** A body rewritten before sending (compressed or encrypted), for progress mapping. */
+type EncodedBody = Pick<CompressedBody, "sourceSize" | "size" | "toSourceBytes">;
+
+/** Options for one attempt, with the URL resolved. */
+type AttemptOptions = UplnkOptions & { url: string };
+
+function httpError(response: TransportResponse): UploadError {
+  return { type: "http", status: response.status, response: response.responseText || undefined };
+}
+
+const isSuccess = (response: TransportResponse): boolean =>
+  response.status >= 200 && response.status < 300;
+
+function doUpload(
+  opts: AttemptOptions,
+  encoded?: EncodedBody,
+  afterResponse?: (response: TransportResponse) => Promise<TransportResponse>,
+): Promise<AttemptResult> {
   return new Promise((resolve, reject) => {
     const url = opts.url;
     if (!url) throw new Error("uplnk: url is required");
     const {
       file,
-      method: methodOpt = DEFAULT_METHOD,
-      headers = {},
+      body: bodyMode = { type: "raw" },
+      method = bodyMode.type === "form" ? "POST" : DEFAULT_METHOD,
       withCredentials = false,
       signal,
       timeoutMs,
       onStart,
       onResponse,
-      onError,
     } = opts;
+    const limiter = toRateLimiter(opts.rateLimit);
+    const transport = opts.transport ?? defaultTransport();
+    const headers = { ...opts.headers };
+    let body = file;
+    // Form bodies carry field parts around the file; progress counts file bytes only.
+    let toFileBytes = (bytes: number): number => bytes;
+    if (bodyMode.type === "form") {
+      const form = encodeFormBody(file, bodyMode);
+      for (const name of Object.keys(headers)) {
+        if (name.toLowerCase() === "content-type") delete headers[name];
+      }
+      headers["Content-Type"] = form.contentType;
+      body = form.body;
+      toFileBytes = (bytes) => Math.min(form.fileSize, Math.max(0, bytes - form.fileOffset));
+    }
+    // Encoded bodies report progress in original bytes, with the wire bytes alongside.
+    const toProgress = (bytes: number, size?: number): UploadProgress => {
+      if (!encoded) return createProgress(bytes, size);
+      const progress = createProgress(encoded.toSourceBytes(bytes), encoded.sourceSize);
+      progress.wireLoaded = bytes;
+      progress.wireTotal = encoded.size;
+      return progress;
+    };
 
     const progressOpts = { ...defaultProgressOptions(), ...opts.progress };
     const { throttleMs, emitOnStart, emitOnEnd } = progressOpts;
     const lastEmitTime = { value: 0 };
     const startTime = Date.now();
+    // A stall produces no transport events, so the meter's timer reports it.
+    const onStall = (): void => {
+      opts.onProgress?.(meter.annotate(toProgress(uploaded, total)));
+    };
+    const meter = createSpeedMeter(opts.progress, opts.onProgress ? onStall : undefined);
 
-    const xhr = new XMLHttpRequest();
-    const body: XMLHttpRequestBodyInit = file;
+    const controller = new AbortController();
+    let request: UploadRequest | undefined;
+    let total: number | undefined;
+    let uploaded = 0;
+    let settled = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
 
-    const finish = (err: UploadError | null): void => {
-      if (err) {
-        onError?.(err, xhr);
+    const finish = (err: UploadError | Error | null, response?: TransportResponse): void => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener("abort", onAbort);
+      if (timeoutId != null) clearTimeout(timeoutId);
+      meter.stop();
+      if (err instanceof Error && !(err instanceof UplnkError)) {
+        // Misuse reported by the transport (e.g. an unsupported body): not retryable.
         reject(err);
-      } else {
-        onResponse?.(xhr);
-        resolve();
+      } else if (err) {
+        reject(toUplnkError(err, { url, method, headers: response?.headers }));
+      } else if (response) {
+        if (request) onResponse?.(request);
+        resolve({ response, bytes: encoded ? encoded.size : (total ?? uploaded), startTime });
       }
     };
 
     const handleError = (err: UploadError): void => {
+      controller.abort();
       finish(err);
     };
 
+    const onAbort = (): void => handleError({ type: "abort" });
+
     if (signal?.aborted) {
       handleError({ type: "abort" });
       return;
     }
-
-    const onAbort = (): void => handleError({ type: "abort" });
     signal?.addEventListener("abort", onAbort);
 
-    let timeoutId: ReturnType<typeof setTimeout> | undefined;
     if (typeof timeoutMs === "number" && timeoutMs > 0) {
-      timeoutId = setTimeout(() => {
-        xhr.abort();
-        handleError({ type: "timeout" });
-      }, timeoutMs);
+      timeoutId = setTimeout(() => handleError({ type: "timeout" }), timeoutMs);
     }
 
-    xhr.upload.addEventListener("progress", (e) => {
-      if (e.lengthComputable) {
-        const total = e.total;
-        const loaded = e.loaded;
-        const progress = createProgress(loaded, total);
-        const elapsed = (Date.now() - startTime) / 1000;
-        if (elapsed > 0) {
-          progress.speed = loaded / elapsed;
-          if (progress.speed && progress.total != null && progress.loaded < progress.total) {
-            progress.eta = (progress.total - progress.loaded) / progress.speed;
-          }
-        }
-        emitProgress(opts, progress, lastEmitTime, throttleMs);
-      } else {
-        const progress = createProgress(e.loaded);
-        emitProgress(opts, progress, lastEmitTime, throttleMs);
-      }
-    });
-
-    xhr.addEventListener("load", () => {
-      signal?.removeEventListener("abort", onAbort);
-      if (timeoutId != null) clearTimeout(timeoutId);
-      if (xhr.status >= 200 && xhr.status < 300) {
-        if (emitOnEnd && opts.onProgress) {
-          const total = body instanceof Blob ? body.size : 0;
-          opts.onProgress(createProgress(total, total));
-        }
-        finish(null);
-      } else {
-        handleError({
-          type: "http",
-          status: xhr.status,
-          response: xhr.responseText || undefined,
-        });
-      }
-    });
+    const onUploadProgress = (bytes: number, reportedTotal?: number): void => {
+      const loaded = toFileBytes(bytes);
+      total = reportedTotal != null ? toFileBytes(reportedTotal) : total;
+      uploaded = loaded;
+      const progress = meter.annotate(toProgress(loaded, total));
+      emitProgress(opts, progress, lastEmitTime, throttleMs);
+    };
 
-    xhr.addEventListener("error", () => {
-      signal?.removeEventListener("abort", onAbort);
-      if (timeoutId != null) clearTimeout(timeoutId);
-      handleError({ type: "network" });
-    });
+    transport
+      .send({
+        url,
+        method,
+        headers,
+        body,
+        withCredentials,
+        signal: controller.signal,
+        responseType: opts.responseType === "blob" ? "blob" : "text",
+        pace: limiter ? (bytes) => limiter.take(bytes, controller.signal) : undefined,
+        onStart: (req) => {
+          request = req;
+          total = req.bodySize != null ? toFileBytes(req.bodySize) : undefined;
+          onStart?.(req);
+          const progress = meter.annotate(toProgress(0, total));
+          if (emitOnStart && opts.onProgress) opts.onProgress(progress);
+        },
+        onUploadProgress,
+      })
+      .then((response) => (afterResponse ? afterResponse(response) : response))
+      .then(
+        (response) => {
+          if (isSuccess(response)) {
+            if (emitOnEnd && opts.onProgress) {
+              const size = total ?? uploaded;
+              opts.onProgress(toProgress(size, size));
+            }
+            finish(null, response);
+          } else {
+            finish(httpError(response), response);
+          }
+        },
+        (err: UploadError | Error) => finish(err),
+      );
+  });
+}
 
-    xhr.addEventListener("abort", () => {
-      signal?.removeEventListener("abort", onAbort);
-      if (timeoutId != null) clearTimeout(timeoutId);
-      handleError({ type: "abort" });
-    });
+/**
+ * One attempt: the interceptor chain around doUpload() and `check` (e.g. the
+ * checksum), then the caller's `onError` if no hook recovered it.
+ */
+async function sendAttempt(
+  opts: AttemptOptions,
+  attempt: number,
+  options: UplnkOptions,
+  encoded?: EncodedBody,
+  check?: (response: TransportResponse) => void,
+): Promise<AttemptResult> {
+  let request: UploadRequest | undefined;
+  const tracked: AttemptOptions = {
+    ...opts,
+    onStart: (req) => {
+      request = req;
+      opts.onStart?.(req);
+    },
+  };
+  try {
+    return await interceptAttempt(tracked, attempt, options, encoded, check);
+  } catch (err) {
+    if (err instanceof UplnkError) opts.onError?.(err, request);
+    throw err;
+  }
+}
 
-    const method = (methodOpt ?? DEFAULT_METHOD) as string;
-    xhr.open(method, url, true);
-    xhr.withCredentials = withCredentials;
+async function interceptAttempt(
+  opts: AttemptOptions,
+  attempt: number,
+  options: UplnkOptions,
+  encoded?: EncodedBody,
+  check?: (response: TransportResponse) => void,
+): Promise<AttemptResult> {
+  const interceptors = options.interceptors ?? [];
+  if (interceptors.length === 0) {
+    const result = await doUpload(opts, encoded);
+    check?.(result.response);
+    return result;
+  }
 
-    for (const [key, value] of Object.entries(headers)) {
-      xhr.setRequestHeader(key, value);
+  const request: InterceptorRequest = {
+    url: opts.url,
+    method: opts.method ?? (opts.body?.type === "form" ? "POST" : DEFAULT_METHOD),
+    headers: { ...opts.headers },
+    body: opts.file,
+  };
+  const context: InterceptorContext = { request, attempt, options };
+  const startTime = Date.now();
+  try {
+    const early = await runBeforeRequest(interceptors, context);
+    const afterResponse = (response: TransportResponse): Promise<TransportResponse> =>
+      runAfterResponse(interceptors, context, response);
+    if (!early) {
+      const { url, method, headers, body } = request;
+      const sent = { ...opts, url, method, headers, file: body };
+      // A replaced body no longer maps back to the original bytes.
+      const result = await doUpload(
+        sent,
+        request.body === opts.file ? encoded : undefined,
+        afterResponse,
+      );
+      check?.(result.response);
+      return result;
     }
+    const response = await afterResponse(early);
+    if (!isSuccess(response)) {
+      throw toUplnkError(httpError(response), {
+        url: request.url,
+        method: request.method,
+        headers: response.headers,
+      });
+    }
+    check?.(response);
+    return { response, bytes: 0, startTime };
+  } catch (err) {
+    if (!isUploadError(err)) throw err;
+    const { url, method } = request;
+    const outcome = await runOnError(interceptors, context, toUplnkError(err, { url, method }));
+    if (outcome instanceof UplnkError) throw outcome;
+    return { response: outcome, bytes: 0, startTime };
+  }
+}
 
-    onStart?.(xhr);
+function parseBody(response: TransportResponse, responseType: UploadResponseType): unknown {
+  if (responseType === "blob") return response.body ?? new Blob([]);
+  if (responseType === "text") return response.responseText;
+  if (response.responseText === "") return undefined;
+  try {
+    return JSON.parse(response.responseText);
+  } catch {
+    throw new Error(`uplnk: response (HTTP ${response.status}) is not valid JSON`);
+  }
+}
 
-    if (emitOnStart && opts.onProgress) {
-      opts.onProgress(createProgress(0, body instanceof Blob ? body.size : undefined));
-    }
+/** Compare the local checksum with the server's echo; true when they match. */
+function verifyChecksum(
+  response: TransportResponse,
+  checksum: FileChecksum,
+  config: Required<ChecksumOptions>,
+  options: AttemptOptions,
+): boolean {
+  if (!config.verify) return false;
+  const echoed = echoedChecksum(
+    response.headers,
+    checksum.algorithm,
+    config.header,
+    config.verifyEtag,
+  );
+  if (echoed === undefined) return false;
+  if (echoed !== checksum.base64) {
+    throw new UplnkError(
+      {
+        type: "checksum-mismatch",
+        checksum: { algorithm: checksum.algorithm, expected: checksum.base64, actual: echoed },
+      },
+      { url: options.url, method: options.method ?? DEFAULT_METHOD, headers: response.headers },
+    );
+  }
+  return true;
+}
 
-    xhr.send(body);
-  });
+function toResult<T>(
+  attempt: AttemptResult,
+  options: UplnkOptions,
+  attempts: number,
+  startTime: number,
+): UploadResult<T> {
+  const { response, bytes } = attempt;
+  const endTime = Date.now();
+  const seconds = (endTime - attempt.startTime) / 1000;
+  return {
+    status: response.status,
+    headers: response.headers,
+    body: parseBody(response, options.responseType ?? "text") as T,
+    attempts,
+    timing: {
+      startTime,
+      endTime,
+      duration: endTime - startTime,
+      bytes,
+      averageSpeed: seconds > 0 ? bytes / seconds : 0,
+    },
+  };
 }
 
 /**
  * Execute a single HTTP upload with optional progress and retry.
- * Browser only (uses XMLHttpRequest).
+ * Uses `options.transport`, defaulting to XHR where available and fetch otherwise.
+ *
+ * @returns Status, headers, the parsed body, attempt count and timing
+ *
+ * @example
+ * ```ts
+ * const { body, headers } = await uplnk<{ id: string }>({
+ *   url: "/api/uploads",
+ *   method: "POST",
+ *   file,
+ *   responseType: "json",
+ * });
+ * console.log(body.id, headers["location"]);
+ *
+ * // Sign just before each attempt; an expired URL is re-signed
+ * await uplnk({ url: () => api.presign(file.name), file });
+ * ```
  */
-export async function uplnk(options: UplnkOptions): Promise<void> {
+export async function uplnk<T = unknown>(options: UplnkOptions): Promise<UploadResult<T>> {
   const { retry } = options;
+  const attempts = retry ? retry.attempts : 1;
+  // Retries share one bucket rather than each starting with a full burst.
+  const limiter = toRateLimiter(options.rateLimit);
+  let attemptOptions = limiter ? { ...options, rateLimit: limiter } : options;
 
-  if (!retry) {
-    return doUpload(options);
+  let compressed: CompressedBody | undefined;
+  if (options.compress) {
+    if (options.body?.type === "form") {
+      throw new TypeError("uplnk: compress cannot be combined with form bodies");
+    }
+    compressed = await resolveCompression(options.compress, options.file, options.signal);
+    const headers = { ...attemptOptions.headers, "Content-Encoding": compressed.format };
+    attemptOptions = { ...attemptOptions, file: compressed.body, headers };
   }
 
-  const { attempts, delayMs, shouldRetry } = retry;
-  let lastErr: UploadError | undefined;
+  let encrypted: EncryptedRequestBody | undefined;
+  if (options.encrypt) {
+    if (options.body?.type === "form") {
+      throw new TypeError("uplnk: encrypt cannot be combined with form bodies");
+    }
+    // Content-Encoding would describe ciphertext the server cannot decode.
+    if (compressed) {
+      throw new TypeError("uplnk: encrypt cannot be combined with compress");
+    }
+    // A checksum header needs the whole ciphertext before the request starts.
+    encrypted = await resolveEncryption(options.encrypt, options.file, {
+      signal: options.signal,
+      buffer: options.checksum != null,
+    });
+    const headers = { ...attemptOptions.headers, ...encrypted.headers };
+    attemptOptions = { ...attemptOptions, file: encrypted.body, headers };
+  }
+
+  // Checksums cover the bytes stored, i.e. the compressed or encrypted body.
+  let checksum: FileChecksum | undefined;
+  let checksumConfig: Required<ChecksumOptions> | undefined;
+  if (options.checksum) {
+    if (options.body?.type === "form") {
+      throw new TypeError("uplnk: checksum cannot be combined with form bodies");
+    }
+    const { file } = attemptOptions;
+    checksumConfig = toChecksumOptions(options.checksum, file);
+    checksum = await computeChecksum(file as Blob | Uint8Array, checksumConfig.algorithm, {
+      signal: options.signal,
+    });
+    const headers = {
+      ...attemptOptions.headers,
+      ...checksumHeaders(checksum, checksumConfig.header),
+    };
+    attemptOptions = { ...attemptOptions, headers };
+  }
+  const history: UplnkAttempt[] = [];
+  const startTime = Date.now();
+  // Only a resolver can produce a fresh URL; a static one would just fail again.
+  const canResign = typeof options.url === "function";
+  const isExpired = options.isExpiredUrl ?? isExpiredUrl;
+  const maxRefreshes = options.maxUrlRefreshes ?? DEFAULT_MAX_URL_REFRESHES;
+  let refreshes = 0;
+  let reason: UrlResolverContext["reason"] = "initial";
+  let lastError: UploadError | undefined;
 
   for (let attempt = 0; attempt < attempts; attempt++) {
+    const attemptStart = Date.now();
+    let result: AttemptResult;
+    let verified = false;
     try {
-      await doUpload(options);
-      return;
+      const target = await resolveUrl(options.url, {
+        attempt,
+        reason,
+        error: lastError,
+        signal: options.signal,
+      });
+      const sent: AttemptOptions = {
+        ...attemptOptions,
+        url: target.url,
+        headers: target.headers
+          ? { ...attemptOptions.headers, ...target.headers }
+          : attemptOptions.headers,
+      };
+      const check =
+        checksum && checksumConfig
+          ? (response: TransportResponse): void => {
+              verified = verifyChecksum(response, checksum, checksumConfig, sent);
+            }
+          : undefined;
+      result = await sendAttempt(sent, attempt, options, compressed ?? encrypted, check);
     } catch (err) {
-      lastErr = err as UploadError;
-      if (attempt === attempts - 1 || !shouldRetry(lastErr, attempt)) {
-        throw lastErr;
+      if (!(err instanceof UplnkError)) throw err;
+      lastError = err.toUploadError();
+      history.push({ error: lastError, durationMs: Date.now() - attemptStart });
+      if (canResign && refreshes < maxRefreshes && isExpired(lastError)) {
+        // The re-signed request replaces this attempt instead of using up a retry.
+        refreshes++;
+        reason = "expired";
+        attempt--;
+        continue;
+      }
+      reason = "retry";
+      const delay =
+        retry && attempt < attempts - 1 && retry.shouldRetry(err, attempt)
+          ? nextRetryDelay(retry, attempt, {
+              error: err,
+              headers: err.headers,
+              elapsedMs: Date.now() - startTime,
+            })
+          : undefined;
+      if (delay === undefined) {
+        err.attempts = history;
+        throw err;
+      }
+      options.onRetry?.({ attempt, error: lastError, delayMs: delay });
+      try {
+        await waitForRetry(delay, options.signal);
+      } catch (abort) {
+        (abort as UplnkError).attempts = history;
+        throw abort;
       }
-      const delay = typeof delayMs === "function" ? delayMs(attempt) : delayMs;
-      await new Promise((r) => setTimeout(r, delay));
+      continue;
     }
+    const uploaded = toResult<T>(result, options, attempt + 1, startTime);
+    if (checksum) uploaded.checksum = { ...checksum, verified };
+    if (encrypted) uploaded.encryption = encryptionInfo(encrypted);
+    return uploaded;
   }
 
-  if (lastErr) throw lastErr;
+  throw new Error("uplnk: retry.attempts must be at least 1");
 }
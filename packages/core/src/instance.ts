@@ -0,0 +1,62 @@
+/**
+ * @uplnk/core/instance — Preconfigured uplnk() functions.
+ */
+
+import type { UplnkOptions, UploadResult } from "@uplnk/types";
+import { uplnk } from "./index";
+
+/** Options shared by every upload of an instance. */
+export type UplnkDefaults = Partial<Omit<UplnkOptions, "file">>;
+
+/** An `uplnk()` with defaults applied; see createUplnk(). */
+export interface UplnkInstance {
+  <T = unknown>(options: UplnkOptions): Promise<UploadResult<T>>;
+  /** The instance's defaults. */
+  readonly defaults: Readonly<UplnkDefaults>;
+  /** Create an instance with these defaults merged over this one's. */
+  extend(defaults: UplnkDefaults): UplnkInstance;
+}
+
+/** Call options over defaults; headers are merged and interceptors run defaults first. */
+function mergeOptions<T extends UplnkDefaults>(defaults: UplnkDefaults, options: T): T {
+  return {
+    ...defaults,
+    ...options,
+    headers: { ...defaults.headers, ...options.headers },
+    interceptors: [...(defaults.interceptors ?? []), ...(options.interceptors ?? [])],
+  };
+}
+
+/**
+ * Create an `uplnk()` with default options, e.g. to add an auth interceptor
+ * to every upload of an app. Per-call options win; `headers` are merged and
+ * `interceptors` run after the defaults' own.
+ *
+ * @param defaults - Options applied to every call
+ * @returns Upload function with the same signature as uplnk()
+ *
+ * @example
+ * ```ts
+ * const upload = createUplnk({
+ *   retry: exponentialBackoff(),
+ *   interceptors: [
+ *     {
+ *       beforeRequest: async ({ request }) => {
+ *         request.headers.Authorization = `Bearer ${await getToken()}`;
+ *         request.headers["X-Request-Id"] = crypto.randomUUID();
+ *       },
+ *     },
+ *   ],
+ * });
+ *
+ * await upload({ url: "/api/uploads", file });
+ * ```
+ */
+export function createUplnk(defaults: UplnkDefaults = {}): UplnkInstance {
+  const instance = <T = unknown>(options: UplnkOptions): Promise<UploadResult<T>> =>
+    uplnk<T>(mergeOptions(defaults, options));
+  return Object.assign(instance, {
+    defaults,
+    extend: (more: UplnkDefaults) => createUplnk(mergeOptions(defaults, more)),
+  });
+}
@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import { uplnk, createUplnk } from "./index";
+import { fixedDelay } from "./retry-strategies";
+import { createResponder } from "./test-transports";
+import type { TransportResponse, UploadError, UplnkInterceptor } from "@uplnk/types";
+
+const ok = (responseText = ""): TransportResponse => ({ status: 200, headers: {}, responseText });
+
+describe("interceptors", () => {
+  it("re-runs beforeRequest on every attempt", async () => {
+    const transport = createResponder([{ status: 503, headers: {}, responseText: "" }]);
+    const attempts: number[] = [];
+
+    await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      transport,
+      retry: fixedDelay({ delayMs: 0, maxAttempts: 2 }),
+      interceptors: [
+        {
+          beforeRequest: ({ request, attempt }) => {
+            attempts.push(attempt);
+            request.url += `?try=${attempt}`;
+            request.headers["X-Request-Id"] = `req-${attempt}`;
+            request.method = "POST";
+          },
+        },
+      ],
+    });
+
+    expect(attempts).toEqual([0, 1]);
+    expect(transport.requests.map((r) => [r.url, r.method, r.headers["X-Request-Id"]])).toEqual([
+      ["https://example.com/upload?try=0", "POST", "req-0"],
+      ["https://example.com/upload?try=1", "POST", "req-1"],
+    ]);
+  });
+
+  it("replaces the body and short-circuits", async () => {
+    const transport = createResponder([]);
+    await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      transport,
+      interceptors: [{ beforeRequest: ({ request }) => void (request.body = new Blob(["yy"])) }],
+    });
+    expect((transport.requests[0].body as Blob).size).toBe(2);
+
+    const cached = createResponder([]);
+    const result = await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      transport: cached,
+      responseType: "json",
+      interceptors: [{ beforeRequest: () => ok('{"id":"cached"}') }],
+    });
+    expect(cached.requests).toHaveLength(0);
+    expect(result.body).toEqual({ id: "cached" });
+  });
+
+  it("lets afterResponse fail a 200 with an error body, which is then retried", async () => {
+    const transport = createResponder([ok('{"error":"quota"}'), ok('{"id":1}')]);
+    const failOnErrorBody: UplnkInterceptor = {
+      afterResponse: ({ response }) =>
+        response.responseText.includes('"error"') ? { ...response, status: 502 } : undefined,
+    };
+
+    const result = await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      transport,
+      responseType: "json",
+      retry: fixedDelay({ delayMs: 0, maxAttempts: 2 }),
+      interceptors: [failOnErrorBody],
+    });
+
+    expect(result).toMatchObject({ attempts: 2, body: { id: 1 } });
+
+    const thrower = createResponder([ok("bad")]);
+    await expect(
+      uplnk({
+        url: "https://example.com/upload",
+        file: new Blob(["x"]),
+        transport: thrower,
+        interceptors: [
+          {
+            afterResponse: () => {
+              throw { type: "http", status: 422, response: "bad" };
+            },
+          },
+        ],
+      }),
+    ).rejects.toMatchObject({ name: "UplnkError", status: 422 });
+  });
+
+  it("lets onError recover or remap", async () => {
+    const conflict = { status: 409, headers: {}, responseText: "exists" };
+    const recovered = await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      transport: createResponder([conflict]),
+      interceptors: [
+        {
+          onError: ({ error }) =>
+            error.type === "http" && error.status === 409 ? ok("already uploaded") : undefined,
+        },
+      ],
+    });
+    expect(recovered).toMatchObject({ status: 200, body: "already uploaded" });
+
+    const transport = createResponder([conflict]);
+    const seen: UploadError[] = [];
+    const err = await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      transport,
+      retry: fixedDelay({ delayMs: 0, maxAttempts: 3 }),
+      interceptors: [
+        { onError: () => ({ type: "http", status: 400, response: "remapped" }) },
+        { onError: ({ error }) => void seen.push(error) },
+      ],
+    }).catch((e: unknown) => e);
+    expect(err).toMatchObject({ status: 400, response: "remapped" });
+    expect(seen).toEqual([{ type: "http", status: 400, response: "remapped" }]);
+    // 400 is not retried by fixedDelay's default shouldRetry.
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it("calls the caller's onError after the hooks, unless they recovered", async () => {
+    const conflict = { status: 409, headers: {}, responseText: "exists" };
+    const errors: UploadError[] = [];
+    await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      transport: createResponder([conflict]),
+      interceptors: [{ onError: () => ok() }],
+      onError: (error) => errors.push(error),
+    });
+    expect(errors).toEqual([]);
+
+    await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      transport: createResponder([conflict]),
+      interceptors: [{ onError: () => ({ type: "http", status: 400, response: "remapped" }) }],
+      onError: (error) => errors.push(error),
+    }).catch(() => undefined);
+    expect(errors).toEqual([expect.objectContaining({ status: 400, response: "remapped" })]);
+  });
+
+  it("runs checksum mismatches through onError hooks", async () => {
+    const seen: UploadError[] = [];
+    const result = await uplnk({
+      url: "https://example.com/upload",
+      file: new Blob(["abc"]),
+      transport: createResponder([
+        { status: 200, headers: { "x-amz-checksum-sha256": "bm90IGl0" }, responseText: "" },
+      ]),
+      checksum: "sha256",
+      interceptors: [
+        {
+          onError: ({ error }) => {
+            seen.push(error);
+            return ok("checked elsewhere");
+          },
+        },
+      ],
+    });
+    expect(seen).toEqual([expect.objectContaining({ type: "checksum-mismatch" })]);
+    expect(result).toMatchObject({ body: "checked elsewhere", checksum: { verified: false } });
+  });
+
+  it("rethrows errors that are not upload errors", async () => {
+    await expect(
+      uplnk({
+        url: "https://example.com/upload",
+        file: new Blob(["x"]),
+        transport: createResponder([]),
+        interceptors: [
+          {
+            beforeRequest: () => {
+              throw new Error("no token");
+            },
+          },
+        ],
+      }),
+    ).rejects.toThrow("no token");
+  });
+});
+
+describe("createUplnk", () => {
+  it("merges defaults, running default interceptors first", async () => {
+    const order: string[] = [];
+    const transport = createResponder([]);
+    const upload = createUplnk({
+      transport,
+      headers: { Authorization: "Bearer t" },
+      interceptors: [{ beforeRequest: () => void order.push("default") }],
+    });
+    const traced = upload.extend({
+      interceptors: [{ beforeRequest: () => void order.push("extended") }],
+    });
+
+    await traced({
+      url: "https://example.com/upload",
+      file: new Blob(["x"]),
+      headers: { "Content-Type": "text/plain" },
+      interceptors: [{ beforeRequest: () => void order.push("call") }],
+    });
+
+    expect(order).toEqual(["default", "extended", "call"]);
+    expect(transport.requests[0].headers).toEqual({
+      Authorization: "Bearer t",
+      "Content-Type": "text/plain",
+    });
+    expect(upload.defaults.headers).toEqual({ Authorization: "Bearer t" });
+  });
+});
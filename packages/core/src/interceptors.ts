@@ -0,0 +1,66 @@
+/**
+ * @uplnk/core/interceptors — Middleware chain around each upload attempt.
+ */
+
+import type {
+  InterceptorContext,
+  TransportResponse,
+  UploadError,
+  UplnkInterceptor,
+} from "@uplnk/types";
+import { UplnkError, toUplnkError } from "./errors";
+
+/** @internal True for an `UploadError` thrown or returned by an interceptor or transport. */
+export function isUploadError(value: unknown): value is UploadError {
+  if (value instanceof UplnkError) return true;
+  return (
+    typeof value === "object" && value !== null && !(value instanceof Error) && "type" in value
+  );
+}
+
+/** @internal Run `beforeRequest` hooks; a returned response skips the rest and the network. */
+export async function runBeforeRequest(
+  interceptors: readonly UplnkInterceptor[],
+  context: InterceptorContext,
+): Promise<TransportResponse | undefined> {
+  for (const interceptor of interceptors) {
+    const response = await interceptor.beforeRequest?.(context);
+    if (response) return response;
+  }
+  return undefined;
+}
+
+/** @internal Run `afterResponse` hooks, each seeing the previous one's replacement. */
+export async function runAfterResponse(
+  interceptors: readonly UplnkInterceptor[],
+  context: InterceptorContext,
+  response: TransportResponse,
+): Promise<TransportResponse> {
+  let current = response;
+  for (const interceptor of interceptors) {
+    current = (await interceptor.afterResponse?.({ ...context, response: current })) || current;
+  }
+  return current;
+}
+
+/**
+ * Run `onError` hooks. The first to return a response recovers the attempt;
+ * a returned UploadError replaces the error for the hooks after it.
+ *
+ * @internal
+ */
+export async function runOnError(
+  interceptors: readonly UplnkInterceptor[],
+  context: InterceptorContext,
+  error: UplnkError,
+): Promise<TransportResponse | UplnkError> {
+  let current = error;
+  for (const interceptor of interceptors) {
+    const outcome = await interceptor.onError?.({ ...context, error: current.toUploadError() });
+    if (!outcome) continue;
+    if (!isUploadError(outcome)) return outcome;
+    const { url, method } = context.request;
+    current = toUplnkError(outcome, { url, method, headers: current.headers });
+  }
+  return current;
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import { getImageDimensions, getMediaDuration } from "./media";
+
+type Part = number[] | string | Uint8Array;
+
+function bytes(...parts: Part[]): Uint8Array {
+  return Uint8Array.from(
+    parts.flatMap((part) =>
+      typeof part === "string" ? Array.from(part, (c) => c.charCodeAt(0)) : Array.from(part),
+    ),
+  );
+}
+
+const u16be = (n: number): number[] => [n >> 8, n & 0xff];
+const u16le = (n: number): number[] => [n & 0xff, n >> 8];
+const u32be = (n: number): number[] => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const u32le = (n: number): number[] => u32be(n).reverse();
+const u24le = (n: number): number[] => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff];
+
+/** ISO box: 32-bit size, type, payload. */
+const box = (type: string, ...payload: Part[]): Uint8Array => {
+  const body = bytes(...payload);
+  return bytes(u32be(body.length + 8), type, body);
+};
+
+/** EBML element with a 1-byte size (payloads under 127 bytes). */
+const ebml = (id: number[], ...payload: Part[]): Uint8Array => {
+  const body = bytes(...payload);
+  return bytes(id, [0x80 | body.length], body);
+};
+
+describe("getImageDimensions", () => {
+  it("reads PNG", async () => {
+    const png = bytes([0x89], "PNG\r\n\x1a\n", u32be(13), "IHDR", u32be(640), u32be(480), [8, 6]);
+    await expect(getImageDimensions(png)).resolves.toEqual({ width: 640, height: 480 });
+  });
+
+  it("reads GIF", async () => {
+    await expect(getImageDimensions(bytes("GIF89a", u16le(300), u16le(200), [0]))).resolves.toEqual(
+      { width: 300, height: 200 },
+    );
+  });
+
+  it("reads lossy, lossless and extended WebP", async () => {
+    const riff = (chunk: string, data: number[]): Uint8Array =>
+      bytes("RIFF", u32le(4 + 8 + data.length), "WEBP", chunk, u32le(data.length), data);
+
+    const vp8 = riff("VP8 ", [0, 0, 0, 0x9d, 0x01, 0x2a, ...u16le(1024), ...u16le(768), 0, 0]);
+    // 14-bit width-1 and height-1 after the 0x2f signature.
+    const packed = (2000 - 1) | ((1000 - 1) << 14);
+    const vp8l = riff("VP8L", [0x2f, ...u32le(packed), 0, 0, 0, 0, 0, 0]);
+    const vp8x = riff("VP8X", [0x10, 0, 0, 0, ...u24le(4096 - 1), ...u24le(2160 - 1)]);
+
+    await expect(getImageDimensions(vp8)).resolves.toEqual({ width: 1024, height: 768 });
+    await expect(getImageDimensions(vp8l)).resolves.toEqual({ width: 2000, height: 1000 });
+    await expect(getImageDimensions(vp8x)).resolves.toEqual({ width: 4096, height: 2160 });
+  });
+
+  it("walks JPEG segments to the frame header", async () => {
+    const app0 = bytes([0xff, 0xe0], u16be(16), "JFIF\0", new Array(9).fill(0));
+    const dqt = bytes([0xff, 0xdb], u16be(4), [0, 0]);
+    const sof2 = bytes([0xff, 0xc2], u16be(17), [8], u16be(1080), u16be(1920), [3]);
+    const jpeg = new Blob([bytes([0xff, 0xd8]), app0, dqt, sof2, new Uint8Array(16)] as BlobPart[]);
+
+    await expect(getImageDimensions(jpeg)).resolves.toEqual({ width: 1920, height: 1080 });
+  });
+
+  it("returns null for other formats", async () => {
+    await expect(getImageDimensions(new Blob(["<svg/>"]))).resolves.toBeNull();
+    await expect(getImageDimensions(bytes("%PDF-1.7"))).resolves.toBeNull();
+  });
+});
+
+describe("getMediaDuration", () => {
+  it("reads WAV", async () => {
+    // 8 kHz mono 16-bit: 16000 bytes per second, 2.5 s of samples.
+    const fmt = bytes(
+      "fmt ",
+      u32le(16),
+      u16le(1),
+      u16le(1),
+      u32le(8000),
+      u32le(16000),
+      u16le(2),
+      u16le(16),
+    );
+    const wav = bytes(
+      "RIFF",
+      u32le(0),
+      "WAVE",
+      "LIST",
+      u32le(3),
+      "abc",
+      [0],
+      fmt,
+      "data",
+      u32le(40000),
+    );
+    const file = new Blob([wav, new Uint8Array(40000)] as BlobPart[]);
+
+    await expect(getMediaDuration(file)).resolves.toBe(2.5);
+  });
+
+  it("reads MP4 with moov after mdat, versions 0 and 1", async () => {
+    const ftyp = box("ftyp", "isom", u32be(512), "isommp41");
+    const mdat = box("mdat", new Uint8Array(1000));
+    const mvhd0 = box("mvhd", [0, 0, 0, 0], u32be(0), u32be(0), u32be(1000), u32be(93_500));
+    const mvhd1 = box(
+      "mvhd",
+      [1, 0, 0, 0],
+      new Array(16).fill(0),
+      u32be(90_000),
+      [0, 0, 0, 0],
+      u32be(90_000 * 7200),
+    );
+
+    const v0 = bytes(ftyp, mdat, box("moov", box("trak"), mvhd0));
+    const v1 = bytes(ftyp, box("moov", mvhd1), mdat);
+    await expect(getMediaDuration(v0)).resolves.toBe(93.5);
+    await expect(getMediaDuration(v1)).resolves.toBe(7200);
+  });
+
+  it("reads WebM Info › Duration with the timecode scale", async () => {
+    const duration = new Uint8Array(8);
+    new DataView(duration.buffer).setFloat64(0, 12_345);
+    const header = ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], "webm"));
+    const info = ebml(
+      [0x15, 0x49, 0xa9, 0x66],
+      ebml([0x2a, 0xd7, 0xb1], u32be(1_000_000)),
+      ebml([0x44, 0x89], duration),
+    );
+    const seekHead = ebml([0x11, 0x4d, 0x9b, 0x74], [0xec, 0x80]);
+    // Live recordings write the Segment with an unknown size.
+    const webm = bytes(
+      header,
+      [0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff],
+      seekHead,
+      info,
+    );
+
+    await expect(getMediaDuration(webm)).resolves.toBeCloseTo(12.345);
+  });
+
+  it("returns null without a duration", async () => {
+    const header = ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], "webm"));
+    const segment = ebml([0x18, 0x53, 0x80, 0x67], ebml([0x1f, 0x43, 0xb6, 0x75], [0, 0]));
+    await expect(getMediaDuration(bytes(header, segment))).resolves.toBeNull();
+    await expect(getMediaDuration(bytes("ID3", new Array(20).fill(0)))).resolves.toBeNull();
+  });
+
+  it("returns null for truncated WebM", async () => {
+    const header = ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], "webm"));
+    const info = ebml([0x15, 0x49, 0xa9, 0x66], ebml([0x44, 0x89], [0x40, 0x28, 0, 0, 0, 0, 0, 0]));
+    const segment = ebml([0x18, 0x53, 0x80, 0x67], info);
+
+    // An 8-byte size vint with only one byte present.
+    await expect(getMediaDuration(bytes([0x1a, 0x45, 0xdf, 0xa3, 0x08, 0x14]))).resolves.toBeNull();
+    await expect(getMediaDuration(bytes(header, [0x18, 0x53]))).resolves.toBeNull();
+    await expect(
+      getMediaDuration(bytes(header, segment.subarray(0, segment.length - 4))),
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * @uplnk/core/media — Image dimensions and media duration from file headers.
+ *
+ * Parses the container headers directly (no canvas, <video> or other DOM),
+ * reading only the few ranges of the file that hold the values, so it works
+ * in workers and Node and stays fast on large videos.
+ */
+
+import { readBlob } from "./streams";
+import { sniffFileType } from "./sniff";
+
+/** Pixel dimensions of an image. */
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+type Bytes = Uint8Array;
+
+/** Read up to `length` bytes at `offset` (fewer at the end of the file). */
+const readAt = (blob: Blob, offset: number, length: number): Promise<Bytes> =>
+  readBlob(blob.slice(offset, offset + length));
+
+const view = (bytes: Bytes): DataView => new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+
+const ascii = (bytes: Bytes, start: number, end: number): string =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+/** Unsigned big-endian integer of up to 8 bytes, as a double. */
+function readUint(bytes: Bytes, start: number, length: number): number {
+  let value = 0;
+  for (let i = start; i < start + length; i++) value = value * 256 + bytes[i];
+  return value;
+}
+
+const toBlob = (file: Blob | Uint8Array): Blob =>
+  file instanceof Blob ? file : new Blob([file as BlobPart]);
+
+// --- Images -----------------------------------------------------------------
+
+function pngDimensions(header: Bytes): ImageDimensions | null {
+  if (header.length < 24 || ascii(header, 12, 16) !== "IHDR") return null;
+  const data = view(header);
+  return { width: data.getUint32(16), height: data.getUint32(20) };
+}
+
+function gifDimensions(header: Bytes): ImageDimensions | null {
+  if (header.length < 10) return null;
+  const data = view(header);
+  return { width: data.getUint16(6, true), height: data.getUint16(8, true) };
+}
+
+function webpDimensions(header: Bytes): ImageDimensions | null {
+  if (header.length < 30) return null;
+  const data = view(header);
+  switch (ascii(header, 12, 16)) {
+    case "VP8 ":
+      // Lossy: a 3-byte frame tag and 3-byte start code precede 14-bit sizes.
+      return {
+        width: data.getUint16(26, true) & 0x3fff,
+        height: data.getUint16(28, true) & 0x3fff,
+      };
+    case "VP8L": {
+      // Lossless: signature byte, then width-1 and height-1 packed in 14 bits each.
+      const bits = data.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+    }
+    case "VP8X":
+      // Extended: canvas width-1 and height-1 as 24-bit little-endian values.
+      return {
+        width: (header[24] | (header[25] << 8) | (header[26] << 16)) + 1,
+        height: (header[27] | (header[28] << 8) | (header[29] << 16)) + 1,
+      };
+    default:
+      return null;
+  }
+}
+
+/** Walk JPEG segments to the first start-of-frame marker. */
+async function jpegDimensions(blob: Blob): Promise<ImageDimensions | null> {
+  let offset = 2;
+  while (offset + 4 <= blob.size) {
+    const segment = await readAt(blob, offset, 9);
+    if (segment[0] !== 0xff) return null;
+    const marker = segment[1];
+    // Fill bytes and standalone markers carry no length.
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+      continue;
+    }
+    // SOF0–SOF15, except DHT (C4), JPG (C8) and DAC (CC).
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (segment.length < 9) return null;
+      const data = view(segment);
+      return { width: data.getUint16(7), height: data.getUint16(5) };
+    }
+    if (marker === 0xda || marker === 0xd9) return null;
+    offset += 2 + view(segment).getUint16(2);
+  }
+  return null;
+}
+
+/**
+ * Read an image's pixel dimensions from its header. Supports PNG, JPEG, GIF
+ * and WebP; dimensions are as stored, before any EXIF rotation.
+ *
+ * @param file - File, Blob or byte array
+ * @returns Width and height, or null for other formats and unreadable headers
+ *
+ * @example
+ * ```ts
+ * const size = await getImageDimensions(file);
+ * if (size && size.width < 400) alert("Please choose a larger avatar");
+ * ```
+ */
+export async function getImageDimensions(file: Blob | Uint8Array): Promise<ImageDimensions | null> {
+  const blob = toBlob(file);
+  const sniffed = await sniffFileType(blob);
+  switch (sniffed?.mime) {
+    case "image/png":
+      return pngDimensions(await readAt(blob, 0, 24));
+    case "image/gif":
+      return gifDimensions(await readAt(blob, 0, 10));
+    case "image/webp":
+      return webpDimensions(await readAt(blob, 0, 30));
+    case "image/jpeg":
+      return jpegDimensions(blob);
+    default:
+      return null;
+  }
+}
+
+// --- Audio and video -----------------------------------------------------------
+
+/** WAV: data chunk size over the byte rate from the fmt chunk. */
+async function wavDuration(blob: Blob): Promise<number | null> {
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= blob.size) {
+    const chunk = await readAt(blob, offset, 20);
+    const id = ascii(chunk, 0, 4);
+    const size = view(chunk).getUint32(4, true);
+    // fmt: format (2), channels (2), sample rate (4), byte rate (4), ...
+    if (id === "fmt " && chunk.length >= 20) byteRate = view(chunk).getUint32(16, true);
+    if (id === "data") {
+      // Streams written before their length is known leave the size unset.
+      const dataSize = size === 0 || size === 0xffffffff ? blob.size - offset - 8 : size;
+      return byteRate > 0 ? dataSize / byteRate : null;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/** ISO base media: duration and timescale from moov/mvhd. */
+async function mp4Duration(blob: Blob): Promise<number | null> {
+  /** Find a box in [start, end) and return the range of its contents. */
+  const findBox = async (
+    type: string,
+    start: number,
+    end: number,
+  ): Promise<{ start: number; end: number } | null> => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const box = await readAt(blob, offset, 16);
+      let size = view(box).getUint32(0);
+      let headerSize = 8;
+      if (size === 1) {
+        size = readUint(box, 8, 8);
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < headerSize) return null;
+      if (ascii(box, 4, 8) === type) return { start: offset + headerSize, end: offset + size };
+      offset += size;
+    }
+    return null;
+  };
+
+  const moov = await findBox("moov", 0, blob.size);
+  if (moov == null) return null;
+  const mvhd = await findBox("mvhd", moov.start, moov.end);
+  if (mvhd == null) return null;
+  const header = await readAt(blob, mvhd.start, 32);
+  const version = header[0];
+  const timescale = view(header).getUint32(version === 1 ? 20 : 12);
+  const duration = version === 1 ? readUint(header, 24, 8) : view(header).getUint32(16);
+  return timescale > 0 ? duration / timescale : null;
+}
+
+/**
+ * EBML variable-length integer: length from the leading zeros of the first
+ * byte. Null when it does not fit in `bytes` (truncated input).
+ */
+function vint(
+  bytes: Bytes,
+  offset: number,
+  keepMarker: boolean,
+): { value: number; length: number } | null {
+  if (!Number.isInteger(offset) || offset < 0 || offset >= bytes.length) return null;
+  const first = bytes[offset];
+  // A zero first byte would need more than 8 length bits: not valid EBML.
+  if (!first) return { value: -1, length: 1 };
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (offset + length > bytes.length) return null;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let unknown = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xff) unknown = false;
+  }
+  return { value: !keepMarker && unknown ? -1 : value, length };
+}
+
+const EBML_SEGMENT = 0x18538067;
+const EBML_INFO = 0x1549a966;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_TIMECODE_SCALE = 0x2ad7b1;
+const EBML_DURATION = 0x4489;
+
+/** Matroska/WebM: Segment › Info › Duration, in TimecodeScale nanoseconds. */
+async function ebmlDuration(blob: Blob): Promise<number | null> {
+  const element = async (
+    offset: number,
+  ): Promise<{ id: number; size: number; dataStart: number } | null> => {
+    if (!Number.isFinite(offset) || offset < 0 || offset >= blob.size) return null;
+    const bytes = await readAt(blob, offset, 12);
+    const id = vint(bytes, 0, true);
+    const size = id && vint(bytes, id.length, false);
+    if (!id || !size) return null;
+    return { id: id.value, size: size.value, dataStart: offset + id.length + size.length };
+  };
+
+  // Skip the EBML header, then enter the Segment.
+  const ebml = await element(0);
+  if (!ebml || ebml.size < 0) return null;
+  const segment = await element(ebml.dataStart + ebml.size);
+  if (!segment || segment.id !== EBML_SEGMENT) return null;
+
+  let offset = segment.dataStart;
+  for (;;) {
+    const child = await element(offset);
+    if (!child || child.size < 0 || child.id === EBML_CLUSTER) return null;
+    if (child.id === EBML_INFO) {
+      const info = await readAt(blob, child.dataStart, child.size);
+      let scale = 1_000_000;
+      let duration: number | null = null;
+      for (let i = 0; i < info.length; ) {
+        const id = vint(info, i, true);
+        const size = id && vint(info, i + id.length, false);
+        if (!id || !size || size.value < 0) return null;
+        const start = i + id.length + size.length;
+        if (start + size.value > info.length) return null;
+        if (id.value === EBML_TIMECODE_SCALE) scale = readUint(info, start, size.value);
+        if (id.value === EBML_DURATION) {
+          const data = view(info.subarray(start, start + size.value));
+          duration = size.value === 4 ? data.getFloat32(0) : data.getFloat64(0);
+        }
+        i = start + size.value;
+      }
+      // MediaRecorder output has no Duration element.
+      return duration == null ? null : (duration * scale) / 1e9;
+    }
+    offset = child.dataStart + child.size;
+  }
+}
+
+/**
+ * Read the duration of an audio or video file from its container header.
+ * Supports MP4/MOV/M4A, WebM/Matroska and WAV.
+ *
+ * @param file - File, Blob or byte array
+ * @returns Duration in seconds, or null for other formats and headers without one
+ *   (e.g. WebM straight from MediaRecorder)
+ *
+ * @example
+ * ```ts
+ * const seconds = await getMediaDuration(file);
+ * if (seconds != null && seconds > 60) alert("Clips can be at most a minute long");
+ * ```
+ */
+export async function getMediaDuration(file: Blob | Uint8Array): Promise<number | null> {
+  const blob = toBlob(file);
+  const sniffed = await sniffFileType(blob);
+  switch (sniffed?.mime) {
+    case "audio/wav":
+      return wavDuration(blob);
+    case "video/mp4":
+    case "video/quicktime":
+    case "video/3gpp":
+    case "audio/mp4":
+      return mp4Duration(blob);
+    case "video/webm":
+    case "video/x-matroska":
+      return ebmlDuration(blob);
+    default:
+      return null;
+  }
+}
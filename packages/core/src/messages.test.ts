@@ -0,0 +1,91 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { ENGLISH_MESSAGES, registerLocale, setValidationLocale } from "./messages";
+import { formatValidationError } from "./validators";
+import type { ValidationError } from "./validators";
+
+const tooLarge: ValidationError = {
+  type: "size-too-large",
+  maxSize: 5_000_000,
+  actualSize: 10_000_000,
+};
+
+registerLocale("de", {
+  "size-too-large": "Datei ist zu groß ({actualSize}, höchstens {maxSize})",
+  "invalid-type": "Dateityp {actualType} ist nicht erlaubt. Erlaubt: {allowedTypes}",
+  "list-separator": " / ",
+  "too-many-files": ({ actualCount, maxFiles }) =>
+    `${actualCount} Dateien ausgewählt, ${maxFiles === "1" ? "eine ist" : `${maxFiles} sind`} erlaubt`,
+});
+
+describe("validation messages", () => {
+  afterEach(() => setValidationLocale("en"));
+
+  it("formats with a registered locale, sizes and numbers included", () => {
+    expect(formatValidationError(tooLarge, { locale: "de" })).toBe(
+      "Datei ist zu groß (9,54 MB, höchstens 4,77 MB)",
+    );
+    expect(formatValidationError(tooLarge, { locale: "de", units: "si" })).toBe(
+      "Datei ist zu groß (10 MB, höchstens 5 MB)",
+    );
+  });
+
+  it("joins type lists with the locale's separator", () => {
+    const error: ValidationError = {
+      type: "invalid-type",
+      allowedTypes: ["image/png", "image/jpeg"],
+      actualType: "text/plain",
+    };
+    expect(formatValidationError(error, { locale: "de" })).toBe(
+      "Dateityp text/plain ist nicht erlaubt. Erlaubt: image/png / image/jpeg",
+    );
+  });
+
+  it("supports function messages", () => {
+    const error: ValidationError = { type: "too-many-files", maxFiles: 1, actualCount: 3 };
+    expect(formatValidationError(error, { locale: "de" })).toBe(
+      "3 Dateien ausgewählt, eine ist erlaubt",
+    );
+  });
+
+  it("falls back from region to language to English", () => {
+    expect(formatValidationError(tooLarge, { locale: "de-AT" })).toMatch(/^Datei ist zu groß/);
+    expect(
+      formatValidationError({ type: "duplicate-file", duplicateOf: 1 }, { locale: "de" }),
+    ).toBe("File is a duplicate of file 2");
+    expect(formatValidationError(tooLarge, { locale: "fr" })).toBe(
+      "File size (9,54 MB) exceeds maximum allowed size (4,77 MB)",
+    );
+  });
+
+  it("uses the default locale and per-call overrides", () => {
+    setValidationLocale("de");
+    expect(formatValidationError(tooLarge)).toMatch(/^Datei ist zu groß/);
+    expect(
+      formatValidationError(tooLarge, {
+        messages: { "size-too-large": "Max {maxSize}" },
+      }),
+    ).toBe("Max 4,77 MB");
+  });
+
+  it("overrides single messages of a locale", () => {
+    registerLocale("de", { "duplicate-file": "Doppelt (wie Datei {duplicateOf})" });
+    expect(
+      formatValidationError({ type: "duplicate-file", duplicateOf: 0 }, { locale: "de" }),
+    ).toBe("Doppelt (wie Datei 1)");
+    expect(formatValidationError(tooLarge, { locale: "de" })).toMatch(/^Datei ist zu groß/);
+  });
+
+  it("falls back to overridden English messages", () => {
+    const error: ValidationError = {
+      type: "total-size-too-large",
+      maxTotalSize: 1,
+      actualSize: 2,
+    };
+    registerLocale("en", { "total-size-too-large": "Too much in total" });
+    try {
+      expect(formatValidationError(error, { locale: "de" })).toBe("Too much in total");
+    } finally {
+      registerLocale("en", { "total-size-too-large": ENGLISH_MESSAGES["total-size-too-large"] });
+    }
+  });
+});
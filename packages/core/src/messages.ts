@@ -0,0 +1,154 @@
+/**
+ * @uplnk/core/messages — Message catalogs for validation errors.
+ *
+ * Messages are templates with `{name}` placeholders, or functions of the
+ * already-formatted parameters for languages that need plural rules or
+ * different word order. Catalogs are looked up by exact locale, then by
+ * language ("pt-BR" → "pt"), then fall back to English.
+ */
+
+import type { ByteUnits } from "./format";
+
+/** Keys of the validation message catalog. */
+export type ValidationMessageKey =
+  | "size-too-large"
+  | "compressed-size-too-large"
+  | "size-too-small"
+  | "compressed-size-too-small"
+  | "invalid-type"
+  | "content-mismatch"
+  | "content-unrecognized"
+  | "dimensions-out-of-range"
+  | "min-width"
+  | "max-width"
+  | "min-height"
+  | "max-height"
+  | "duration-too-long"
+  | "duration-too-short"
+  | "dimensions-unreadable"
+  | "duration-unreadable"
+  | "duplicate-file"
+  | "too-many-files"
+  | "total-size-too-large"
+  | "quota-exceeded"
+  | "list-separator";
+
+/** A template with `{name}` placeholders, or a function of the formatted parameters. */
+export type ValidationMessage = string | ((params: Record<string, string>) => string);
+
+/** A complete message catalog. */
+export type ValidationMessages = Record<ValidationMessageKey, ValidationMessage>;
+
+/** Options for formatValidationError(). */
+export interface ValidationMessageOptions {
+  /** Catalog to use, and the locale for numbers. Default: the locale set with setValidationLocale(). */
+  locale?: string;
+  /** Per-call overrides of single messages. */
+  messages?: Partial<ValidationMessages>;
+  /** Unit system for sizes. Default: "legacy". */
+  units?: ByteUnits;
+}
+
+/**
+ * The built-in English catalog.
+ *
+ * Placeholders: sizes are formatted with formatBytes(), durations as m:ss,
+ * and `{allowedTypes}` is joined with the `list-separator` message.
+ */
+export const ENGLISH_MESSAGES: Readonly<ValidationMessages> = {
+  "size-too-large": "File size ({actualSize}) exceeds maximum allowed size ({maxSize})",
+  "compressed-size-too-large":
+    "Compressed size ({actualSize}) exceeds maximum allowed size ({maxSize})",
+  "size-too-small": "File size ({actualSize}) is below minimum required size ({minSize})",
+  "compressed-size-too-small":
+    "Compressed size ({actualSize}) is below minimum required size ({minSize})",
+  "invalid-type": 'File type "{actualType}" is not allowed. Allowed types: {allowedTypes}',
+  "content-mismatch": 'File content ({detectedType}) does not match its type "{declaredType}"',
+  "content-unrecognized": 'File content does not match its type "{declaredType}"',
+  "dimensions-out-of-range":
+    "Image dimensions ({width}×{height} px) are outside the allowed range ({limits})",
+  "min-width": "width at least {value} px",
+  "max-width": "width at most {value} px",
+  "min-height": "height at least {value} px",
+  "max-height": "height at most {value} px",
+  "duration-too-long":
+    "Duration ({actualDuration}) exceeds maximum allowed duration ({maxDuration})",
+  "duration-too-short":
+    "Duration ({actualDuration}) is below minimum required duration ({minDuration})",
+  "dimensions-unreadable": "Could not read the image dimensions",
+  "duration-unreadable": "Could not read the media duration",
+  "duplicate-file": "File is a duplicate of file {duplicateOf}",
+  "too-many-files": "Too many files ({actualCount}); at most {maxFiles} allowed",
+  "total-size-too-large":
+    "Total size ({actualSize}) exceeds maximum allowed total ({maxTotalSize})",
+  "quota-exceeded": "Too many {preset} ({actualCount}); at most {max} allowed",
+  "list-separator": ", ",
+};
+
+const catalogs = new Map<string, Partial<ValidationMessages>>([["en", ENGLISH_MESSAGES]]);
+let defaultLocale = "en";
+
+/**
+ * Register messages for a locale. Registering again merges into the
+ * existing catalog, so a single message can be overridden — including
+ * the built-in English ones. Missing messages fall back to English.
+ *
+ * @param locale - BCP 47 tag, e.g. "de" or "pt-BR"
+ * @param messages - Messages to add or replace
+ *
+ * @example
+ * ```ts
+ * registerLocale("de", {
+ *   "size-too-large": "Datei ist zu groß ({actualSize}, höchstens {maxSize})",
+ *   "too-many-files": ({ maxFiles }) => `Höchstens ${maxFiles} Dateien erlaubt`,
+ * });
+ * registerLocale("en", { "duplicate-file": "You already picked this file" });
+ * ```
+ */
+export function registerLocale(locale: string, messages: Partial<ValidationMessages>): void {
+  const key = locale.toLowerCase();
+  catalogs.set(key, { ...catalogs.get(key), ...messages });
+}
+
+/**
+ * Set the locale formatValidationError() uses when none is passed.
+ *
+ * @param locale - BCP 47 tag; "en" restores the default
+ *
+ * @example
+ * ```ts
+ * setValidationLocale(navigator.language);
+ * ```
+ */
+export function setValidationLocale(locale: string): void {
+  defaultLocale = locale;
+}
+
+/** @internal The locale to format with when the caller gave none. */
+export function getValidationLocale(): string {
+  return defaultLocale;
+}
+
+/** @internal Look up a message by exact locale, then language, then registered English. */
+export function lookupMessage(
+  key: ValidationMessageKey,
+  locale: string,
+  overrides?: Partial<ValidationMessages>,
+): ValidationMessage {
+  const tag = locale.toLowerCase();
+  return (
+    overrides?.[key] ??
+    catalogs.get(tag)?.[key] ??
+    catalogs.get(tag.split("-")[0])?.[key] ??
+    catalogs.get("en")?.[key] ??
+    ENGLISH_MESSAGES[key]
+  );
+}
+
+/** @internal Fill in `{name}` placeholders; unknown names are left as written. */
+export function renderMessage(message: ValidationMessage, params: Record<string, string>): string {
+  if (typeof message === "function") return message(params);
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(params, name) ? params[name] : match,
+  );
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from "vitest";
+import { multipartUpload, planParts } from "./multipart";
+import { fixedDelay } from "./retry-strategies";
+import { createPartTransport } from "./test-transports";
+import type { UploadTransport, UploadProgress } from "@uplnk/types";
+
+describe("planParts", () => {
+  it("splits a size into ranges with a short last part", () => {
+    expect(planParts(25, 10)).toEqual([
+      { partNumber: 1, start: 0, end: 10 },
+      { partNumber: 2, start: 10, end: 20 },
+      { partNumber: 3, start: 20, end: 25 },
+    ]);
+  });
+
+  it("plans a single empty part for an empty file", () => {
+    expect(planParts(0, 10)).toEqual([{ partNumber: 1, start: 0, end: 0 }]);
+  });
+
+  it("rejects more than 10000 parts", () => {
+    expect(() => planParts(10001, 1)).toThrow("increase partSize");
+  });
+});
+
+describe("multipartUpload", () => {
+  const file = new Blob(["x".repeat(25)]);
+
+  it("uploads every part and completes with ordered ETags", async () => {
+    const transport = createPartTransport();
+    const complete = vi.fn();
+
+    const result = await multipartUpload({
+      file,
+      partSize: 10,
+      concurrency: 2,
+      transport,
+      signPart: async (n) => `https://bucket/part-${n}`,
+      complete,
+    });
+
+    expect(transport.requests.map((r) => (r.body as Blob).size).sort()).toEqual([10, 10, 5]);
+    expect(transport.requests.every((r) => r.method === "PUT")).toBe(true);
+    expect(complete).toHaveBeenCalledWith([
+      { partNumber: 1, etag: '"etag-https://bucket/part-1"', size: 10 },
+      { partNumber: 2, etag: '"etag-https://bucket/part-2"', size: 10 },
+      { partNumber: 3, etag: '"etag-https://bucket/part-3"', size: 5 },
+    ]);
+    expect(result.parts).toHaveLength(3);
+  });
+
+  it("never runs more parts than the concurrency limit", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const inner = createPartTransport();
+    const transport: UploadTransport = {
+      name: "slow",
+      async send(request) {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((r) => setTimeout(r, 5));
+        active--;
+        return inner.send(request);
+      },
+    };
+
+    await multipartUpload({
+      file: new Blob(["x".repeat(100)]),
+      partSize: 10,
+      concurrency: 3,
+      transport,
+      signPart: (n) => `https://bucket/part-${n}`,
+      complete: () => {},
+    });
+
+    expect(maxActive).toBe(3);
+  });
+
+  it("passes signed headers to the part request", async () => {
+    const transport = createPartTransport();
+
+    await multipartUpload({
+      file,
+      partSize: 100,
+      transport,
+      headers: { "x-common": "1" },
+      signPart: (n) => ({ url: `https://bucket/part-${n}`, headers: { "x-amz-acl": "private" } }),
+      complete: () => {},
+    });
+
+    expect(transport.requests[0].headers).toEqual({ "x-common": "1", "x-amz-acl": "private" });
+  });
+
+  it("reports aggregated progress across parts", async () => {
+    const events: UploadProgress[] = [];
+
+    await multipartUpload({
+      file,
+      partSize: 10,
+      transport: createPartTransport(),
+      progress: { throttleMs: 0 },
+      signPart: (n) => `https://bucket/part-${n}`,
+      complete: () => {},
+      onProgress: (p) => events.push(p),
+    });
+
+    expect(events[0]).toMatchObject({ loaded: 0, total: 25, percent: 0 });
+    expect(events.at(-1)).toMatchObject({ loaded: 25, total: 25, percent: 100 });
+    const loaded = events.map((e) => e.loaded);
+    expect(loaded).toEqual([...loaded].sort((a, b) => a - b));
+  });
+
+  it("retries a failed part with the retry options", async () => {
+    const transport = createPartTransport({ failFirst: new Set(["https://bucket/part-2"]) });
+
+    await multipartUpload({
+      file,
+      partSize: 10,
+      transport,
+      retry: fixedDelay({ delayMs: 0 }),
+      signPart: (n) => `https://bucket/part-${n}`,
+      complete: () => {},
+    });
+
+    expect(transport.requests.filter((r) => r.url.endsWith("part-2"))).toHaveLength(2);
+  });
+
+  it("aborts the upload and rejects when a part fails", async () => {
+    const abort = vi.fn();
+    const complete = vi.fn();
+
+    await expect(
+      multipartUpload({
+        file,
+        partSize: 10,
+        transport: createPartTransport({ failFirst: new Set(["https://bucket/part-1"]) }),
+        signPart: (n) => `https://bucket/part-${n}`,
+        complete,
+        abort,
+      }),
+    ).rejects.toMatchObject({ type: "http", status: 503 });
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it("fails with a helpful error when the ETag is not exposed", async () => {
+    await expect(
+      multipartUpload({
+        file,
+        partSize: 100,
+        transport: createPartTransport({ omitEtag: true }),
+        signPart: (n) => `https://bucket/part-${n}`,
+        complete: () => {},
+      }),
+    ).rejects.toThrow("CORS");
+  });
+
+  it("rejects with abort and calls abort() when the signal fires", async () => {
+    const controller = new AbortController();
+    const abort = vi.fn();
+
+    const p = multipartUpload({
+      file,
+      partSize: 10,
+      transport: createPartTransport(),
+      signal: controller.signal,
+      signPart: async (n) => {
+        controller.abort();
+        return `https://bucket/part-${n}`;
+      },
+      complete: () => {},
+      abort,
+    });
+
+    await expect(p).rejects.toMatchObject({ type: "abort" });
+    expect(abort).toHaveBeenCalledTimes(1);
+  });
+});
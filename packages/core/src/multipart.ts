@@ -0,0 +1,298 @@
+/**
+ * @uplnk/core/multipart — S3-compatible multipart uploads with presigned part URLs.
+ */
+
+import { uplnk } from "./index";
+import { UplnkError } from "./errors";
+import { createSpeedMeter } from "./estimator";
+import { resolveEncryptor, encryptionInfo } from "./encryption";
+import { toRateLimiter } from "./rate-limit";
+import type {
+  UploadProgress,
+  ProgressOptions,
+  RetryOptions,
+  RetryEvent,
+  UploadTransport,
+  EncryptionOptions,
+  EncryptedBody,
+  EncryptionInfo,
+  Encryptor,
+  RateLimiter,
+} from "@uplnk/types";
+
+/** S3 maximum number of parts per upload. */
+export const MAX_PARTS = 10000;
+
+/** A part that has been uploaded, as needed by CompleteMultipartUpload. */
+export interface CompletedPart {
+  /** 1-based part number. */
+  partNumber: number;
+  /** ETag returned by the storage provider for this part. */
+  etag: string;
+  /** Size of the part in bytes. */
+  size: number;
+}
+
+/** Signed URL for a part, optionally with headers the signature requires. */
+export type SignedPart = string | { url: string; headers?: Record<string, string> };
+
+/** Options for a multipart upload. */
+export interface MultipartUploadOptions {
+  /** File or blob to upload. */
+  file: Blob;
+  /** Return a presigned URL for the given 1-based part number. */
+  signPart: (partNumber: number) => Promise<SignedPart> | SignedPart;
+  /** Complete the upload (CompleteMultipartUpload) with the uploaded parts, in order. */
+  complete: (parts: CompletedPart[]) => Promise<void> | void;
+  /** Abort the upload (AbortMultipartUpload) after a failure or cancellation. */
+  abort?: () => Promise<void> | void;
+
+  /** Part size in bytes. S3 requires at least 5 MiB for all but the last part. Default: 8 MiB. */
+  partSize?: number;
+  /** Parts already uploaded in an earlier session; they are skipped and passed to `complete`. */
+  completedParts?: CompletedPart[];
+  /** Maximum number of parts uploaded at once. Default: 4. */
+  concurrency?: number;
+  /** Extra headers sent with every part. */
+  headers?: Record<string, string>;
+  /** Transport used for part uploads. */
+  transport?: UploadTransport;
+  /** Retry configuration, applied to each part independently. */
+  retry?: RetryOptions;
+  /** Called when a failed part attempt will be retried, before waiting `delayMs`. */
+  onRetry?: (event: RetryEvent & { partNumber: number }) => void;
+  /** Abort signal to cancel the upload. */
+  signal?: AbortSignal;
+  /** Abort a single part attempt after this many ms. */
+  timeoutMs?: number;
+  /**
+   * Bandwidth limit in bytes per second, or a shared RateLimiter, across all
+   * parts. Each part is paced as the transport sends it, so with XHR a
+   * smaller `partSize` paces the file more evenly.
+   */
+  rateLimit?: number | RateLimiter;
+  /**
+   * Encrypt the file with segmented AES-GCM; parts are ranges of the
+   * ciphertext, each encrypted when it is sent. Call `createEncryptor()`
+   * first to store its `headers` as object metadata in
+   * CreateMultipartUpload, and pass that same result when resuming so parts
+   * from both sessions share one ciphertext.
+   */
+  encrypt?: EncryptionOptions | EncryptedBody | Encryptor;
+
+  /** Progress reporting options. */
+  progress?: ProgressOptions;
+  /** Aggregated progress across all parts. */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Called when a part finishes uploading. */
+  onPartComplete?: (part: CompletedPart) => void;
+  /** Awaited before each part starts; the worker waits meanwhile (e.g. to pause). */
+  beforePart?: (partNumber: number) => Promise<void> | void;
+}
+
+/** Result of a multipart upload. */
+export interface MultipartUploadResult {
+  /** Uploaded parts, ordered by part number. */
+  parts: CompletedPart[];
+  /** Encryption metadata, when `encrypt` was set. */
+  encryption?: EncryptionInfo;
+}
+
+/** Default part size (8 MiB). */
+export const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_THROTTLE_MS = 100;
+
+/**
+ * Split a size into part ranges.
+ *
+ * @internal
+ */
+export function planParts(
+  size: number,
+  partSize: number,
+): Array<{ partNumber: number; start: number; end: number }> {
+  const count = Math.max(1, Math.ceil(size / partSize));
+  if (count > MAX_PARTS) {
+    throw new Error(`uplnk: ${count} parts exceeds the limit of ${MAX_PARTS}; increase partSize`);
+  }
+  return Array.from({ length: count }, (_, i) => ({
+    partNumber: i + 1,
+    start: i * partSize,
+    end: Math.min(size, (i + 1) * partSize),
+  }));
+}
+
+/**
+ * Upload a large Blob as an S3-compatible multipart upload. Parts are signed
+ * on demand through `signPart`, uploaded with bounded concurrency and retried
+ * independently; their ETags are handed to `complete` at the end.
+ *
+ * The bucket's CORS configuration must expose the `ETag` header.
+ *
+ * @param options - Multipart upload options
+ * @returns The uploaded parts
+ *
+ * @example
+ * ```ts
+ * const { uploadId, key } = await api.createMultipartUpload(file.name);
+ *
+ * await multipartUpload({
+ *   file,
+ *   partSize: 16 * 1024 * 1024,
+ *   concurrency: 4,
+ *   signPart: (partNumber) => api.signPart({ key, uploadId, partNumber }),
+ *   complete: (parts) => api.completeMultipartUpload({ key, uploadId, parts }),
+ *   abort: () => api.abortMultipartUpload({ key, uploadId }),
+ *   retry: exponentialBackoff(),
+ *   onProgress: (p) => console.log(`${p.percent?.toFixed(1)}%`),
+ * });
+ * ```
+ */
+export async function multipartUpload(
+  options: MultipartUploadOptions,
+): Promise<MultipartUploadResult> {
+  const {
+    signPart,
+    complete,
+    abort,
+    partSize = DEFAULT_PART_SIZE,
+    concurrency = DEFAULT_CONCURRENCY,
+    headers = {},
+    transport,
+    retry,
+    signal,
+    timeoutMs,
+    onProgress,
+    onPartComplete,
+    onRetry,
+    beforePart,
+  } = options;
+  const { throttleMs = DEFAULT_THROTTLE_MS } = options.progress ?? {};
+
+  if (signal?.aborted) {
+    throw new UplnkError({ type: "abort" });
+  }
+  const { file } = options;
+  // Parts are ranges of the ciphertext, each encrypted when it is sent;
+  // progress is reported in plaintext bytes.
+  const encrypted = options.encrypt ? await resolveEncryptor(options.encrypt, file) : undefined;
+  const size = encrypted ? encrypted.size : file.size;
+  const plan = planParts(size, partSize);
+  const completed: CompletedPart[] = [...(options.completedParts ?? [])];
+  const partLoaded = new Map<number, number>(completed.map((p) => [p.partNumber, p.size]));
+  const controller = new AbortController();
+  // One limiter for every part, so concurrent parts share the budget.
+  const limiter = toRateLimiter(options.rateLimit);
+  let lastEmit = 0;
+  let failure: unknown;
+  const meter = createSpeedMeter(
+    options.progress,
+    onProgress ? () => emitProgress(true) : undefined,
+  );
+
+  const emitProgress = (force: boolean): void => {
+    if (!onProgress) return;
+    let loaded = 0;
+    for (const bytes of partLoaded.values()) loaded += bytes;
+    const total = encrypted ? encrypted.sourceSize : file.size;
+    const source = encrypted ? encrypted.toSourceBytes(loaded) : loaded;
+    const progress = meter.annotate({
+      loaded: source,
+      total,
+      percent: total > 0 ? Math.min(100, (source / total) * 100) : 100,
+      ...(encrypted && { wireLoaded: loaded, wireTotal: size }),
+    });
+
+    const now = Date.now();
+    if (!force && now - lastEmit < throttleMs) return;
+    lastEmit = now;
+    onProgress(progress);
+  };
+
+  const onAbort = (): void => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+
+  const uploadPart = async (part: (typeof plan)[number]): Promise<void> => {
+    const signed = await signPart(part.partNumber);
+    const target = typeof signed === "string" ? { url: signed } : signed;
+    const body = encrypted
+      ? await encrypted.read(part.start, part.end, controller.signal)
+      : file.slice(part.start, part.end);
+    const { headers: responseHeaders } = await uplnk({
+      url: target.url,
+      file: body,
+      method: "PUT",
+      headers: { ...headers, ...target.headers },
+      transport,
+      retry,
+      onRetry: onRetry && ((event) => onRetry({ ...event, partNumber: part.partNumber })),
+      signal: controller.signal,
+      timeoutMs,
+      rateLimit: limiter,
+      progress: { throttleMs: 0, emitOnStart: true, emitOnEnd: true },
+      onProgress: (p) => {
+        partLoaded.set(part.partNumber, p.loaded);
+        emitProgress(false);
+      },
+    });
+
+    const etag = responseHeaders["etag"];
+    if (!etag) {
+      throw new Error(
+        `uplnk: part ${part.partNumber} response has no ETag header; ` +
+          "expose ETag in the bucket's CORS configuration",
+      );
+    }
+    const result: CompletedPart = {
+      partNumber: part.partNumber,
+      etag,
+      size: part.end - part.start,
+    };
+    completed.push(result);
+    onPartComplete?.(result);
+  };
+
+  const done = new Set(completed.map((p) => p.partNumber));
+  const queue = plan.filter((part) => !done.has(part.partNumber));
+  const worker = async (): Promise<void> => {
+    while (queue.length > 0 && failure === undefined) {
+      const part = queue.shift();
+      if (!part) break;
+      try {
+        await beforePart?.(part.partNumber);
+        await uploadPart(part);
+      } catch (err) {
+        if (failure === undefined) failure = err;
+        controller.abort();
+      }
+    }
+  };
+
+  try {
+    emitProgress(true);
+    await Promise.all(Array.from({ length: Math.min(concurrency, plan.length) }, () => worker()));
+
+    if (failure === undefined && signal?.aborted) {
+      failure = new UplnkError({ type: "abort" });
+    }
+    if (failure !== undefined) {
+      try {
+        await abort?.();
+      } catch {
+        // Best effort: the part failure is the error worth reporting.
+      }
+      throw failure;
+    }
+
+    completed.sort((a, b) => a.partNumber - b.partNumber);
+    await complete(completed);
+    emitProgress(true);
+    return encrypted
+      ? { parts: completed, encryption: encryptionInfo(encrypted) }
+      : { parts: completed };
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    meter.stop();
+  }
+}
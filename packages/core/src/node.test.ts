@@ -0,0 +1,169 @@
+// @vitest-environment node
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtemp, writeFile, rm } from "node:fs/promises";
+import { createReadStream } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { uplnk } from "./index";
+import { nodeTransport } from "./node";
+import { fixedDelay } from "./retry-strategies";
+import type { UploadProgress } from "@uplnk/types";
+
+describe("nodeTransport", () => {
+  let server: Server;
+  let baseUrl: string;
+  let dir: string;
+  let filePath: string;
+  const received: Array<{
+    method?: string;
+    url?: string;
+    headers: Record<string, unknown>;
+    bytes: number;
+  }> = [];
+  let failuresLeft = 0;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let bytes = 0;
+      req.on("data", (chunk: Buffer) => {
+        bytes += chunk.length;
+      });
+      req.on("end", () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers, bytes });
+        if (failuresLeft > 0) {
+          failuresLeft--;
+          res.writeHead(503).end("busy");
+          return;
+        }
+        res.writeHead(req.url === "/denied" ? 403 : 200, { ETag: '"abc"' }).end("stored");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    dir = await mkdtemp(join(tmpdir(), "uplnk-"));
+    filePath = join(dir, "artifact.bin");
+    await writeFile(filePath, Buffer.alloc(200_000, 1));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("uploads a file path with Content-Length and progress", async () => {
+    const events: UploadProgress[] = [];
+
+    await uplnk({
+      url: `${baseUrl}/path`,
+      file: filePath,
+      transport: nodeTransport(),
+      progress: { throttleMs: 0 },
+      onProgress: (p) => events.push(p),
+    });
+
+    const request = received.find((r) => r.url === "/path");
+    expect(request?.bytes).toBe(200_000);
+    expect(request?.headers["content-length"]).toBe("200000");
+    expect(events[0]).toMatchObject({ loaded: 0, total: 200_000, percent: 0 });
+    expect(events.at(-1)).toMatchObject({ loaded: 200_000, total: 200_000, percent: 100 });
+    expect(events.length).toBeGreaterThan(2);
+  });
+
+  it("uploads a Buffer", async () => {
+    await uplnk({
+      url: `${baseUrl}/buffer`,
+      file: Buffer.from("hello world"),
+      method: "POST",
+      transport: nodeTransport(),
+    });
+
+    const request = received.find((r) => r.url === "/buffer");
+    expect(request).toMatchObject({ method: "POST", bytes: 11 });
+  });
+
+  it("uploads a Readable and stats fs streams for the size", async () => {
+    const events: UploadProgress[] = [];
+
+    await uplnk({
+      url: `${baseUrl}/stream`,
+      file: createReadStream(filePath),
+      transport: nodeTransport(),
+      progress: { throttleMs: 0 },
+      onProgress: (p) => events.push(p),
+    });
+
+    expect(events[0].total).toBe(200_000);
+    expect(received.find((r) => r.url === "/stream")?.bytes).toBe(200_000);
+  });
+
+  it("uploads a generic Readable with chunked encoding", async () => {
+    await uplnk({
+      url: `${baseUrl}/generic`,
+      file: Readable.from([Buffer.from("abc"), Buffer.from("def")]),
+      transport: nodeTransport(),
+    });
+
+    const request = received.find((r) => r.url === "/generic");
+    expect(request?.bytes).toBe(6);
+    expect(request?.headers["transfer-encoding"]).toBe("chunked");
+  });
+
+  it("exposes response headers on the request handle", async () => {
+    let etag: string | null = null;
+
+    await uplnk({
+      url: `${baseUrl}/headers`,
+      file: Buffer.from("x"),
+      transport: nodeTransport(),
+      onResponse: (request) => {
+        etag = request.getResponseHeader("ETag");
+      },
+    });
+
+    expect(etag).toBe('"abc"');
+  });
+
+  it("rejects with an http error", async () => {
+    await expect(
+      uplnk({ url: `${baseUrl}/denied`, file: Buffer.from("x"), transport: nodeTransport() }),
+    ).rejects.toMatchObject({ type: "http", status: 403, response: "stored" });
+  });
+
+  it("retries a file path upload", async () => {
+    failuresLeft = 1;
+
+    await uplnk({
+      url: `${baseUrl}/retry`,
+      file: filePath,
+      transport: nodeTransport(),
+      retry: fixedDelay({ delayMs: 0 }),
+    });
+
+    const attempts = received.filter((r) => r.url === "/retry");
+    expect(attempts.map((r) => r.bytes)).toEqual([200_000, 200_000]);
+  });
+
+  it("rejects with abort when the signal fires", async () => {
+    const controller = new AbortController();
+    const p = uplnk({
+      url: `${baseUrl}/abort`,
+      file: filePath,
+      transport: nodeTransport(),
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(p).rejects.toMatchObject({ type: "abort" });
+  });
+
+  it("rejects with a network error when the server is unreachable", async () => {
+    await expect(
+      uplnk({ url: "http://127.0.0.1:1/", file: Buffer.from("x"), transport: nodeTransport() }),
+    ).rejects.toMatchObject({ type: "network" });
+  });
+});
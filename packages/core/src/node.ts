@@ -0,0 +1,226 @@
+/**
+ * @uplnk/core/node — Node.js transport (node:http / node:https).
+ * Uploads from file paths, Buffers and Readable streams.
+ */
+
+import { request as httpRequest } from "node:http";
+import type { Agent, ClientRequest, IncomingMessage, OutgoingHttpHeaders } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { isStreamBody } from "./streams";
+import type {
+  UploadBody,
+  UploadTransport,
+  TransportRequest,
+  TransportResponse,
+  UploadRequest,
+  UploadError,
+} from "@uplnk/types";
+
+/** Options for the Node transport. */
+export interface NodeTransportOptions {
+  /** HTTP(S) agent, e.g. for keep-alive or proxies. */
+  agent?: Agent;
+  /** Chunk size in bytes when reading files and Buffers. Default: 65536. */
+  chunkSize?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+interface ResolvedBody {
+  stream: Readable;
+  size?: number;
+  type?: string;
+}
+
+function* bufferChunks(buffer: Uint8Array, chunkSize: number): Generator<Uint8Array> {
+  for (let offset = 0; offset < buffer.byteLength; offset += chunkSize) {
+    yield buffer.subarray(offset, offset + chunkSize);
+  }
+}
+
+async function resolveBody(body: UploadBody, chunkSize: number): Promise<ResolvedBody> {
+  if (typeof body === "string") {
+    const { size } = await stat(body);
+    return { stream: createReadStream(body, { highWaterMark: chunkSize }), size };
+  }
+  if (body instanceof Uint8Array) {
+    return { stream: Readable.from(bufferChunks(body, chunkSize)), size: body.byteLength };
+  }
+  if (body instanceof Blob) {
+    return {
+      stream: Readable.fromWeb(body.stream() as Parameters<typeof Readable.fromWeb>[0]),
+      size: body.size,
+      type: body.type || undefined,
+    };
+  }
+  if (isStreamBody(body)) return { stream: Readable.from(body), size: body.size };
+  if (body instanceof Readable) {
+    if (body.readableDidRead || body.destroyed) {
+      throw new Error("uplnk: a Readable body cannot be replayed; pass a file path to retry");
+    }
+    // fs.createReadStream() exposes its path, so the size is still knowable.
+    const path = (body as Readable & { path?: unknown }).path;
+    const size = typeof path === "string" ? (await stat(path)).size : undefined;
+    return { stream: body, size };
+  }
+  return { stream: Readable.from(body) };
+}
+
+function normalizeHeaders(headers: IncomingMessage["headers"]): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value == null) continue;
+    record[name.toLowerCase()] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return record;
+}
+
+/**
+ * Create a transport for Node.js built on node:http and node:https. Accepts
+ * a file path, a Buffer/Uint8Array, a Blob or a Readable as `options.file`;
+ * sizes are read with `fs.stat` so progress reports `total`, `speed` and `eta`.
+ *
+ * Readable streams can only be read once, so retries need a file path or Buffer.
+ *
+ * @example
+ * ```ts
+ * import { uplnk, exponentialBackoff } from "@uplnk/core";
+ * import { nodeTransport } from "@uplnk/core/node";
+ *
+ * await uplnk({
+ *   url: signedUrl,
+ *   file: "./dist/app.tar.gz",
+ *   transport: nodeTransport(),
+ *   retry: exponentialBackoff(),
+ *   onProgress: (p) => console.log(`${p.percent?.toFixed(1)}%`),
+ * });
+ * ```
+ */
+export function nodeTransport(options: NodeTransportOptions = {}): UploadTransport {
+  const { agent, chunkSize = DEFAULT_CHUNK_SIZE } = options;
+
+  return {
+    name: "node",
+    async send(request: TransportRequest): Promise<TransportResponse> {
+      const { url, method, signal } = request;
+      const { stream, size, type } = await resolveBody(request.body, chunkSize);
+      const headers: Record<string, string> = { ...request.headers };
+      let req: ClientRequest | undefined;
+      let res: IncomingMessage | undefined;
+      const chunks: Buffer[] = [];
+      let responseText = "";
+      let aborted = false;
+
+      const handle: UploadRequest = {
+        transport: "node",
+        method,
+        url,
+        bodySize: size,
+        get status() {
+          return res?.statusCode ?? 0;
+        },
+        get responseText() {
+          return responseText;
+        },
+        setRequestHeader: (name, value) => {
+          headers[name] = value;
+        },
+        getResponseHeader: (name) =>
+          res ? (normalizeHeaders(res.headers)[name.toLowerCase()] ?? null) : null,
+        getResponseHeaders: () => (res ? normalizeHeaders(res.headers) : {}),
+        abort: () => {
+          aborted = true;
+          req?.destroy();
+          stream.destroy();
+        },
+        get raw() {
+          return req;
+        },
+      };
+      request.onStart?.(handle);
+
+      const hasHeader = (name: string): boolean =>
+        Object.keys(headers).some((h) => h.toLowerCase() === name);
+      if (size != null && !hasHeader("content-length")) headers["Content-Length"] = String(size);
+      if (type && !hasHeader("content-type")) headers["Content-Type"] = type;
+
+      return new Promise<TransportResponse>((resolve, reject) => {
+        let settled = false;
+
+        const settle = (err: UploadError | null): void => {
+          if (settled) return;
+          settled = true;
+          signal.removeEventListener("abort", onAbort);
+          if (err) {
+            req?.destroy();
+            stream.destroy();
+            reject(err);
+          } else {
+            const data = Buffer.concat(chunks);
+            responseText = data.toString("utf8");
+            resolve({
+              status: res?.statusCode ?? 0,
+              headers: res ? normalizeHeaders(res.headers) : {},
+              responseText,
+              body: request.responseType === "blob" ? new Blob([data]) : undefined,
+            });
+          }
+        };
+
+        const onAbort = (): void => {
+          aborted = true;
+          settle({ type: "abort" });
+        };
+
+        if (signal.aborted || aborted) {
+          settle({ type: "abort" });
+          return;
+        }
+        signal.addEventListener("abort", onAbort);
+
+        const send = url.startsWith("https:") ? httpsRequest : httpRequest;
+        req = send(url, { method, headers: headers as OutgoingHttpHeaders, agent });
+
+        req.on("response", (response) => {
+          res = response;
+          response.on("data", (chunk: Buffer) => chunks.push(chunk));
+          response.on("end", () => settle(null));
+          response.on("error", () => settle(aborted ? { type: "abort" } : { type: "network" }));
+        });
+        req.on("error", () => settle(aborted ? { type: "abort" } : { type: "network" }));
+
+        let loaded = 0;
+        // Returns false when the request applied backpressure; "drain" resumes the stream.
+        const write = (bytes: Buffer): boolean => {
+          loaded += bytes.byteLength;
+          const flushed = req?.write(bytes) ?? false;
+          if (!flushed) {
+            stream.pause();
+            req?.once("drain", () => stream.resume());
+          }
+          request.onUploadProgress?.(loaded, size);
+          return flushed;
+        };
+        stream.on("data", (chunk: Buffer | string) => {
+          const bytes = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+          if (!request.pace) {
+            write(bytes);
+            return;
+          }
+          stream.pause();
+          request.pace(bytes.byteLength).then(
+            () => {
+              if (!settled && write(bytes)) stream.resume();
+            },
+            () => settle({ type: "abort" }),
+          );
+        });
+        stream.on("end", () => req?.end());
+        stream.on("error", () => settle(aborted ? { type: "abort" } : { type: "network" }));
+      });
+    },
+  };
+}
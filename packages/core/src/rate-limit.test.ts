@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { uplnk, xhrTransport } from "./index";
+import { batchUpload } from "./batch";
+import { createRateLimiter } from "./rate-limit";
+import { tusUpload } from "./tus";
+import { multipartUpload } from "./multipart";
+import type { UploadTransport } from "@uplnk/types";
+
+/** A transport that paces the body in `chunk`-byte pieces and records when each was sent. */
+function pacedTransport(sent: Array<[string, number]>, chunk = 500): UploadTransport {
+  return {
+    name: "fake",
+    async send(request) {
+      const size = (request.body as Blob).size;
+      for (let offset = 0; offset < size; offset += chunk) {
+        await request.pace?.(Math.min(chunk, size - offset));
+        sent.push([request.url, Date.now()]);
+      }
+      return { status: 200, headers: {}, responseText: "" };
+    },
+  };
+}
+
+describe("createRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("lets a burst through, then paces to the rate", async () => {
+    const limiter = createRateLimiter(1000);
+    const times: number[] = [];
+    const start = Date.now();
+    const all = [1000, 500, 500].map((bytes) =>
+      limiter.take(bytes).then(() => times.push(Date.now() - start)),
+    );
+    await vi.runAllTimersAsync();
+    await Promise.all(all);
+
+    expect(times).toEqual([0, 500, 1000]);
+  });
+
+  it("serves waiters in order", async () => {
+    const limiter = createRateLimiter(100, { burst: 100 });
+    const order: string[] = [];
+    const all = ["a", "b", "c"].map((name) => limiter.take(100).then(() => order.push(name)));
+    await vi.runAllTimersAsync();
+    await Promise.all(all);
+
+    expect(order).toEqual(["a", "b", "c"]);
+  });
+
+  it("applies setRate to a waiting take", async () => {
+    const limiter = createRateLimiter(100, { burst: 100 });
+    await limiter.take(1100);
+    const done = vi.fn();
+    void limiter.take(1).then(done);
+
+    // At 100 B/s the 1000-byte debt takes 10 s; at 1000 B/s it takes 1 s.
+    await vi.advanceTimersByTimeAsync(500);
+    limiter.setRate(1000);
+    expect(limiter.bytesPerSecond).toBe(1000);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it("rejects a waiting take when its signal aborts", async () => {
+    const limiter = createRateLimiter(100, { burst: 100 });
+    await limiter.take(1000);
+    const controller = new AbortController();
+    const p = limiter.take(1, controller.signal);
+    controller.abort();
+
+    await expect(p).rejects.toEqual({ type: "abort" });
+  });
+
+  it("rejects rates that are not positive", () => {
+    expect(() => createRateLimiter(0)).toThrow(RangeError);
+    expect(() => createRateLimiter(1000).setRate(-1)).toThrow(RangeError);
+  });
+});
+
+describe("rateLimit option", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("paces uplnk() through the transport", async () => {
+    const sent: Array<[string, number]> = [];
+    const start = Date.now();
+    const p = uplnk({
+      url: "https://example.com/a",
+      file: new Blob(["x".repeat(2000)]),
+      transport: pacedTransport(sent),
+      rateLimit: 1000,
+    });
+    await vi.runAllTimersAsync();
+    await p;
+
+    expect(sent.map(([, time]) => time - start)).toEqual([0, 0, 500, 1000]);
+  });
+
+  it("shares one budget across a batch", async () => {
+    const sent: Array<[string, number]> = [];
+    const start = Date.now();
+    const transport = pacedTransport(sent);
+    const file = new Blob(["x".repeat(1000)]);
+    const p = batchUpload(
+      [
+        { url: "https://example.com/a", file, transport },
+        { url: "https://example.com/b", file, transport },
+      ],
+      { rateLimit: 1000 },
+    );
+    await vi.runAllTimersAsync();
+    await p;
+
+    // 2000 bytes at 1000 B/s with a 1000-byte burst: the last chunk goes at 1 s.
+    expect(Math.max(...sent.map(([, time]) => time - start))).toBe(1000);
+  });
+});
+
+describe("rateLimit with the xhr transport", () => {
+  const sent: Array<[Blob, number]> = [];
+
+  /** Records when each body is sent and responds right away. */
+  class RecordingXHR {
+    status = 0;
+    responseText = "";
+    withCredentials = false;
+    upload = { addEventListener: () => {} };
+    private listeners: Record<string, () => void> = {};
+    open(): void {}
+    setRequestHeader(): void {}
+    getAllResponseHeaders(): string {
+      return "";
+    }
+    addEventListener(type: string, listener: () => void): void {
+      this.listeners[type] = listener;
+    }
+    abort(): void {}
+    send(body: Blob): void {
+      sent.push([body, Date.now()]);
+      this.status = 200;
+      this.listeners.load?.();
+    }
+  }
+
+  beforeEach(() => {
+    sent.length = 0;
+    vi.useFakeTimers();
+    vi.stubGlobal("XMLHttpRequest", RecordingXHR);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("pays for each body before sending it whole", async () => {
+    const start = Date.now();
+    const file = new Blob(["x".repeat(1000)]);
+    const p = batchUpload(
+      [
+        { url: "https://example.com/a", file, transport: xhrTransport() },
+        { url: "https://example.com/b", file, transport: xhrTransport() },
+        // The default transport in browsers.
+        { url: "https://example.com/c", file },
+      ],
+      { rateLimit: 1000, concurrency: 3 },
+    );
+    await vi.runAllTimersAsync();
+    await p;
+
+    // Blob bodies keep their Content-Length; a full bucket lets the first through.
+    expect(sent.map(([body]) => body.size)).toEqual([1000, 1000, 1000]);
+    expect(sent.map(([, time]) => time - start)).toEqual([0, 1000, 2000]);
+  });
+});
+
+describe("rateLimit on chunked uploads over xhr", () => {
+  const sent: Array<[string, Blob, number]> = [];
+
+  /** Answers tus and part requests right away, reporting upload progress first. */
+  class ServerXHR {
+    status = 0;
+    responseText = "";
+    withCredentials = false;
+    private method = "";
+    private headers: Record<string, string> = {};
+    private responseHeaders = "";
+    private listeners: Record<string, () => void> = {};
+    private progress?: (e: { loaded: number; total: number; lengthComputable: boolean }) => void;
+    upload = {
+      addEventListener: (_type: string, listener: ServerXHR["progress"]) => {
+        this.progress = listener;
+      },
+    };
+    open(method: string): void {
+      this.method = method;
+    }
+    setRequestHeader(name: string, value: string): void {
+      this.headers[name] = value;
+    }
+    getAllResponseHeaders(): string {
+      return this.responseHeaders;
+    }
+    addEventListener(type: string, listener: () => void): void {
+      this.listeners[type] = listener;
+    }
+    abort(): void {}
+    send(body: Blob): void {
+      sent.push([this.method, body, Date.now()]);
+      this.progress?.({ loaded: body.size, total: body.size, lengthComputable: true });
+      if (this.method === "POST") {
+        this.status = 201;
+        this.responseHeaders = "location: /files/1";
+      } else if (this.method === "PATCH") {
+        this.status = 204;
+        this.responseHeaders = `upload-offset: ${Number(this.headers["Upload-Offset"]) + body.size}`;
+      } else {
+        this.status = 200;
+        this.responseHeaders = 'etag: "part"';
+      }
+      this.listeners.load?.();
+    }
+  }
+
+  beforeEach(() => {
+    sent.length = 0;
+    vi.useFakeTimers();
+    vi.stubGlobal("XMLHttpRequest", ServerXHR);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("paces a single tus upload chunk by chunk", async () => {
+    const start = Date.now();
+    const speeds: number[] = [];
+    const p = tusUpload({
+      endpoint: "https://tus.example.com/files/",
+      file: new Blob(["x".repeat(4000)]),
+      chunkSize: 250,
+      rateLimit: createRateLimiter(1000, { burst: 250 }),
+      onProgress: (progress) => {
+        if (progress.speed !== undefined) speeds.push(progress.speed);
+      },
+    });
+    await vi.runAllTimersAsync();
+    await p;
+
+    const patches = sent.filter(([method]) => method === "PATCH");
+    expect(patches.map(([, body]) => body.size)).toEqual(new Array(16).fill(250));
+    // 4000 bytes at 1000 B/s with a 250-byte burst: one chunk every 250 ms.
+    expect(patches.map(([, , time]) => time - start)).toEqual(patches.map((_, i) => i * 250));
+    expect(speeds.length).toBeGreaterThan(0);
+    expect(speeds[speeds.length - 1]).toBeCloseTo(1000, -2);
+  });
+
+  it("shares one budget between concurrent multipart parts", async () => {
+    const start = Date.now();
+    const p = multipartUpload({
+      file: new Blob(["x".repeat(2000)]),
+      partSize: 500,
+      concurrency: 4,
+      signPart: (n) => `https://s3.example.com/part/${n}`,
+      complete: () => {},
+      rateLimit: createRateLimiter(1000, { burst: 500 }),
+    });
+    await vi.runAllTimersAsync();
+    await p;
+
+    expect(sent.map(([, , time]) => time - start)).toEqual([0, 500, 1000, 1500]);
+  });
+});
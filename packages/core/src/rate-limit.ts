@@ -0,0 +1,113 @@
+/**
+ * @uplnk/core/rate-limit — Token-bucket bandwidth limiting shared between uploads.
+ */
+
+import type { RateLimiter, UploadError } from "@uplnk/types";
+
+/** Options for a rate limiter. */
+export interface RateLimiterOptions {
+  /** Bytes that may be sent at once after an idle period. Default: one second's worth. */
+  burst?: number;
+}
+
+function checkRate(bytesPerSecond: number): void {
+  if (!(bytesPerSecond > 0)) {
+    throw new RangeError("uplnk: rateLimit must be a positive number of bytes per second");
+  }
+}
+
+/**
+ * Create a token-bucket rate limiter. Pass the same limiter to several
+ * uploads (or to `batchUpload`) to share one bandwidth budget between them;
+ * waiting uploads are served in order. `setRate` takes effect immediately.
+ *
+ * A chunk larger than the bucket waits for a full bucket and is paid for
+ * afterwards, so the average rate holds whatever the chunk size.
+ *
+ * @param bytesPerSecond - Limit in bytes per second (Infinity disables limiting)
+ * @param options - Bucket options
+ *
+ * @example
+ * ```ts
+ * const limiter = createRateLimiter(256 * 1024);
+ * await batchUpload(uploads, { rateLimit: limiter });
+ *
+ * // Later, e.g. when the app goes to the background:
+ * limiter.setRate(1024 * 1024);
+ * ```
+ */
+export function createRateLimiter(
+  bytesPerSecond: number,
+  options: RateLimiterOptions = {},
+): RateLimiter {
+  checkRate(bytesPerSecond);
+  let rate = bytesPerSecond;
+  const capacity = (): number => options.burst ?? rate;
+  let tokens = Number.isFinite(rate) ? capacity() : 0;
+  let refilledAt = Date.now();
+  let queue: Promise<void> = Promise.resolve();
+  let wake: (() => void) | undefined;
+
+  const refill = (): void => {
+    const now = Date.now();
+    if (Number.isFinite(rate)) {
+      tokens = Math.min(capacity(), tokens + ((now - refilledAt) / 1000) * rate);
+    }
+    refilledAt = now;
+  };
+
+  const acquire = async (bytes: number, signal?: AbortSignal): Promise<void> => {
+    for (;;) {
+      if (signal?.aborted) {
+        const err: UploadError = { type: "abort" };
+        throw err;
+      }
+      refill();
+      const needed = Math.min(bytes, capacity());
+      if (!Number.isFinite(rate) || tokens >= needed) break;
+      const waitMs = Math.ceil(((needed - tokens) / rate) * 1000);
+      await new Promise<void>((resolve) => {
+        const done = (): void => {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", done);
+          wake = undefined;
+          resolve();
+        };
+        const timer = setTimeout(done, waitMs);
+        signal?.addEventListener("abort", done);
+        wake = done;
+      });
+    }
+    if (Number.isFinite(rate)) tokens -= bytes;
+  };
+
+  return {
+    get bytesPerSecond() {
+      return rate;
+    },
+    setRate(next) {
+      checkRate(next);
+      refill();
+      rate = next;
+      if (Number.isFinite(rate)) tokens = Math.min(tokens, capacity());
+      wake?.();
+    },
+    take(bytes, signal) {
+      const turn = queue.then(() => acquire(bytes, signal));
+      queue = turn.catch(() => undefined);
+      return turn;
+    },
+  };
+}
+
+/**
+ * Normalize a `rateLimit` option to a limiter.
+ *
+ * @internal
+ */
+export function toRateLimiter(
+  rateLimit: number | RateLimiter | undefined,
+): RateLimiter | undefined {
+  if (rateLimit == null) return undefined;
+  return typeof rateLimit === "number" ? createRateLimiter(rateLimit) : rateLimit;
+}
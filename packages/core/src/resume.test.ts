@@ -0,0 +1,211 @@
+import { describe, it, expect, vi } from "vitest";
+import { resumeUpload, findUploadState } from "./resume";
+import { memoryStateStore } from "./state-store";
+import { decryptStream } from "./encryption";
+import { readBlob } from "./streams";
+import { createPartTransport, createTusServer } from "./test-transports";
+
+const endpoint = "https://tus.example.com/files/";
+const file = new File(["x".repeat(100)], "big.mov", { lastModified: 42 });
+
+describe("resumeUpload", () => {
+  it("requires exactly one protocol", async () => {
+    await expect(resumeUpload(file, { store: memoryStateStore() })).rejects.toThrow("exactly one");
+  });
+
+  it("resumes a tus upload after an interrupted session", async () => {
+    const store = memoryStateStore();
+    const server = createTusServer();
+    server.failNextPatchAfter = 30;
+
+    await expect(
+      resumeUpload(file, { store, tus: { endpoint, chunkSize: 50, transport: server } }),
+    ).rejects.toMatchObject({ type: "network" });
+
+    const saved = await findUploadState(file, { store, tus: { endpoint } });
+    expect(saved).toMatchObject({ protocol: "tus", session: "https://tus.example.com/files/1" });
+
+    const result = await resumeUpload(file, {
+      store,
+      tus: { endpoint, chunkSize: 50, transport: server },
+    });
+
+    expect(result).toEqual({ resumed: true, session: "https://tus.example.com/files/1" });
+    expect(server.requests.slice(2).map((r) => [r.method, r.headers["Upload-Offset"]])).toEqual([
+      ["HEAD", undefined],
+      ["PATCH", "30"],
+      ["PATCH", "80"],
+    ]);
+    expect(server.uploads.get("/files/1")?.offset).toBe(100);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("records the acknowledged tus offset", async () => {
+    const store = memoryStateStore();
+    const server = createTusServer();
+    const offsets: Array<number | undefined> = [];
+    const set = store.set.bind(store);
+    store.set = (record) => {
+      offsets.push(record.offset);
+      return set(record);
+    };
+
+    await resumeUpload(file, {
+      store,
+      tus: { endpoint, chunkSize: 40, transport: server },
+    });
+
+    expect(offsets).toEqual([0, 40, 80, 100]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("forgets a terminated tus upload", async () => {
+    const store = memoryStateStore();
+    const server = createTusServer();
+    const controller = new AbortController();
+
+    await expect(
+      resumeUpload(file, {
+        store,
+        tus: {
+          endpoint,
+          chunkSize: 10,
+          transport: server,
+          signal: controller.signal,
+          onChunkComplete: () => controller.abort(),
+        },
+      }),
+    ).rejects.toMatchObject({ type: "abort" });
+
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("ignores expired state", async () => {
+    const store = memoryStateStore();
+    const server = createTusServer();
+    server.failNextPatchAfter = 10;
+    await resumeUpload(file, {
+      store,
+      ttlMs: -1,
+      tus: { endpoint, transport: server },
+    }).catch(() => undefined);
+
+    const result = await resumeUpload(file, {
+      store,
+      tus: { endpoint, transport: server },
+    });
+
+    expect(result.resumed).toBe(false);
+    expect(result.session).toBe("https://tus.example.com/files/2");
+  });
+
+  it("resumes a multipart upload with only the missing parts", async () => {
+    const store = memoryStateStore();
+    const failing = new Set(["https://bucket/u1/2"]);
+    const transport = createPartTransport({ failing });
+    const create = vi.fn(async () => "u1");
+    const complete = vi.fn();
+    const multipart = {
+      create,
+      options: (uploadId: string) => ({
+        partSize: 40,
+        concurrency: 1,
+        transport,
+        signPart: (n: number) => `https://bucket/${uploadId}/${n}`,
+        complete,
+      }),
+    };
+
+    await expect(resumeUpload(file, { store, multipart })).rejects.toMatchObject({
+      type: "http",
+      status: 503,
+    });
+    expect((await findUploadState(file, { store, multipart }))?.parts).toHaveLength(1);
+
+    failing.clear();
+    transport.requests.length = 0;
+    const result = await resumeUpload(file, { store, multipart });
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(result.resumed).toBe(true);
+    expect(transport.requests.map((r) => r.url)).toEqual([
+      "https://bucket/u1/2",
+      "https://bucket/u1/3",
+    ]);
+    expect(complete).toHaveBeenCalledWith([
+      { partNumber: 1, etag: '"etag-https://bucket/u1/1"', size: 40 },
+      { partNumber: 2, etag: '"etag-https://bucket/u1/2"', size: 40 },
+      { partNumber: 3, etag: '"etag-https://bucket/u1/3"', size: 20 },
+    ]);
+    expect(await store.list()).toEqual([]);
+  });
+  it("starts a new multipart upload when the stored one is gone", async () => {
+    const store = memoryStateStore();
+    const failing = new Set(["https://bucket/u1/2"]);
+    const transport = createPartTransport({ failing, status: 404 });
+    const ids = ["u1", "u2"];
+    const create = vi.fn(async () => ids.shift() as string);
+    const complete = vi.fn();
+    const multipart = {
+      create,
+      options: (uploadId: string) => ({
+        partSize: 40,
+        concurrency: 1,
+        transport,
+        signPart: (n: number) => `https://bucket/${uploadId}/${n}`,
+        complete,
+      }),
+    };
+    await expect(resumeUpload(file, { store, multipart })).rejects.toMatchObject({ status: 404 });
+
+    // u1 is still unknown to the server.
+    transport.requests.length = 0;
+    const result = await resumeUpload(file, { store, multipart });
+
+    expect(result).toMatchObject({ resumed: false, session: "u2" });
+    expect(transport.requests.map((r) => r.url)).toEqual([
+      "https://bucket/u1/2",
+      "https://bucket/u2/1",
+      "https://bucket/u2/2",
+      "https://bucket/u2/3",
+    ]);
+    expect(complete).toHaveBeenLastCalledWith([
+      { partNumber: 1, etag: '"etag-https://bucket/u2/1"', size: 40 },
+      { partNumber: 2, etag: '"etag-https://bucket/u2/2"', size: 40 },
+      { partNumber: 3, etag: '"etag-https://bucket/u2/3"', size: 20 },
+    ]);
+  });
+
+  it("continues an encrypted multipart upload with the stored IV", async () => {
+    const store = memoryStateStore();
+    const failing = new Set(["https://bucket/u1/3"]);
+    const transport = createPartTransport({ failing });
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+    const multipart = {
+      create: async () => "u1",
+      options: (uploadId: string) => ({
+        partSize: 40,
+        concurrency: 1,
+        transport,
+        encrypt: { key, segmentSize: 16 },
+        signPart: (n: number) => `https://bucket/${uploadId}/${n}`,
+        complete: () => {},
+      }),
+    };
+    await expect(resumeUpload(file, { store, multipart })).rejects.toMatchObject({ status: 503 });
+    const saved = await findUploadState(file, { store, multipart });
+    expect(saved?.encryption).toMatchObject({ algorithm: "AES-GCM", segmentSize: 16 });
+
+    failing.clear();
+    await resumeUpload(file, { store, multipart });
+
+    // The last body sent for each part, in part order, is one ciphertext.
+    const bodies = new Map(transport.requests.map((r) => [r.url, r.body as Blob]));
+    const ciphertext = new Blob([...bodies.keys()].sort().map((url) => bodies.get(url) as Blob));
+    const plaintext = await readBlob(await new Response(decryptStream(ciphertext, key)).blob());
+    expect(new TextDecoder().decode(plaintext)).toBe("x".repeat(100));
+  });
+});
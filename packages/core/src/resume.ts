@@ -0,0 +1,233 @@
+/**
+ * @uplnk/core/resume — Resume tus and multipart uploads across page reloads.
+ */
+
+import { tusUpload } from "./tus";
+import type { TusUploadOptions } from "./tus";
+import { multipartUpload, DEFAULT_PART_SIZE } from "./multipart";
+import type { CompletedPart, MultipartUploadOptions } from "./multipart";
+import { resolveEncryptor, encryptionInfo } from "./encryption";
+import { defaultStateStore, fingerprintFile, stateKey, DEFAULT_STATE_TTL_MS } from "./state-store";
+import type { FingerprintOptions, UploadStateRecord, UploadStateStore } from "./state-store";
+import type { UploadError } from "@uplnk/types";
+
+/** tus options for a resumable upload (the file and upload URL are managed). */
+export type ResumableTusOptions = Omit<TusUploadOptions, "file" | "uploadUrl">;
+
+/** Multipart contract for a resumable upload. */
+export interface ResumableMultipartOptions {
+  /** Start a new multipart upload and return its ID (e.g. the S3 UploadId). */
+  create: () => Promise<string> | string;
+  /** Multipart options for the upload with the given ID. */
+  options: (uploadId: string) => Omit<MultipartUploadOptions, "file" | "completedParts">;
+}
+
+/** Options for resumeUpload(). Exactly one of `tus` or `multipart` must be set. */
+export interface ResumeUploadOptions {
+  /** tus upload configuration. */
+  tus?: ResumableTusOptions;
+  /** Multipart upload configuration. */
+  multipart?: ResumableMultipartOptions;
+  /** Where state is persisted. Default: IndexedDB, or memory where unavailable. */
+  store?: UploadStateStore;
+  /** Fingerprint options for matching the file. */
+  fingerprint?: FingerprintOptions;
+  /** Separates uploads of the same file to different destinations. Default: the tus endpoint, or "multipart". */
+  scope?: string;
+  /** How long state stays resumable, in ms. Default: 7 days. */
+  ttlMs?: number;
+}
+
+/** Result of resumeUpload(). */
+export interface ResumeUploadResult {
+  /** Whether stored state was found and the upload continued from it. */
+  resumed: boolean;
+  /** Session identifier: the tus upload URL or the multipart upload ID. */
+  session: string;
+  /** multipart: all uploaded parts. */
+  parts?: CompletedPart[];
+}
+
+function resolveScope(options: ResumeUploadOptions): string {
+  if (options.scope) return options.scope;
+  if (options.tus) return options.tus.endpoint;
+  return "multipart";
+}
+
+/**
+ * Find stored, unexpired upload state for a file.
+ *
+ * @param file - File to look up
+ * @param options - Store, scope and fingerprint options
+ * @returns The matching record, if any
+ *
+ * @example
+ * ```ts
+ * if (await findUploadState(file, { tus: { endpoint } })) {
+ *   showResumeBanner(file.name);
+ * }
+ * ```
+ */
+export async function findUploadState(
+  file: File,
+  options: Omit<ResumeUploadOptions, "ttlMs"> = {},
+): Promise<UploadStateRecord | undefined> {
+  const store = options.store ?? defaultStateStore();
+  const fingerprint = await fingerprintFile(file, options.fingerprint);
+  const key = stateKey(fingerprint, resolveScope(options));
+  const record = await store.get(key);
+  if (record && record.expiresAt <= Date.now()) {
+    await store.delete(key);
+    return undefined;
+  }
+  return record;
+}
+
+/**
+ * Upload a file with tus or multipart, persisting its progress so that a later
+ * call with the same file (after a reload or crash) continues where it left
+ * off. State is removed when the upload completes or is cancelled for good.
+ *
+ * @param file - File to upload
+ * @param options - Protocol configuration and persistence options
+ * @returns Whether the upload was resumed, and its session
+ *
+ * @example
+ * ```ts
+ * // tus
+ * await resumeUpload(file, {
+ *   tus: { endpoint: "https://tusd.example.com/files/", retry: exponentialBackoff() },
+ * });
+ *
+ * // S3 multipart
+ * await resumeUpload(file, {
+ *   multipart: {
+ *     create: () => api.createMultipartUpload(file.name),
+ *     options: (uploadId) => ({
+ *       signPart: (n) => api.signPart(uploadId, n),
+ *       complete: (parts) => api.complete(uploadId, parts),
+ *     }),
+ *   },
+ * });
+ * ```
+ */
+export async function resumeUpload(
+  file: File,
+  options: ResumeUploadOptions,
+): Promise<ResumeUploadResult> {
+  const { tus, multipart, ttlMs = DEFAULT_STATE_TTL_MS } = options;
+  if (!tus === !multipart) {
+    throw new Error("uplnk: resumeUpload needs exactly one of options.tus or options.multipart");
+  }
+  const store = options.store ?? defaultStateStore();
+  const fingerprint = await fingerprintFile(file, options.fingerprint);
+  const key = stateKey(fingerprint, resolveScope(options));
+  const protocol = tus ? "tus" : "multipart";
+
+  let record = await store.get(key);
+  if (record && (record.expiresAt <= Date.now() || record.protocol !== protocol)) {
+    await store.delete(key);
+    record = undefined;
+  }
+  let resumed = record != null;
+
+  // Persistence is best effort: a failing store must not fail the upload.
+  let writes: Promise<void> = Promise.resolve();
+  const save = (update: Partial<UploadStateRecord> & { session: string }): void => {
+    const now = Date.now();
+    record = {
+      key,
+      fingerprint,
+      protocol,
+      createdAt: record?.createdAt ?? now,
+      ...record,
+      ...update,
+      updatedAt: now,
+      expiresAt: now + ttlMs,
+    };
+    const snapshot = record;
+    writes = writes.then(() => store.set(snapshot)).catch(() => undefined);
+  };
+  const forget = async (): Promise<void> => {
+    await writes;
+    await store.delete(key).catch(() => undefined);
+  };
+
+  if (tus) {
+    let uploadUrl = record?.session;
+    try {
+      const result = await tusUpload({
+        ...tus,
+        file,
+        uploadUrl,
+        onUploadUrl: (url) => {
+          uploadUrl = url;
+          save({ session: url, offset: 0 });
+          tus.onUploadUrl?.(url);
+        },
+        onChunkComplete: (offset) => {
+          if (uploadUrl) save({ session: uploadUrl, offset });
+          tus.onChunkComplete?.(offset);
+        },
+      });
+      await forget();
+      return { resumed, session: result.uploadUrl };
+    } catch (err) {
+      const terminated = (err as UploadError).type === "abort" && tus.terminateOnAbort !== false;
+      if (terminated) await forget();
+      else await writes;
+      throw err;
+    }
+  }
+
+  const contract = multipart as ResumableMultipartOptions;
+  for (;;) {
+    const uploadId = record?.session ?? (await contract.create());
+    const partOptions = contract.options(uploadId);
+    const partSize = record?.partSize ?? partOptions.partSize ?? DEFAULT_PART_SIZE;
+    const parts: CompletedPart[] = [...(record?.parts ?? [])];
+    // Remaining parts must continue the ciphertext of the stored ones.
+    if (record?.encryption && !partOptions.encrypt) {
+      throw new Error("uplnk: the stored upload is encrypted; pass encrypt to resume it");
+    }
+    const encrypt =
+      partOptions.encrypt &&
+      (await resolveEncryptor(partOptions.encrypt, file, record?.encryption));
+    save({
+      session: uploadId,
+      partSize,
+      parts,
+      ...(encrypt && { encryption: encryptionInfo(encrypt) }),
+    });
+
+    try {
+      const result = await multipartUpload({
+        ...partOptions,
+        file,
+        partSize,
+        encrypt,
+        completedParts: parts,
+        onPartComplete: (part) => {
+          parts.push(part);
+          save({ session: uploadId, parts: [...parts] });
+          partOptions.onPartComplete?.(part);
+        },
+      });
+      await forget();
+      return { resumed, session: uploadId, parts: result.parts };
+    } catch (err) {
+      const e = err as UploadError;
+      // The server no longer knows the stored upload (expired or aborted): start over.
+      if (resumed && e.type === "http" && (e.status === 404 || e.status === 410)) {
+        await forget();
+        record = undefined;
+        resumed = false;
+        continue;
+      }
+      // multipartUpload() aborts the session on failure when an abort hook is set.
+      if (partOptions.abort) await forget();
+      else await writes;
+      throw err;
+    }
+  }
+}
@@ -5,8 +5,18 @@ import {
   networkErrorsOnly,
   customRetry,
   calculateBackoffDelay,
+  retryAfterMs,
+  nextRetryDelay,
 } from "./retry-strategies";
-import type { UploadError } from "@uplnk/types";
+import type { UploadError, RetryFailure, RetryOptions } from "@uplnk/types";
+
+function delayFor(retry: RetryOptions, attempt: number, failure?: RetryFailure): number {
+  return typeof retry.delayMs === "function" ? retry.delayMs(attempt, failure) : retry.delayMs;
+}
+
+function httpFailure(status: number, headers: Record<string, string>): RetryFailure {
+  return { error: { type: "http", status }, headers, elapsedMs: 0 };
+}
 
 describe("retry-strategies", () => {
   describe("exponentialBackoff", () => {
@@ -94,13 +104,14 @@ describe("retry-strategies", () => {
     it("returns RetryOptions with fixed delay", () => {
       const retry = fixedDelay({ delayMs: 2000, maxAttempts: 5 });
       expect(retry.attempts).toBe(5);
-      expect(retry.delayMs).toBe(2000);
+      expect(delayFor(retry, 0)).toBe(2000);
+      expect(delayFor(retry, 3)).toBe(2000);
     });
 
     it("uses default values", () => {
       const retry = fixedDelay();
       expect(retry.attempts).toBe(3);
-      expect(retry.delayMs).toBe(1000);
+      expect(delayFor(retry, 0)).toBe(1000);
     });
 
     it("shouldRetry returns false for abort errors", () => {
@@ -228,4 +239,64 @@ describe("retry-strategies", () => {
       expect(delay1).toBe(delay2);
     });
   });
+
+  describe("retryAfterMs", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+
+    it("reads Retry-After in seconds", () => {
+      expect(retryAfterMs({ "retry-after": "120" }, now)).toBe(120000);
+    });
+
+    it("reads Retry-After as an HTTP-date", () => {
+      expect(retryAfterMs({ "retry-after": "Thu, 01 Jan 2026 00:00:30 GMT" }, now)).toBe(30000);
+      expect(retryAfterMs({ "retry-after": "Wed, 31 Dec 2025 23:00:00 GMT" }, now)).toBe(0);
+    });
+
+    it("reads rate-limit reset headers as seconds or Unix timestamps", () => {
+      expect(retryAfterMs({ "ratelimit-reset": "7" }, now)).toBe(7000);
+      expect(retryAfterMs({ "x-ratelimit-reset": String(now / 1000 + 45) }, now)).toBe(45000);
+    });
+
+    it("ignores missing and malformed headers", () => {
+      expect(retryAfterMs({}, now)).toBeUndefined();
+      expect(
+        retryAfterMs({ "retry-after": "soon", "x-ratelimit-reset": "-1" }, now),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("Retry-After support", () => {
+    it("exponentialBackoff waits as long as the server asks, up to maxDelayMs", () => {
+      const retry = exponentialBackoff({ baseDelayMs: 1000, maxDelayMs: 10000, jitter: false });
+
+      expect(delayFor(retry, 0, httpFailure(429, { "retry-after": "5" }))).toBe(5000);
+      expect(delayFor(retry, 0, httpFailure(503, { "retry-after": "3600" }))).toBe(10000);
+      // Never shorter than the backoff itself.
+      expect(delayFor(retry, 3, httpFailure(503, { "retry-after": "1" }))).toBe(8000);
+    });
+
+    it("fixedDelay honors Retry-After", () => {
+      const retry = fixedDelay({ delayMs: 1000 });
+      expect(delayFor(retry, 0, httpFailure(429, { "retry-after": "4" }))).toBe(4000);
+    });
+
+    it("can be turned off", () => {
+      const retry = fixedDelay({ delayMs: 1000, respectRetryAfter: false });
+      expect(delayFor(retry, 0, httpFailure(429, { "retry-after": "4" }))).toBe(1000);
+    });
+  });
+
+  describe("nextRetryDelay", () => {
+    it("stops when the delay would exceed maxElapsedMs", () => {
+      const retry = fixedDelay({ delayMs: 1000, maxElapsedMs: 5000 });
+      const failure = (elapsedMs: number): RetryFailure => ({
+        error: { type: "network" },
+        headers: {},
+        elapsedMs,
+      });
+
+      expect(nextRetryDelay(retry, 0, failure(3000))).toBe(1000);
+      expect(nextRetryDelay(retry, 1, failure(4500))).toBeUndefined();
+    });
+  });
 });
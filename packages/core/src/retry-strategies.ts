@@ -2,7 +2,93 @@
  * @uplnk/core/retry-strategies — Common retry strategies for uploads.
  */
 
-import type { UploadError, RetryOptions } from "@uplnk/types";
+import type { UploadError, RetryOptions, RetryFailure } from "@uplnk/types";
+import { UplnkError } from "./errors";
+
+const RATE_LIMIT_RESET_HEADERS = ["x-ratelimit-reset", "x-rate-limit-reset", "ratelimit-reset"];
+
+/**
+ * Read the delay a server asked for from `Retry-After` (seconds or an
+ * HTTP-date) or, failing that, a rate-limit reset header (`X-RateLimit-Reset`,
+ * `X-Rate-Limit-Reset`, `RateLimit-Reset`; seconds from now, or a Unix
+ * timestamp in seconds).
+ *
+ * @param headers - Response headers, keyed by lower-cased name
+ * @param now - Current time in ms (default: Date.now())
+ * @returns Delay in ms, or undefined when no header asks for one
+ *
+ * @example
+ * ```ts
+ * retryAfterMs({ "retry-after": "120" }); // 120000
+ * ```
+ */
+export function retryAfterMs(
+  headers: Record<string, string>,
+  now: number = Date.now(),
+): number | undefined {
+  const retryAfter = headers["retry-after"]?.trim();
+  if (retryAfter) {
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) return Number(retryAfter) * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+  for (const name of RATE_LIMIT_RESET_HEADERS) {
+    const value = Number(headers[name]);
+    if (!headers[name] || !Number.isFinite(value) || value < 0) continue;
+    // Values this large are Unix timestamps rather than a number of seconds.
+    return value > 1e9 ? Math.max(0, value * 1000 - now) : value * 1000;
+  }
+  return undefined;
+}
+
+/**
+ * Apply a server-requested delay: wait at least `delay`, or what the failed
+ * response asks for, but never longer than `maxDelayMs` for the latter.
+ */
+function honorRetryAfter(delay: number, maxDelayMs: number, failure?: RetryFailure): number {
+  if (!failure || failure.error.type !== "http") return delay;
+  const requested = retryAfterMs(failure.headers);
+  if (requested == null) return delay;
+  return Math.max(delay, Math.min(requested, maxDelayMs));
+}
+
+/**
+ * Compute the delay before the next attempt, or undefined when waiting would
+ * exceed `retry.maxElapsedMs`.
+ *
+ * @internal
+ */
+export function nextRetryDelay(
+  retry: RetryOptions,
+  attempt: number,
+  failure: RetryFailure,
+): number | undefined {
+  const { delayMs, maxElapsedMs } = retry;
+  const delay = typeof delayMs === "function" ? delayMs(attempt, failure) : delayMs;
+  if (maxElapsedMs != null && failure.elapsedMs + delay > maxElapsedMs) return undefined;
+  return delay;
+}
+
+/**
+ * Wait out a retry delay. Rejects with an "abort" UplnkError as soon as
+ * `signal` aborts, so a cancelled upload does not sit out a long `Retry-After`.
+ *
+ * @internal
+ */
+export function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new UplnkError({ type: "abort" }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
 
 /**
  * Create a retry strategy with exponential backoff.
@@ -11,13 +97,15 @@ import type { UploadError, RetryOptions } from "@uplnk/types";
  * @param maxDelayMs - Maximum delay in milliseconds (default: 30000)
  * @param maxAttempts - Maximum number of attempts (default: 3)
  * @param jitter - Add randomness to delay (default: true)
+ * @param respectRetryAfter - Wait as long as `Retry-After` / `X-RateLimit-Reset` ask, up to maxDelayMs (default: true)
+ * @param maxElapsedMs - Give up once retrying would exceed this total time
  *
  * @example
  * ```ts
  * await uplnk({
  *   url,
  *   file,
- *   retry: exponentialBackoff({ maxAttempts: 5 })
+ *   retry: exponentialBackoff({ maxAttempts: 5, maxElapsedMs: 60_000 })
  * });
  * ```
  */
@@ -27,6 +115,8 @@ export function exponentialBackoff(options?: {
   maxAttempts?: number;
   jitter?: boolean;
   retryableStatuses?: number[];
+  respectRetryAfter?: boolean;
+  maxElapsedMs?: number;
 }): RetryOptions {
   const {
     baseDelayMs = 1000,
@@ -34,11 +124,17 @@ export function exponentialBackoff(options?: {
     maxAttempts = 3,
     jitter = true,
     retryableStatuses = [408, 429, 500, 502, 503, 504],
+    respectRetryAfter = true,
+    maxElapsedMs,
   } = options ?? {};
 
   return {
     attempts: maxAttempts,
-    delayMs: (attempt: number) => calculateBackoffDelay(attempt, baseDelayMs, maxDelayMs, jitter),
+    maxElapsedMs,
+    delayMs: (attempt: number, failure?: RetryFailure) => {
+      const delay = calculateBackoffDelay(attempt, baseDelayMs, maxDelayMs, jitter);
+      return respectRetryAfter ? honorRetryAfter(delay, maxDelayMs, failure) : delay;
+    },
     shouldRetry: (err: UploadError, _attempt: number): boolean => {
       // Don't retry aborts
       if (err.type === "abort") return false;
@@ -64,6 +160,9 @@ export function exponentialBackoff(options?: {
  *
  * @param delayMs - Fixed delay in milliseconds (default: 1000)
  * @param maxAttempts - Maximum number of attempts (default: 3)
+ * @param maxDelayMs - Longest server-requested delay to honor (default: 30000)
+ * @param respectRetryAfter - Wait as long as `Retry-After` / `X-RateLimit-Reset` ask, up to maxDelayMs (default: true)
+ * @param maxElapsedMs - Give up once retrying would exceed this total time
  *
  * @example
  * ```ts
@@ -78,16 +177,24 @@ export function fixedDelay(options?: {
   delayMs?: number;
   maxAttempts?: number;
   retryableStatuses?: number[];
+  maxDelayMs?: number;
+  respectRetryAfter?: boolean;
+  maxElapsedMs?: number;
 }): RetryOptions {
   const {
     delayMs = 1000,
     maxAttempts = 3,
     retryableStatuses = [408, 429, 500, 502, 503, 504],
+    maxDelayMs = 30000,
+    respectRetryAfter = true,
+    maxElapsedMs,
   } = options ?? {};
 
   return {
     attempts: maxAttempts,
-    delayMs,
+    maxElapsedMs,
+    delayMs: (_attempt: number, failure?: RetryFailure) =>
+      respectRetryAfter ? honorRetryAfter(delayMs, maxDelayMs, failure) : delayMs,
     shouldRetry: (err: UploadError): boolean => {
       if (err.type === "abort") return false;
       if (err.type === "network" || err.type === "timeout") return true;
@@ -185,13 +292,15 @@ export function calculateBackoffDelay(
 export function customRetry(options: {
   attempts: number;
   shouldRetry: (err: UploadError, attempt: number) => boolean;
-  getDelay?: (attempt: number) => number;
+  getDelay?: (attempt: number, failure?: RetryFailure) => number;
+  maxElapsedMs?: number;
 }): RetryOptions {
-  const { attempts, shouldRetry, getDelay } = options;
+  const { attempts, shouldRetry, getDelay, maxElapsedMs } = options;
 
   return {
     attempts,
     delayMs: getDelay ?? 1000,
     shouldRetry,
+    maxElapsedMs,
   };
 }
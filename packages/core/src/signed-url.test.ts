@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import { uplnk, batchUpload } from "./index";
+import { isExpiredUrl } from "./signed-url";
+import { fixedDelay } from "./retry-strategies";
+import { createResponder } from "./test-transports";
+import type { TransportResponse, UploadTransport, UrlResolverContext } from "@uplnk/types";
+
+const S3_EXPIRED = "<Error><Code>AccessDenied</Code><Message>Request has expired</Message></Error>";
+
+const expired: TransportResponse = { status: 403, headers: {}, responseText: S3_EXPIRED };
+
+describe("isExpiredUrl", () => {
+  it("matches 403s with S3 and GCS expiry bodies only", () => {
+    expect(isExpiredUrl({ type: "http", status: 403, response: S3_EXPIRED })).toBe(true);
+    expect(
+      isExpiredUrl({
+        type: "http",
+        status: 403,
+        response: "<Error><Code>ExpiredToken</Code><Message>Invalid argument.</Message></Error>",
+      }),
+    ).toBe(true);
+    expect(isExpiredUrl({ type: "http", status: 403, response: "SignatureDoesNotMatch" })).toBe(
+      false,
+    );
+    expect(isExpiredUrl({ type: "http", status: 400, response: S3_EXPIRED })).toBe(false);
+    expect(isExpiredUrl({ type: "network" })).toBe(false);
+  });
+});
+
+describe("url resolver", () => {
+  it("resolves before each attempt and merges the returned headers", async () => {
+    const transport = createResponder([{ status: 503, headers: {}, responseText: "" }]);
+    const contexts: UrlResolverContext[] = [];
+
+    await uplnk({
+      url: async (context) => {
+        contexts.push(context);
+        return {
+          url: `https://s3.test/a?sig=${contexts.length}`,
+          headers: { "x-amz-acl": "private" },
+        };
+      },
+      file: new Blob(["x"]),
+      headers: { "Content-Type": "text/plain" },
+      transport,
+      retry: fixedDelay({ delayMs: 0, maxAttempts: 2 }),
+    });
+
+    expect(transport.requests.map((r) => r.url)).toEqual([
+      "https://s3.test/a?sig=1",
+      "https://s3.test/a?sig=2",
+    ]);
+    expect(transport.requests[1].headers).toEqual({
+      "Content-Type": "text/plain",
+      "x-amz-acl": "private",
+    });
+    expect(contexts).toMatchObject([
+      { attempt: 0, reason: "initial" },
+      { attempt: 1, reason: "retry", error: { type: "http", status: 503 } },
+    ]);
+  });
+
+  it("re-signs an expired URL without using up an attempt", async () => {
+    const transport = createResponder([expired, expired]);
+    const reasons: string[] = [];
+
+    const result = await uplnk({
+      url: ({ reason }) => {
+        reasons.push(reason);
+        return `https://s3.test/a?n=${reasons.length}`;
+      },
+      file: new Blob(["x"]),
+      transport,
+    });
+
+    expect(reasons).toEqual(["initial", "expired", "expired"]);
+    expect(transport.requests).toHaveLength(3);
+    expect(result.attempts).toBe(1);
+  });
+
+  it("stops re-signing after maxUrlRefreshes", async () => {
+    const transport = createResponder([expired, expired, expired]);
+    const err = await uplnk({
+      url: () => "https://s3.test/a",
+      file: new Blob(["x"]),
+      transport,
+      maxUrlRefreshes: 1,
+    }).catch((e: unknown) => e);
+
+    expect(err).toMatchObject({ type: "http", status: 403 });
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it("does not re-sign static URLs and honors a custom isExpiredUrl", async () => {
+    const fixed = createResponder([expired]);
+    await expect(
+      uplnk({ url: "https://s3.test/a", file: new Blob(["x"]), transport: fixed }),
+    ).rejects.toMatchObject({ status: 403 });
+    expect(fixed.requests).toHaveLength(1);
+
+    const custom = createResponder([{ status: 401, headers: {}, responseText: "" }]);
+    await uplnk({
+      url: () => "https://s3.test/a",
+      file: new Blob(["x"]),
+      transport: custom,
+      isExpiredUrl: (error) => error.type === "http" && error.status === 401,
+    });
+    expect(custom.requests).toHaveLength(2);
+  });
+
+  it("lets batchUpload sign each URL just before its item starts", async () => {
+    const events: string[] = [];
+    const transport: UploadTransport = {
+      name: "fake",
+      async send(request) {
+        events.push(`send ${request.url}`);
+        return { status: 200, headers: {}, responseText: "" };
+      },
+    };
+    const uploads = ["a", "b", "c"].map((name) => ({
+      file: new Blob([name]),
+      transport,
+      url: async () => {
+        events.push(`sign ${name}`);
+        return `https://s3.test/${name}`;
+      },
+    }));
+
+    const result = await batchUpload(uploads, { concurrency: 1 });
+
+    expect(result.successful).toBe(3);
+    expect(events).toEqual([
+      "sign a",
+      "send https://s3.test/a",
+      "sign b",
+      "send https://s3.test/b",
+      "sign c",
+      "send https://s3.test/c",
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @uplnk/core/signed-url — URL resolvers and presigned URL expiry.
+ */
+
+import type { ResolvedUrl, UploadError, UplnkOptions, UrlResolverContext } from "@uplnk/types";
+
+/** Re-signs allowed per upload when `maxUrlRefreshes` is not set. */
+export const DEFAULT_MAX_URL_REFRESHES = 3;
+
+/**
+ * Expiry messages: S3 ("Request has expired"), GCS ("ExpiredToken",
+ * "Request signature expired") and Azure SAS ("Signed expiry time").
+ */
+const EXPIRED_BODY =
+  /Request has expired|ExpiredToken|Request signature expired|Signed expiry time/i;
+
+/**
+ * Default `isExpiredUrl` check: a 403 whose body reports an expired
+ * signature. Other 403s (wrong key, missing permission) are not re-signed.
+ *
+ * @param error - Error of the failed attempt
+ * @returns True when the URL should be re-signed
+ *
+ * @example
+ * ```ts
+ * await uplnk({
+ *   url: () => api.presign(file.name),
+ *   file,
+ *   isExpiredUrl: (err) => isExpiredUrl(err) || (err.type === "http" && err.status === 401),
+ * });
+ * ```
+ */
+export function isExpiredUrl(error: UploadError): boolean {
+  return error.type === "http" && error.status === 403 && EXPIRED_BODY.test(error.response ?? "");
+}
+
+/** @internal Resolve `UplnkOptions.url` for one attempt. */
+export async function resolveUrl(
+  url: UplnkOptions["url"],
+  context: UrlResolverContext,
+): Promise<ResolvedUrl> {
+  const resolved = typeof url === "function" ? await url(context) : url;
+  return typeof resolved === "string" ? { url: resolved } : resolved;
+}
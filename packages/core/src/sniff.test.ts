@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { sniffFileType, isSameContentType, hasSignature, typeForExtension } from "./sniff";
+
+/** Leading bytes from a mix of numbers and ASCII strings, padded like a real header. */
+function header(...parts: Array<number[] | string>): Uint8Array {
+  const bytes = parts.flatMap((part) =>
+    typeof part === "string" ? Array.from(part, (c) => c.charCodeAt(0)) : part,
+  );
+  return Uint8Array.from([...bytes, ...new Array(64).fill(0)]);
+}
+
+describe("sniffFileType", () => {
+  it.each([
+    ["image/png", header([0x89], "PNG\r\n\x1a\n")],
+    ["image/jpeg", header([0xff, 0xd8, 0xff, 0xe0])],
+    ["image/gif", header("GIF89a")],
+    ["image/webp", header("RIFF", [0, 0, 0, 0], "WEBPVP8 ")],
+    ["audio/wav", header("RIFF", [0, 0, 0, 0], "WAVEfmt ")],
+    ["application/pdf", header("%PDF-1.7")],
+    ["application/zip", header("PK", [3, 4], new Array(26).fill(0), "notes.txt")],
+    [
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      header("PK", [3, 4], new Array(26).fill(0), "[Content_Types].xml", "word/document.xml"),
+    ],
+    ["video/mp4", header([0, 0, 0, 0x20], "ftypisom")],
+    ["video/quicktime", header([0, 0, 0, 0x14], "ftypqt  ")],
+    ["audio/mp4", header([0, 0, 0, 0x20], "ftypM4A ")],
+    ["video/webm", header([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84], "webm")],
+    ["audio/mpeg", header("ID3", [4, 0])],
+    ["audio/mpeg", header([0xff, 0xfb, 0x90, 0x64])],
+    ["audio/aac", header([0xff, 0xf1, 0x50, 0x80])],
+    ["audio/ogg", header("OggS", new Array(24).fill(0), "\x01vorbis")],
+    ["audio/flac", header("fLaC")],
+    ["application/x-msdownload", header("MZ", [0x90, 0])],
+  ])("detects %s", async (mime, bytes) => {
+    await expect(sniffFileType(bytes)).resolves.toMatchObject({ mime });
+    await expect(sniffFileType(new Blob([bytes as BlobPart]))).resolves.toMatchObject({ mime });
+  });
+
+  it("returns null for text and unknown content", async () => {
+    await expect(sniffFileType(new Blob(["hello, world"]))).resolves.toBeNull();
+    await expect(
+      sniffFileType(new Blob(['<svg xmlns="http://www.w3.org/2000/svg"/>'])),
+    ).resolves.toBeNull();
+    await expect(sniffFileType(new Blob([]))).resolves.toBeNull();
+  });
+
+  it("does not mistake UTF-16LE text or invalid frame headers for MPEG audio", async () => {
+    const utf16 = new Uint8Array([
+      0xff,
+      0xfe,
+      ...Array.from("id,name\n", (c) => [c.charCodeAt(0), 0]).flat(),
+    ]);
+    await expect(sniffFileType(new Blob([utf16]))).resolves.toBeNull();
+    // Reserved version, bitrate index 15 and sample-rate index 3.
+    await expect(sniffFileType(header([0xff, 0xeb, 0x90, 0x64]))).resolves.toBeNull();
+    await expect(sniffFileType(header([0xff, 0xfb, 0xf0, 0x64]))).resolves.toBeNull();
+    await expect(sniffFileType(header([0xff, 0xfb, 0x9c, 0x64]))).resolves.toBeNull();
+  });
+
+  it("reports the usual extension", async () => {
+    await expect(sniffFileType(header([0xff, 0xd8, 0xff]))).resolves.toEqual({
+      mime: "image/jpeg",
+      extension: ".jpg",
+    });
+  });
+});
+
+describe("content type matching", () => {
+  it("accepts aliases and container siblings", () => {
+    expect(isSameContentType("image/jpeg", "image/jpg")).toBe(true);
+    expect(isSameContentType("video/mp4", "audio/mp4")).toBe(true);
+    expect(isSameContentType("application/zip", "application/vnd.ms-excel")).toBe(false);
+    expect(isSameContentType("application/x-msdownload", "image/png")).toBe(false);
+  });
+
+  it("knows which types have a signature", () => {
+    expect(hasSignature("image/png")).toBe(true);
+    expect(hasSignature("application/msword")).toBe(true);
+    expect(hasSignature("text/plain")).toBe(false);
+    expect(hasSignature("image/svg+xml")).toBe(false);
+    expect(typeForExtension(".JPEG")).toBe("image/jpeg");
+    expect(typeForExtension(".txt")).toBeUndefined();
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * @uplnk/core/sniff — Detect file formats from their leading bytes.
+ *
+ * `file.type` and the extension come from the file name, which anyone can
+ * change. Magic bytes are part of the content, so a renamed executable still
+ * looks like one.
+ */
+
+import { readBlob } from "./streams";
+
+/** A format recognized by sniffFileType(). */
+export interface SniffedFileType {
+  /** MIME type of the detected format. */
+  mime: string;
+  /** Usual extension, including the dot. */
+  extension: string;
+}
+
+/** Bytes read from the start of the file; enough to find OOXML part names. */
+const SNIFF_BYTES = 4096;
+
+type Bytes = Uint8Array;
+
+const startsWith = (bytes: Bytes, signature: number[], offset = 0): boolean =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Bytes, start: number, end: number): string =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+const includesAscii = (bytes: Bytes, text: string, limit = bytes.length): boolean =>
+  ascii(bytes, 0, Math.min(limit, bytes.length)).includes(text);
+
+/** ISO base media (MP4, MOV, HEIF, AVIF): the major brand decides. */
+function isoBrand(bytes: Bytes): string | null {
+  if (ascii(bytes, 4, 8) !== "ftyp") return null;
+  const brand = ascii(bytes, 8, 12);
+  if (brand === "qt  ") return "video/quicktime";
+  if (brand === "M4A " || brand === "M4B ") return "audio/mp4";
+  if (brand === "avif" || brand === "avis") return "image/avif";
+  if (["heic", "heix", "heim", "heis", "mif1", "msf1"].includes(brand)) return "image/heic";
+  if (brand.startsWith("3g")) return "video/3gpp";
+  return "video/mp4";
+}
+
+/** ZIP containers: OOXML and EPUB are told apart by their part names. */
+function zipType(bytes: Bytes): string {
+  if (ascii(bytes, 30, 58) === "mimetypeapplication/epub+zip") return "application/epub+zip";
+  if (includesAscii(bytes, "word/")) {
+    return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+  }
+  if (includesAscii(bytes, "xl/")) {
+    return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+  }
+  if (includesAscii(bytes, "ppt/")) {
+    return "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+  }
+  return "application/zip";
+}
+
+/**
+ * MPEG audio frame header: layer bits 00 are ADTS (AAC), anything else MP3.
+ * The sync word alone also matches the UTF-16LE byte order mark (FF FE), so
+ * the reserved version, bitrate and sample-rate values are rejected too.
+ */
+function mpegAudio(bytes: Bytes): string | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || (bytes[1] & 0xe0) !== 0xe0) return null;
+  if (bytes[1] === 0xfe) return null;
+  if ((bytes[1] & 0x06) === 0) {
+    // ADTS has a 12-bit sync word and sampling-frequency indexes up to 12.
+    return (bytes[1] & 0xf0) === 0xf0 && ((bytes[2] >> 2) & 0x0f) <= 12 ? "audio/aac" : null;
+  }
+  const version = (bytes[1] >> 3) & 0x03;
+  const bitrate = bytes[2] >> 4;
+  const sampleRate = (bytes[2] >> 2) & 0x03;
+  return version !== 1 && bitrate !== 15 && sampleRate !== 3 ? "audio/mpeg" : null;
+}
+
+/** Detectors in order; the first match wins. */
+const DETECTORS: Array<(bytes: Bytes) => string | null> = [
+  (b) => (startsWith(b, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) ? "image/png" : null),
+  (b) => (startsWith(b, [0xff, 0xd8, 0xff]) ? "image/jpeg" : null),
+  (b) => (/^GIF8[79]a$/.test(ascii(b, 0, 6)) ? "image/gif" : null),
+  (b) => {
+    if (ascii(b, 0, 4) !== "RIFF") return null;
+    const form = ascii(b, 8, 12);
+    if (form === "WEBP") return "image/webp";
+    if (form === "WAVE") return "audio/wav";
+    if (form === "AVI ") return "video/x-msvideo";
+    return null;
+  },
+  (b) =>
+    startsWith(b, [0x49, 0x49, 0x2a, 0x00]) || startsWith(b, [0x4d, 0x4d, 0x00, 0x2a])
+      ? "image/tiff"
+      : null,
+  (b) => (startsWith(b, [0x42, 0x4d]) && startsWith(b, [0, 0, 0, 0], 6) ? "image/bmp" : null),
+  (b) => (startsWith(b, [0x00, 0x00, 0x01, 0x00]) && b[4] > 0 ? "image/x-icon" : null),
+  (b) => (ascii(b, 0, 5) === "%PDF-" ? "application/pdf" : null),
+  (b) =>
+    startsWith(b, [0x50, 0x4b, 0x03, 0x04]) || startsWith(b, [0x50, 0x4b, 0x05, 0x06])
+      ? zipType(b)
+      : null,
+  (b) => (ascii(b, 0, 6) === "Rar!\x1a\x07" ? "application/x-rar-compressed" : null),
+  (b) =>
+    startsWith(b, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]) ? "application/x-7z-compressed" : null,
+  (b) => (startsWith(b, [0x1f, 0x8b]) ? "application/gzip" : null),
+  (b) =>
+    startsWith(b, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) ? "application/x-cfb" : null,
+  isoBrand,
+  (b) => {
+    if (!startsWith(b, [0x1a, 0x45, 0xdf, 0xa3])) return null;
+    return includesAscii(b, "webm", 64) ? "video/webm" : "video/x-matroska";
+  },
+  (b) => {
+    if (ascii(b, 0, 4) !== "OggS") return null;
+    if (includesAscii(b, "theora", 64)) return "video/ogg";
+    if (includesAscii(b, "vorbis", 64) || includesAscii(b, "OpusHead", 64)) return "audio/ogg";
+    return "application/ogg";
+  },
+  (b) => (ascii(b, 0, 4) === "fLaC" ? "audio/flac" : null),
+  (b) => (ascii(b, 0, 3) === "ID3" ? "audio/mpeg" : null),
+  mpegAudio,
+  (b) => (ascii(b, 0, 2) === "MZ" ? "application/x-msdownload" : null),
+  (b) => (startsWith(b, [0x7f, 0x45, 0x4c, 0x46]) ? "application/x-executable" : null),
+];
+
+/** Usual extensions of each detectable format, preferred first. */
+const EXTENSIONS: Record<string, string[]> = {
+  "image/png": [".png"],
+  "image/jpeg": [".jpg", ".jpeg", ".jfif"],
+  "image/gif": [".gif"],
+  "image/webp": [".webp"],
+  "image/tiff": [".tif", ".tiff"],
+  "image/bmp": [".bmp"],
+  "image/x-icon": [".ico"],
+  "image/avif": [".avif"],
+  "image/heic": [".heic", ".heif"],
+  "application/pdf": [".pdf"],
+  "application/zip": [".zip"],
+  "application/epub+zip": [".epub"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [".xlsx"],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": [".pptx"],
+  "application/x-rar-compressed": [".rar"],
+  "application/x-7z-compressed": [".7z"],
+  "application/gzip": [".gz", ".tgz"],
+  "application/x-cfb": [".doc", ".xls", ".ppt", ".msg"],
+  "video/mp4": [".mp4", ".m4v"],
+  "video/quicktime": [".mov"],
+  "video/3gpp": [".3gp"],
+  "video/webm": [".webm"],
+  "video/x-matroska": [".mkv"],
+  "video/x-msvideo": [".avi"],
+  "video/ogg": [".ogv"],
+  "audio/mp4": [".m4a", ".m4b"],
+  "audio/mpeg": [".mp3"],
+  "audio/aac": [".aac"],
+  "audio/wav": [".wav"],
+  "audio/ogg": [".ogg", ".oga", ".opus"],
+  "audio/flac": [".flac"],
+  "application/ogg": [".ogx"],
+  "application/x-msdownload": [".exe", ".dll"],
+  "application/x-executable": [".elf", ".so"],
+};
+
+/**
+ * MIME types that name the same content. A detected type matches a declared
+ * one when both are in a group; containers whose contents can't be told
+ * apart from the first bytes (MP4, Matroska, Ogg, ZIP, legacy Office) are
+ * grouped loosely.
+ */
+const TYPE_GROUPS: string[][] = [
+  ["image/jpeg", "image/jpg", "image/pjpeg"],
+  ["image/x-icon", "image/vnd.microsoft.icon"],
+  ["image/heic", "image/heif", "image/heic-sequence", "image/heif-sequence"],
+  ["image/bmp", "image/x-bmp", "image/x-ms-bmp"],
+  ["audio/wav", "audio/x-wav", "audio/wave", "audio/vnd.wave"],
+  ["audio/mpeg", "audio/mp3", "audio/mpeg3"],
+  ["audio/aac", "audio/x-aac", "audio/aacp"],
+  ["audio/flac", "audio/x-flac"],
+  [
+    "video/mp4",
+    "video/x-m4v",
+    "video/quicktime",
+    "video/3gpp",
+    "audio/mp4",
+    "audio/x-m4a",
+    "audio/m4a",
+    "audio/3gpp",
+  ],
+  ["video/webm", "audio/webm", "video/x-matroska", "audio/x-matroska"],
+  ["application/ogg", "audio/ogg", "video/ogg", "audio/opus"],
+  ["video/x-msvideo", "video/avi", "video/msvideo"],
+  [
+    "application/zip",
+    "application/x-zip-compressed",
+    "application/epub+zip",
+    "application/java-archive",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    "application/vnd.oasis.opendocument.text",
+    "application/vnd.oasis.opendocument.spreadsheet",
+    "application/vnd.oasis.opendocument.presentation",
+  ],
+  [
+    "application/x-cfb",
+    "application/msword",
+    "application/vnd.ms-excel",
+    "application/vnd.ms-powerpoint",
+    "application/vnd.ms-outlook",
+  ],
+  ["application/x-rar-compressed", "application/vnd.rar", "application/x-rar"],
+  ["application/gzip", "application/x-gzip"],
+  [
+    "application/x-msdownload",
+    "application/x-msdos-program",
+    "application/vnd.microsoft.portable-executable",
+  ],
+];
+
+const groupOf = new Map<string, string[]>();
+for (const group of TYPE_GROUPS) for (const type of group) groupOf.set(type, group);
+
+/**
+ * Detect a file's format from its first bytes. Recognizes common images
+ * (PNG, JPEG, GIF, WebP, TIFF, BMP, ICO, AVIF, HEIC), PDF, ZIP (with DOCX,
+ * XLSX, PPTX and EPUB), RAR, 7z, gzip, legacy Office, MP4/MOV, WebM/MKV,
+ * AVI, Ogg, MP3, AAC, WAV, FLAC and Windows/Linux executables. Text formats
+ * (plain text, CSV, SVG, JSON) have no signature and return null.
+ *
+ * @param file - File, Blob or the leading bytes of a file
+ * @returns The detected type, or null if the format is not recognized
+ *
+ * @example
+ * ```ts
+ * const sniffed = await sniffFileType(file);
+ * if (sniffed?.mime !== "application/pdf") throw new Error("Please choose a PDF");
+ * ```
+ */
+export async function sniffFileType(file: Blob | Uint8Array): Promise<SniffedFileType | null> {
+  const bytes =
+    file instanceof Blob
+      ? await readBlob(file.slice(0, SNIFF_BYTES))
+      : new Uint8Array(file.buffer, file.byteOffset, Math.min(file.byteLength, SNIFF_BYTES));
+  for (const detect of DETECTORS) {
+    const mime = detect(bytes);
+    if (mime) return { mime, extension: EXTENSIONS[mime][0] };
+  }
+  return null;
+}
+
+/**
+ * Whether a detected type is consistent with a declared MIME type.
+ *
+ * @internal
+ */
+export function isSameContentType(detected: string, declared: string): boolean {
+  const type = declared.toLowerCase();
+  return detected === type || (groupOf.get(detected)?.includes(type) ?? false);
+}
+
+/**
+ * Whether files of this MIME type always start with a signature that
+ * sniffFileType() recognizes; content claiming such a type must match.
+ *
+ * @internal
+ */
+export function hasSignature(declared: string): boolean {
+  const type = declared.toLowerCase();
+  return type in EXTENSIONS || groupOf.has(type);
+}
+
+/**
+ * The detectable MIME type usually stored under an extension, e.g. ".jpg".
+ *
+ * @internal
+ */
+export function typeForExtension(extension: string): string | undefined {
+  const ext = extension.toLowerCase();
+  return Object.keys(EXTENSIONS).find((mime) => EXTENSIONS[mime].includes(ext));
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+  memoryStateStore,
+  localStorageStateStore,
+  indexedDBStateStore,
+  fingerprintFile,
+  stateKey,
+  cleanupUploadState,
+} from "./state-store";
+import type { UploadStateRecord, UploadStateStore } from "./state-store";
+
+function createRecord(key: string, overrides: Partial<UploadStateRecord> = {}): UploadStateRecord {
+  const now = Date.now();
+  return {
+    key,
+    fingerprint: { name: "a.bin", size: 1, lastModified: 0 },
+    protocol: "tus",
+    session: "https://tus.example.com/files/1",
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now + 60_000,
+    ...overrides,
+  };
+}
+
+describe.each([
+  ["memoryStateStore", () => memoryStateStore()],
+  ["localStorageStateStore", () => localStorageStateStore({ prefix: "test:" })],
+])("%s", (_name, createStore: () => UploadStateStore) => {
+  let store: UploadStateStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = createStore();
+  });
+
+  it("stores, lists and deletes records", async () => {
+    await store.set(createRecord("a"));
+    await store.set(createRecord("b", { offset: 10 }));
+
+    expect(await store.get("b")).toMatchObject({ key: "b", offset: 10 });
+    expect((await store.list()).map((r) => r.key).sort()).toEqual(["a", "b"]);
+
+    await store.delete("a");
+    expect(await store.get("a")).toBeUndefined();
+  });
+
+  it("returns copies that do not alias stored state", async () => {
+    await store.set(createRecord("a", { offset: 1 }));
+    const record = await store.get("a");
+    if (record) record.offset = 99;
+
+    expect((await store.get("a"))?.offset).toBe(1);
+  });
+});
+
+describe("localStorageStateStore", () => {
+  it("ignores keys outside its prefix", async () => {
+    localStorage.clear();
+    localStorage.setItem("other", "{}");
+    const store = localStorageStateStore();
+    await store.set(createRecord("a"));
+
+    expect(await store.list()).toHaveLength(1);
+    expect(localStorage.getItem("uplnk:a")).not.toBeNull();
+  });
+});
+
+describe("indexedDBStateStore", () => {
+  it("opens the database again after a failed open", async () => {
+    const open = vi.fn(() => {
+      const request = { error: new DOMException("blocked") } as unknown as IDBOpenDBRequest;
+      setTimeout(() => request.onerror?.(new Event("error")), 0);
+      return request;
+    });
+    vi.stubGlobal("indexedDB", { open });
+    try {
+      const store = indexedDBStateStore();
+      await expect(store.get("a")).rejects.toThrow("blocked");
+      await expect(store.list()).rejects.toThrow("blocked");
+      expect(open).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("fingerprintFile", () => {
+  it("uses name, size and lastModified", async () => {
+    const file = new File(["hello"], "a.txt", { lastModified: 1234 });
+
+    expect(await fingerprintFile(file)).toEqual({ name: "a.txt", size: 5, lastModified: 1234 });
+  });
+
+  it("optionally hashes the leading bytes", async () => {
+    const file = new File(["hello"], "a.txt", { lastModified: 1234 });
+    const { hash } = await fingerprintFile(file, { hashBytes: 1024 });
+
+    expect(hash).toBe("2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824");
+  });
+
+  it("produces different keys per scope", () => {
+    const fingerprint = { name: "a", size: 1, lastModified: 2 };
+
+    expect(stateKey(fingerprint, "https://a/")).not.toBe(stateKey(fingerprint, "https://b/"));
+  });
+});
+
+describe("cleanupUploadState", () => {
+  it("removes expired and stale records", async () => {
+    const store = memoryStateStore();
+    const now = Date.now();
+    await store.set(createRecord("fresh"));
+    await store.set(createRecord("expired", { expiresAt: now - 1 }));
+    await store.set(createRecord("stale", { updatedAt: now - 10_000 }));
+
+    const removed = await cleanupUploadState({ store, olderThanMs: 5_000 });
+
+    expect(removed.map((r) => r.key).sort()).toEqual(["expired", "stale"]);
+    expect((await store.list()).map((r) => r.key)).toEqual(["fresh"]);
+  });
+});
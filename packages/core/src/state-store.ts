@@ -0,0 +1,283 @@
+/**
+ * @uplnk/core/state-store — Persistent upload state for resuming across page reloads.
+ */
+
+import type { CompletedPart } from "./multipart";
+import type { EncryptionInfo } from "@uplnk/types";
+import { readBlob } from "./streams";
+
+/** Identity of a file, used to match it against stored upload state. */
+export interface FileFingerprint {
+  /** File name. */
+  name: string;
+  /** Size in bytes. */
+  size: number;
+  /** Last modification timestamp (ms). */
+  lastModified: number;
+  /** Optional SHA-256 (hex) of the first bytes of the file. */
+  hash?: string;
+}
+
+/** Persisted state of an unfinished upload. */
+export interface UploadStateRecord {
+  /** Store key (fingerprint and scope). */
+  key: string;
+  /** Fingerprint of the file being uploaded. */
+  fingerprint: FileFingerprint;
+  /** Protocol used for the upload. */
+  protocol: "tus" | "multipart";
+  /** Session identifier: the tus upload URL or the multipart upload ID. */
+  session: string;
+  /** tus: last offset acknowledged by the server. */
+  offset?: number;
+  /** multipart: part size the upload was planned with. */
+  partSize?: number;
+  /** multipart: parts uploaded so far. */
+  parts?: CompletedPart[];
+  /** multipart: how the parts were encrypted (never the key), when `encrypt` is set. */
+  encryption?: EncryptionInfo;
+  /** Creation timestamp (ms). */
+  createdAt: number;
+  /** Last update timestamp (ms). */
+  updatedAt: number;
+  /** Expiry timestamp (ms); expired records are ignored and removed. */
+  expiresAt: number;
+}
+
+/** Storage backend for upload state. All methods may be async. */
+export interface UploadStateStore {
+  /** Get a record by key. */
+  get(key: string): Promise<UploadStateRecord | undefined>;
+  /** Insert or replace a record. */
+  set(record: UploadStateRecord): Promise<void>;
+  /** Remove a record by key. */
+  delete(key: string): Promise<void>;
+  /** List all records. */
+  list(): Promise<UploadStateRecord[]>;
+}
+
+/** Options for computing a file fingerprint. */
+export interface FingerprintOptions {
+  /** Hash this many leading bytes with SHA-256 (0 disables hashing). Default: 0. */
+  hashBytes?: number;
+}
+
+/** Options for removing stale upload state. */
+export interface CleanupOptions {
+  /** Store to clean. Default: the default store. */
+  store?: UploadStateStore;
+  /** Also remove records not updated within this many ms. */
+  olderThanMs?: number;
+}
+
+/** Default time a record stays resumable (7 days). */
+export const DEFAULT_STATE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Create an in-memory store. State is lost on reload; useful for tests and
+ * environments without persistent storage.
+ *
+ * @example
+ * ```ts
+ * await resumeUpload(file, { store: memoryStateStore(), tus: { endpoint } });
+ * ```
+ */
+export function memoryStateStore(): UploadStateStore {
+  const records = new Map<string, UploadStateRecord>();
+  return {
+    async get(key) {
+      const record = records.get(key);
+      return record ? structuredClone(record) : undefined;
+    },
+    async set(record) {
+      records.set(record.key, structuredClone(record));
+    },
+    async delete(key) {
+      records.delete(key);
+    },
+    async list() {
+      return Array.from(records.values(), (record) => structuredClone(record));
+    },
+  };
+}
+
+/**
+ * Create a store backed by `localStorage`. Records are JSON under `prefix`.
+ *
+ * @param options.prefix - Key prefix (default: "uplnk:")
+ * @param options.storage - Storage to use (default: globalThis.localStorage)
+ */
+export function localStorageStateStore(
+  options: { prefix?: string; storage?: Storage } = {},
+): UploadStateStore {
+  const { prefix = "uplnk:" } = options;
+  const storage = (): Storage => options.storage ?? globalThis.localStorage;
+
+  return {
+    async get(key) {
+      const raw = storage().getItem(prefix + key);
+      return raw ? (JSON.parse(raw) as UploadStateRecord) : undefined;
+    },
+    async set(record) {
+      storage().setItem(prefix + record.key, JSON.stringify(record));
+    },
+    async delete(key) {
+      storage().removeItem(prefix + key);
+    },
+    async list() {
+      const records: UploadStateRecord[] = [];
+      const store = storage();
+      for (let i = 0; i < store.length; i++) {
+        const key = store.key(i);
+        if (key == null || !key.startsWith(prefix)) continue;
+        const raw = store.getItem(key);
+        if (raw) records.push(JSON.parse(raw) as UploadStateRecord);
+      }
+      return records;
+    },
+  };
+}
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Create a store backed by IndexedDB. This is the default store in browsers.
+ *
+ * @param options.dbName - Database name (default: "uplnk")
+ * @param options.storeName - Object store name (default: "uploads")
+ */
+export function indexedDBStateStore(
+  options: { dbName?: string; storeName?: string } = {},
+): UploadStateStore {
+  const { dbName = "uplnk", storeName = "uploads" } = options;
+  let db: Promise<IDBDatabase> | undefined;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (db) return db;
+    db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Blocked, over quota or private mode: let a later call try again.
+    db.catch(() => {
+      db = undefined;
+    });
+    return db;
+  };
+
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const database = await open();
+    return idbRequest(run(database.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    async get(key) {
+      return withStore("readonly", (store) => store.get(key) as IDBRequest<UploadStateRecord>);
+    },
+    async set(record) {
+      await withStore("readwrite", (store) => store.put(record));
+    },
+    async delete(key) {
+      await withStore("readwrite", (store) => store.delete(key));
+    },
+    async list() {
+      return withStore("readonly", (store) => store.getAll() as IDBRequest<UploadStateRecord[]>);
+    },
+  };
+}
+
+let sharedStore: UploadStateStore | undefined;
+
+/**
+ * Get the default store: IndexedDB where available, otherwise in-memory.
+ *
+ * @internal
+ */
+export function defaultStateStore(): UploadStateStore {
+  if (!sharedStore) {
+    sharedStore = typeof indexedDB !== "undefined" ? indexedDBStateStore() : memoryStateStore();
+  }
+  return sharedStore;
+}
+
+/**
+ * Compute the fingerprint used to match a file with stored upload state.
+ *
+ * @param file - File to fingerprint
+ * @param options - Fingerprint options
+ *
+ * @example
+ * ```ts
+ * const fingerprint = await fingerprintFile(file, { hashBytes: 1024 * 1024 });
+ * ```
+ */
+export async function fingerprintFile(
+  file: File,
+  options: FingerprintOptions = {},
+): Promise<FileFingerprint> {
+  const { hashBytes = 0 } = options;
+  const fingerprint: FileFingerprint = {
+    name: file.name,
+    size: file.size,
+    lastModified: file.lastModified,
+  };
+  if (hashBytes > 0) {
+    const bytes = await readBlob(file.slice(0, hashBytes));
+    const digest = await crypto.subtle.digest("SHA-256", bytes as BufferSource);
+    fingerprint.hash = Array.from(new Uint8Array(digest), (b) =>
+      b.toString(16).padStart(2, "0"),
+    ).join("");
+  }
+  return fingerprint;
+}
+
+/**
+ * Build the store key for a fingerprint and destination scope.
+ *
+ * @internal
+ */
+export function stateKey(fingerprint: FileFingerprint, scope: string): string {
+  const { name, size, lastModified, hash = "" } = fingerprint;
+  return [scope, name, size, lastModified, hash].join("|");
+}
+
+/**
+ * Remove expired upload state records.
+ *
+ * @param options - Cleanup options
+ * @returns The removed records
+ *
+ * @example
+ * ```ts
+ * // On app start
+ * await cleanupUploadState({ olderThanMs: 24 * 60 * 60 * 1000 });
+ * ```
+ */
+export async function cleanupUploadState(
+  options: CleanupOptions = {},
+): Promise<UploadStateRecord[]> {
+  const { store = defaultStateStore(), olderThanMs } = options;
+  const now = Date.now();
+  const removed: UploadStateRecord[] = [];
+
+  for (const record of await store.list()) {
+    const stale = olderThanMs != null && now - record.updatedAt > olderThanMs;
+    if (record.expiresAt <= now || stale) {
+      await store.delete(record.key);
+      removed.push(record);
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,119 @@
+/**
+ * @uplnk/core/streams — Internal helpers for reading Blobs in chunks.
+ */
+
+import type { StreamBody, UploadBody } from "@uplnk/types";
+
+/** Default chunk size for streamed bodies (64 KiB). */
+export const DEFAULT_STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Normalize an upload body to a Blob for browser transports. File paths and
+ * streams are only understood by the Node transport.
+ *
+ * @internal
+ */
+export function toBlob(body: UploadBody, transport: string): Blob {
+  if (body instanceof Blob) return body;
+  if (body instanceof Uint8Array) return new Blob([body as BlobPart]);
+  throw new TypeError(
+    `uplnk: the ${transport} transport only sends File, Blob or Uint8Array bodies; ` +
+      `use nodeTransport() from "@uplnk/core/node" for file paths and streams`,
+  );
+}
+
+/**
+ * Whether a body is a StreamBody: an async iterable with a known size.
+ *
+ * @internal
+ */
+export function isStreamBody(body: UploadBody): body is StreamBody {
+  return (
+    typeof body === "object" &&
+    !(body instanceof Blob) &&
+    !ArrayBuffer.isView(body) &&
+    typeof (body as Partial<StreamBody>).size === "number" &&
+    Symbol.asyncIterator in body
+  );
+}
+
+/**
+ * Read a StreamBody into a Blob for transports that send one body at once.
+ * Chunks are kept as Blob parts, so they are not copied into one buffer.
+ *
+ * @internal
+ */
+export async function collectBody(body: StreamBody): Promise<Blob> {
+  const parts: Blob[] = [];
+  for await (const chunk of body) parts.push(new Blob([chunk as BlobPart]));
+  return new Blob(parts);
+}
+
+/**
+ * Read a Blob into memory. Falls back to FileReader where `Blob.arrayBuffer`
+ * is unavailable (older browsers, jsdom).
+ *
+ * @internal
+ */
+export function readBlob(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === "function") {
+    return blob.arrayBuffer().then((buffer) => new Uint8Array(buffer));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Iterate over a Blob in fixed-size chunks without loading it all at once.
+ *
+ * @internal
+ */
+export async function* blobChunks(
+  blob: Blob,
+  chunkSize: number = DEFAULT_STREAM_CHUNK_SIZE,
+): AsyncGenerator<Uint8Array> {
+  for (let offset = 0; offset < blob.size; offset += chunkSize) {
+    yield await readBlob(blob.slice(offset, Math.min(offset + chunkSize, blob.size)));
+  }
+}
+
+/**
+ * Wrap a Blob or StreamBody in a pull-based ReadableStream that calls
+ * `onRead` with the running byte count each time a chunk is handed to the
+ * consumer. When `pace` is given, each chunk waits for it first (bandwidth
+ * limiting). A StreamBody keeps its own chunk sizes.
+ *
+ * @internal
+ */
+export function meteredBlobStream(
+  blob: Blob | StreamBody,
+  onRead: (loaded: number) => void,
+  chunkSize: number = DEFAULT_STREAM_CHUNK_SIZE,
+  pace?: (bytes: number) => Promise<void>,
+): ReadableStream<Uint8Array> {
+  const chunks = blob instanceof Blob ? blobChunks(blob, chunkSize) : blob[Symbol.asyncIterator]();
+  let loaded = 0;
+  return new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        if (pace) await pace(value.byteLength);
+        loaded += value.byteLength;
+        controller.enqueue(value);
+        onRead(loaded);
+      },
+      async cancel() {
+        await chunks.return?.(undefined);
+      },
+    },
+    { highWaterMark: 0 },
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * @uplnk/core/test-transports — Fake transports shared by the tests.
+ *
+ * @internal
+ */
+
+import type {
+  TransportRequest,
+  TransportResponse,
+  UploadError,
+  UploadTransport,
+} from "@uplnk/types";
+
+const ok: TransportResponse = { status: 200, headers: {}, responseText: "" };
+
+/** Let pending promises and timers of zero delay settle. */
+export const tick = (): Promise<void> => new Promise((r) => setTimeout(r, 0));
+
+/** A fake transport that records the requests it was sent. */
+export type RecordingTransport = UploadTransport & { requests: TransportRequest[] };
+
+/**
+ * Transport that answers with `responses` in order and then with 200s.
+ * UploadError entries are thrown instead of returned.
+ */
+export function createResponder(
+  responses: Array<TransportResponse | UploadError>,
+): RecordingTransport {
+  const requests: TransportRequest[] = [];
+  return {
+    name: "fake",
+    requests,
+    async send(request) {
+      requests.push(request);
+      const size = (request.body as Blob).size;
+      request.onUploadProgress?.(size, size);
+      const next = responses.shift() ?? ok;
+      if ("type" in next) throw next;
+      return next;
+    },
+  };
+}
+
+/** Transport whose requests stay open until released by URL, or aborted. */
+export function createGatedTransport(): RecordingTransport & {
+  started: string[];
+  /** Answer the latest open request to `url`. */
+  release(url: string, response?: TransportResponse): void;
+} {
+  const started: string[] = [];
+  const requests: TransportRequest[] = [];
+  const waiting = new Map<string, (response: TransportResponse) => void>();
+  return {
+    name: "gated",
+    started,
+    requests,
+    release: (url, response = ok) => waiting.get(url)?.(response),
+    send(request) {
+      started.push(request.url);
+      requests.push(request);
+      return new Promise((resolve, reject) => {
+        request.signal?.addEventListener("abort", () => reject({ type: "abort" }));
+        waiting.set(request.url, resolve);
+      });
+    },
+  };
+}
+
+/** Options for createPartTransport(). */
+export interface PartTransportOptions {
+  /** Part URLs that fail once, then succeed. */
+  failFirst?: Set<string>;
+  /** Part URLs that fail for as long as they are in the set. */
+  failing?: Set<string>;
+  /** Status of failed parts. Default: 503. */
+  status?: number;
+  /** Leave the ETag header out of part responses. */
+  omitEtag?: boolean;
+}
+
+/** Multipart part transport answering with an ETag of `"etag-<url>"`. */
+export function createPartTransport(options: PartTransportOptions = {}): RecordingTransport {
+  const { failing, status = 503 } = options;
+  const requests: TransportRequest[] = [];
+  const failFirst = new Set(options.failFirst);
+  return {
+    name: "fake",
+    requests,
+    async send(request) {
+      requests.push(request);
+      const size = (request.body as Blob).size;
+      const headers: Record<string, string> = options.omitEtag
+        ? {}
+        : { etag: `"etag-${request.url}"` };
+      request.onStart?.({
+        transport: "fake",
+        method: request.method,
+        url: request.url,
+        bodySize: size,
+        status: 200,
+        responseText: "",
+        setRequestHeader: () => {},
+        getResponseHeader: (name) => headers[name.toLowerCase()] ?? null,
+        getResponseHeaders: () => headers,
+        abort: () => {},
+      });
+      request.onUploadProgress?.(size, size);
+      if (failFirst.delete(request.url) || failing?.has(request.url)) {
+        return { status, headers: {}, responseText: "" };
+      }
+      return { status: 200, headers, responseText: "" };
+    },
+  };
+}
+
+/** In-memory tus server. */
+export interface FakeTusServer extends RecordingTransport {
+  uploads: Map<string, { length: number; offset: number; metadata?: string }>;
+  /** Drop the connection after accepting this many bytes of the next PATCH. */
+  failNextPatchAfter?: number;
+  /** Acknowledge PATCHes without storing any of their bytes. */
+  stalled?: boolean;
+}
+
+/**
+ * tus server creating uploads at `/files/<n>`. Requests without the tus
+ * headers are refused with 412 or 415, and PATCHes at the wrong offset with 409.
+ */
+export function createTusServer(): FakeTusServer {
+  let nextId = 1;
+  const server: FakeTusServer = {
+    name: "fake-tus",
+    requests: [],
+    uploads: new Map(),
+    async send(request): Promise<TransportResponse> {
+      server.requests.push(request);
+      if (request.headers["Tus-Resumable"] !== "1.0.0") {
+        return { status: 412, headers: {}, responseText: "" };
+      }
+      const path = new URL(request.url).pathname;
+      const upload = server.uploads.get(path);
+
+      switch (request.method) {
+        case "POST": {
+          const id = `/files/${nextId++}`;
+          server.uploads.set(id, {
+            length: Number(request.headers["Upload-Length"]),
+            offset: 0,
+            metadata: request.headers["Upload-Metadata"],
+          });
+          return { status: 201, headers: { location: id }, responseText: "" };
+        }
+        case "HEAD":
+          if (!upload) return { status: 404, headers: {}, responseText: "" };
+          return {
+            status: 200,
+            headers: { "upload-offset": String(upload.offset) },
+            responseText: "",
+          };
+        case "PATCH": {
+          if (!upload) return { status: 404, headers: {}, responseText: "" };
+          if (request.headers["Content-Type"] !== "application/offset+octet-stream") {
+            return { status: 415, headers: {}, responseText: "" };
+          }
+          if (Number(request.headers["Upload-Offset"]) !== upload.offset) {
+            return { status: 409, headers: {}, responseText: "" };
+          }
+          const size = (request.body as Blob).size;
+          if (server.failNextPatchAfter != null) {
+            upload.offset += Math.min(size, server.failNextPatchAfter);
+            server.failNextPatchAfter = undefined;
+            throw { type: "network" };
+          }
+          request.onUploadProgress?.(size, size);
+          if (!server.stalled) upload.offset += size;
+          return {
+            status: 204,
+            headers: { "upload-offset": String(upload.offset) },
+            responseText: "",
+          };
+        }
+        case "DELETE":
+          if (!upload) return { status: 404, headers: {}, responseText: "" };
+          server.uploads.delete(path);
+          return { status: 204, headers: {}, responseText: "" };
+        default:
+          return { status: 405, headers: {}, responseText: "" };
+      }
+    },
+  };
+  return server;
+}
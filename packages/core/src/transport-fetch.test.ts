@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchTransport } from "./transport-fetch";
+import { readBlob } from "./streams";
+import type { StreamBody, TransportRequest } from "@uplnk/types";
+
+async function drain(body: unknown): Promise<number> {
+  if (!(body instanceof ReadableStream)) return (body as Blob).size;
+  const reader = body.getReader();
+  let bytes = 0;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return bytes;
+    bytes += value.byteLength;
+  }
+}
+
+function createRequest(overrides: Partial<TransportRequest> = {}): TransportRequest {
+  return {
+    url: "https://example.com/upload",
+    method: "PUT",
+    headers: {},
+    body: new Blob(["x".repeat(200)], { type: "text/plain" }),
+    withCredentials: false,
+    signal: new AbortController().signal,
+    ...overrides,
+  };
+}
+
+describe("fetchTransport", () => {
+  it("meters a streamed body and resolves with the response", async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      await drain(init.body);
+      return new Response("ok", { status: 201, headers: { ETag: '"abc"' } });
+    });
+    const transport = fetchTransport({ fetch: fetchMock as any, chunkSize: 64 });
+    const progress: number[] = [];
+
+    const response = await transport.send(
+      createRequest({ onUploadProgress: (loaded) => progress.push(loaded) }),
+    );
+
+    expect(response.status).toBe(201);
+    expect(response.responseText).toBe("ok");
+    expect(response.headers.etag).toBe('"abc"');
+    expect(progress).toEqual([64, 128, 192, 200]);
+
+    const init = fetchMock.mock.calls[0][1] as RequestInit & { duplex?: string };
+    expect(init.duplex).toBe("half");
+    expect((init.headers as Record<string, string>)["Content-Type"]).toBe("text/plain");
+  });
+
+  it("sends the Blob directly when streaming is disabled", async () => {
+    const fetchMock = vi.fn(async () => new Response(""));
+    const transport = fetchTransport({ fetch: fetchMock as any, streamBody: false });
+    const progress: Array<[number, number | undefined]> = [];
+
+    await transport.send(createRequest({ onUploadProgress: (l, t) => progress.push([l, t]) }));
+
+    const init = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init[1].body).toBeInstanceOf(Blob);
+    expect(progress).toEqual([[200, 200]]);
+  });
+
+  it("streams a StreamBody chunk by chunk, or collects it when not streaming", async () => {
+    const body: StreamBody = {
+      size: 6,
+      async *[Symbol.asyncIterator]() {
+        yield new TextEncoder().encode("abc");
+        yield new TextEncoder().encode("def");
+      },
+    };
+    const bodies: unknown[] = [];
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      bodies.push(init.body);
+      await drain(init.body);
+      return new Response("");
+    });
+    const progress: number[] = [];
+
+    await fetchTransport({ fetch: fetchMock as any }).send(
+      createRequest({ body, onUploadProgress: (loaded) => progress.push(loaded) }),
+    );
+    await fetchTransport({ fetch: fetchMock as any, streamBody: false }).send(
+      createRequest({ body }),
+    );
+
+    expect(progress).toEqual([3, 6]);
+    expect(bodies[0]).toBeInstanceOf(ReadableStream);
+    expect(bodies[1]).toBeInstanceOf(Blob);
+    expect(new TextDecoder().decode(await readBlob(bodies[1] as Blob))).toBe("abcdef");
+  });
+
+  it("passes a transport-neutral handle to onStart", async () => {
+    const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+      expect((init.headers as Record<string, string>)["X-Request-Id"]).toBe("42");
+      return new Response("");
+    });
+    const transport = fetchTransport({ fetch: fetchMock as any, streamBody: false });
+
+    await transport.send(
+      createRequest({
+        onStart: (request) => {
+          expect(request.transport).toBe("fetch");
+          expect(request.status).toBe(0);
+          request.setRequestHeader("X-Request-Id", "42");
+        },
+      }),
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects with network error when fetch throws", async () => {
+    const transport = fetchTransport({
+      fetch: (async () => {
+        throw new TypeError("Failed to fetch");
+      }) as any,
+      streamBody: false,
+    });
+
+    await expect(transport.send(createRequest())).rejects.toEqual({ type: "network" });
+  });
+
+  it("rejects with abort when the signal fires", async () => {
+    const controller = new AbortController();
+    const transport = fetchTransport({
+      fetch: ((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+        })) as any,
+      streamBody: false,
+    });
+
+    const p = transport.send(createRequest({ signal: controller.signal }));
+    controller.abort();
+
+    await expect(p).rejects.toEqual({ type: "abort" });
+  });
+
+  it("rejects file paths with a pointer to the Node transport", async () => {
+    const transport = fetchTransport({ fetch: vi.fn() as any });
+
+    await expect(transport.send(createRequest({ body: "./file.bin" }))).rejects.toThrow(
+      /nodeTransport/,
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * @uplnk/core/transport-fetch — fetch() transport for workers, Deno, Bun and edge runtimes.
+ */
+
+import type {
+  UploadTransport,
+  TransportRequest,
+  TransportResponse,
+  UploadRequest,
+  UploadError,
+} from "@uplnk/types";
+import {
+  collectBody,
+  isStreamBody,
+  meteredBlobStream,
+  toBlob,
+  DEFAULT_STREAM_CHUNK_SIZE,
+} from "./streams";
+
+/** Options for the fetch transport. */
+export interface FetchTransportOptions {
+  /**
+   * Send the body as a metered ReadableStream (`duplex: "half"`) so progress
+   * can be reported. Falls back to a plain Blob body when the runtime cannot
+   * stream request bodies. Default: true.
+   */
+  streamBody?: boolean;
+  /** Chunk size in bytes for the streamed body. Default: 65536. */
+  chunkSize?: number;
+  /** fetch implementation to use. Default: globalThis.fetch. */
+  fetch?: typeof fetch;
+}
+
+let streamingSupport: boolean | undefined;
+
+/**
+ * Detect whether this runtime can send a ReadableStream as a request body.
+ *
+ * @internal
+ */
+export function supportsRequestStreams(): boolean {
+  if (streamingSupport !== undefined) return streamingSupport;
+  let duplexAccessed = false;
+  try {
+    const hasContentType = new Request("data:,", {
+      method: "POST",
+      body: new ReadableStream(),
+      get duplex() {
+        duplexAccessed = true;
+        return "half";
+      },
+    } as RequestInit).headers.has("Content-Type");
+    streamingSupport = duplexAccessed && !hasContentType;
+  } catch {
+    streamingSupport = false;
+  }
+  return streamingSupport;
+}
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name.toLowerCase()] = value;
+  });
+  return record;
+}
+
+/**
+ * Create a transport built on fetch(). Progress is reported by metering the
+ * ReadableStream body as the runtime consumes it, so it works in service
+ * workers, Deno, Bun and edge runtimes where XMLHttpRequest is missing.
+ *
+ * Note: streamed bodies are sent without Content-Length (chunked encoding,
+ * HTTP/2 in browsers). Endpoints that require a length, such as S3 presigned
+ * PUT URLs, need `streamBody: false`. The fetch transport picked when no
+ * transport is passed does not stream.
+ *
+ * @example
+ * ```ts
+ * await uplnk({
+ *   url,
+ *   file,
+ *   transport: fetchTransport(),
+ *   onProgress: (p) => console.log(p.percent),
+ * });
+ * ```
+ */
+export function fetchTransport(options: FetchTransportOptions = {}): UploadTransport {
+  const { streamBody = true, chunkSize = DEFAULT_STREAM_CHUNK_SIZE } = options;
+
+  return {
+    name: "fetch",
+    async send(request: TransportRequest): Promise<TransportResponse> {
+      const { url, method, withCredentials, signal, responseType = "text" } = request;
+      const source = isStreamBody(request.body) ? request.body : toBlob(request.body, "fetch");
+      const total = source.size;
+      // fetch() refuses bodies on HEAD, and empty bodies gain nothing from streaming.
+      const hasBody = total > 0 && method !== "HEAD";
+      const streaming = hasBody && streamBody && supportsRequestStreams();
+      // Sent whole, a StreamBody is read into a Blob first.
+      const body = streaming || source instanceof Blob ? source : await collectBody(source);
+      const fetchImpl = options.fetch ?? globalThis.fetch;
+      const controller = new AbortController();
+      const onAbort = (): void => controller.abort();
+      const headers: Record<string, string> = { ...request.headers };
+      let response: Response | undefined;
+      let responseText = "";
+      let responseBody: Blob | undefined;
+
+      const handle: UploadRequest = {
+        transport: "fetch",
+        method,
+        url,
+        bodySize: body.size,
+        get status() {
+          return response?.status ?? 0;
+        },
+        get responseText() {
+          return responseText;
+        },
+        setRequestHeader: (name, value) => {
+          headers[name] = value;
+        },
+        getResponseHeader: (name) => response?.headers.get(name) ?? null,
+        getResponseHeaders: () => (response ? headersToRecord(response.headers) : {}),
+        abort: () => controller.abort(),
+      };
+      request.onStart?.(handle);
+
+      if (signal.aborted || controller.signal.aborted) {
+        const err: UploadError = { type: "abort" };
+        throw err;
+      }
+      signal.addEventListener("abort", onAbort);
+
+      const hasContentType = Object.keys(headers).some((h) => h.toLowerCase() === "content-type");
+      if (!hasContentType && hasBody && body instanceof Blob && body.type) {
+        headers["Content-Type"] = body.type;
+      }
+
+      const init: RequestInit & { duplex?: "half" } = {
+        method,
+        headers,
+        signal: controller.signal,
+        credentials: withCredentials ? "include" : "same-origin",
+      };
+      if (streaming) {
+        init.body = meteredBlobStream(
+          body,
+          (loaded) => request.onUploadProgress?.(loaded, total),
+          chunkSize,
+          request.pace,
+        );
+        init.duplex = "half";
+      } else if (hasBody) {
+        init.body = body as Blob;
+      }
+
+      try {
+        // A plain body is paid for as a whole before it is sent (see TransportRequest.pace).
+        if (request.pace && hasBody && !streaming) await request.pace(total);
+        response = await fetchImpl(url, init);
+        if (responseType === "blob") responseBody = await response.blob();
+        else responseText = await response.text();
+      } catch {
+        const err: UploadError = controller.signal.aborted
+          ? { type: "abort" }
+          : { type: "network" };
+        throw err;
+      } finally {
+        signal.removeEventListener("abort", onAbort);
+      }
+
+      if (!streaming) request.onUploadProgress?.(total, total);
+
+      return {
+        status: response.status,
+        headers: headersToRecord(response.headers),
+        responseText,
+        body: responseBody,
+      };
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { parseRawHeaders } from "./transport-xhr";
+
+describe("parseRawHeaders", () => {
+  it("lower-cases names and trims values", () => {
+    expect(parseRawHeaders('ETag: "abc"\r\nContent-Type: text/plain\r\n')).toEqual({
+      etag: '"abc"',
+      "content-type": "text/plain",
+    });
+  });
+
+  it("joins repeated headers", () => {
+    expect(parseRawHeaders("Vary: Origin\r\nvary: Accept\r\n")).toEqual({ vary: "Origin, Accept" });
+  });
+
+  it("returns an empty map for an empty string", () => {
+    expect(parseRawHeaders("")).toEqual({});
+  });
+});
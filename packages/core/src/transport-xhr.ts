@@ -0,0 +1,132 @@
+/**
+ * @uplnk/core/transport-xhr — XMLHttpRequest transport (browser default).
+ */
+
+import type {
+  UploadTransport,
+  TransportRequest,
+  TransportResponse,
+  UploadRequest,
+  UploadError,
+} from "@uplnk/types";
+import { collectBody, isStreamBody, toBlob } from "./streams";
+
+/**
+ * Parse the raw `getAllResponseHeaders()` string into a lower-cased map.
+ *
+ * @internal
+ */
+export function parseRawHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const index = line.indexOf(":");
+    if (index <= 0) continue;
+    const name = line.slice(0, index).trim().toLowerCase();
+    const value = line.slice(index + 1).trim();
+    headers[name] = headers[name] != null ? `${headers[name]}, ${value}` : value;
+  }
+  return headers;
+}
+
+/**
+ * Create the XMLHttpRequest transport. This is what uplnk() uses by default
+ * in browsers; it reports progress from native `xhr.upload` events.
+ *
+ * @example
+ * ```ts
+ * await uplnk({ url, file, transport: xhrTransport() });
+ * ```
+ */
+export function xhrTransport(): UploadTransport {
+  const send = (request: TransportRequest): Promise<TransportResponse> =>
+    new Promise((resolve, reject) => {
+      const { url, method, headers, withCredentials, signal, responseType = "text" } = request;
+      const body = toBlob(request.body, "xhr");
+      const xhr = new XMLHttpRequest();
+      let settled = false;
+      // responseText throws once responseType is "blob".
+      const readText = (): string => (responseType === "blob" ? "" : xhr.responseText);
+
+      const settle = (err: UploadError | null): void => {
+        if (settled) return;
+        settled = true;
+        signal.removeEventListener("abort", onAbort);
+        if (err) {
+          reject(err);
+        } else {
+          resolve({
+            status: xhr.status,
+            headers: parseRawHeaders(xhr.getAllResponseHeaders()),
+            responseText: readText(),
+            body: responseType === "blob" ? (xhr.response as Blob) : undefined,
+          });
+        }
+      };
+
+      const onAbort = (): void => {
+        xhr.abort();
+        settle({ type: "abort" });
+      };
+
+      if (signal.aborted) {
+        settle({ type: "abort" });
+        return;
+      }
+      signal.addEventListener("abort", onAbort);
+
+      xhr.upload.addEventListener("progress", (e) => {
+        request.onUploadProgress?.(e.loaded, e.lengthComputable ? e.total : undefined);
+      });
+      xhr.addEventListener("load", () => settle(null));
+      xhr.addEventListener("error", () => settle({ type: "network" }));
+      xhr.addEventListener("abort", () => settle({ type: "abort" }));
+
+      xhr.open(method, url, true);
+      xhr.withCredentials = withCredentials;
+      if (responseType === "blob") xhr.responseType = "blob";
+
+      for (const [key, value] of Object.entries(headers)) {
+        xhr.setRequestHeader(key, value);
+      }
+
+      const handle: UploadRequest = {
+        transport: "xhr",
+        method,
+        url,
+        bodySize: body.size,
+        get status() {
+          return xhr.status;
+        },
+        get responseText() {
+          return readText();
+        },
+        setRequestHeader: (name, value) => xhr.setRequestHeader(name, value),
+        getResponseHeader: (name) => xhr.getResponseHeader(name),
+        getResponseHeaders: () => parseRawHeaders(xhr.getAllResponseHeaders()),
+        abort: () => xhr.abort(),
+        raw: xhr,
+      };
+      request.onStart?.(handle);
+
+      if (!request.pace) {
+        xhr.send(body);
+        return;
+      }
+      // XHR sends the body in one call: pay for all of it first (see TransportRequest.pace).
+      request.pace(body.size).then(
+        () => {
+          if (!settled) xhr.send(body);
+        },
+        () => settle({ type: "abort" }),
+      );
+    });
+
+  return {
+    name: "xhr",
+    send(request) {
+      // XHR sends one body in one call, so a StreamBody is read into a Blob first.
+      if (!isStreamBody(request.body)) return send(request);
+      return collectBody(request.body).then((body) => send({ ...request, body }));
+    },
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * @uplnk/core/transports — Default transport selection.
+ */
+
+import type { UploadTransport } from "@uplnk/types";
+import { xhrTransport } from "./transport-xhr";
+import { fetchTransport } from "./transport-fetch";
+
+/**
+ * Pick the transport used when none is passed: XHR where available, fetch
+ * otherwise. The implicit fetch transport sends Blob bodies, which carry a
+ * Content-Length that presigned PUT URLs require; pass `fetchTransport()` to
+ * stream and meter them.
+ *
+ * @internal
+ */
+export function defaultTransport(): UploadTransport {
+  if (typeof XMLHttpRequest !== "undefined") return xhrTransport();
+  if (typeof fetch !== "undefined") return fetchTransport({ streamBody: false });
+  throw new Error("uplnk: no transport available; pass options.transport");
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from "vitest";
+import { tusUpload, encodeTusMetadata } from "./tus";
+import { exponentialBackoff } from "./retry-strategies";
+import { createTusServer } from "./test-transports";
+import type { UploadProgress } from "@uplnk/types";
+
+const endpoint = "https://tus.example.com/files/";
+
+describe("encodeTusMetadata", () => {
+  it("base64-encodes UTF-8 values", () => {
+    expect(encodeTusMetadata({ filename: "résumé.pdf", empty: "" })).toBe(
+      "filename csOpc3Vtw6kucGRm,empty",
+    );
+  });
+});
+
+describe("tusUpload", () => {
+  const file = new File(["x".repeat(100)], "video.mp4", { type: "video/mp4" });
+
+  it("creates an upload and PATCHes it in chunks", async () => {
+    const server = createTusServer();
+    const onUploadUrl = vi.fn();
+
+    const result = await tusUpload({
+      endpoint,
+      file,
+      chunkSize: 40,
+      transport: server,
+      onUploadUrl,
+    });
+
+    expect(result.uploadUrl).toBe("https://tus.example.com/files/1");
+    expect(onUploadUrl).toHaveBeenCalledWith("https://tus.example.com/files/1");
+    expect(server.requests.map((r) => r.method)).toEqual(["POST", "PATCH", "PATCH", "PATCH"]);
+    expect(server.requests.slice(1).map((r) => r.headers["Upload-Offset"])).toEqual([
+      "0",
+      "40",
+      "80",
+    ]);
+    expect(server.uploads.get("/files/1")).toMatchObject({ length: 100, offset: 100 });
+    expect(server.uploads.get("/files/1")?.metadata).toBe(
+      encodeTusMetadata({ filename: "video.mp4", filetype: "video/mp4" }),
+    );
+  });
+
+  it("resumes from the server offset after a failed PATCH", async () => {
+    const server = createTusServer();
+    server.failNextPatchAfter = 30;
+
+    await tusUpload({
+      endpoint,
+      file,
+      transport: server,
+      retry: exponentialBackoff({ baseDelayMs: 0, jitter: false }),
+    });
+
+    const methods = server.requests.map((r) => r.method);
+    expect(methods).toEqual(["POST", "PATCH", "HEAD", "PATCH"]);
+    expect(server.requests[3].headers["Upload-Offset"]).toBe("30");
+    expect((server.requests[3].body as Blob).size).toBe(70);
+    expect(server.uploads.get("/files/1")?.offset).toBe(100);
+  });
+
+  it("resumes an existing upload URL", async () => {
+    const server = createTusServer();
+    server.uploads.set("/files/9", { length: 100, offset: 60 });
+    const events: UploadProgress[] = [];
+
+    await tusUpload({
+      endpoint,
+      file,
+      uploadUrl: "https://tus.example.com/files/9",
+      transport: server,
+      progress: { throttleMs: 0 },
+      onProgress: (p) => events.push(p),
+    });
+
+    expect(server.requests.map((r) => r.method)).toEqual(["HEAD", "PATCH"]);
+    expect(events.map((e) => e.loaded)).toEqual([0, 60, 100, 100]);
+  });
+
+  it("creates a new upload when the resumed one is gone", async () => {
+    const server = createTusServer();
+
+    const result = await tusUpload({
+      endpoint,
+      file,
+      uploadUrl: "https://tus.example.com/files/404",
+      transport: server,
+    });
+
+    expect(server.requests.map((r) => r.method)).toEqual(["HEAD", "POST", "PATCH"]);
+    expect(result.uploadUrl).toBe("https://tus.example.com/files/1");
+  });
+
+  it("retries, then fails, when a PATCH makes no progress", async () => {
+    const server = createTusServer();
+    server.stalled = true;
+
+    await expect(
+      tusUpload({
+        endpoint,
+        file,
+        transport: server,
+        retry: exponentialBackoff({ maxAttempts: 3, baseDelayMs: 0, jitter: false }),
+      }),
+    ).rejects.toMatchObject({ type: "network", method: "PATCH" });
+    expect(server.requests.map((r) => r.method)).toEqual([
+      "POST",
+      "PATCH",
+      "HEAD",
+      "PATCH",
+      "HEAD",
+      "PATCH",
+    ]);
+  });
+
+  it("fails without retry options", async () => {
+    const server = createTusServer();
+    server.failNextPatchAfter = 10;
+
+    await expect(tusUpload({ endpoint, file, transport: server })).rejects.toMatchObject({
+      type: "network",
+    });
+  });
+
+  it("terminates the upload when aborted", async () => {
+    const server = createTusServer();
+    const controller = new AbortController();
+
+    const p = tusUpload({
+      endpoint,
+      file,
+      chunkSize: 10,
+      transport: server,
+      signal: controller.signal,
+      progress: { throttleMs: 0 },
+      onProgress: (progress) => {
+        if (progress.loaded >= 20) controller.abort();
+      },
+    });
+
+    await expect(p).rejects.toMatchObject({ type: "abort" });
+    expect(server.requests.at(-1)?.method).toBe("DELETE");
+    expect(server.uploads.size).toBe(0);
+  });
+
+  it("keeps the upload when terminateOnAbort is false", async () => {
+    const server = createTusServer();
+    const controller = new AbortController();
+
+    const p = tusUpload({
+      endpoint,
+      file,
+      chunkSize: 10,
+      transport: server,
+      signal: controller.signal,
+      terminateOnAbort: false,
+      progress: { throttleMs: 0 },
+      onProgress: (progress) => {
+        if (progress.loaded >= 20) controller.abort();
+      },
+    });
+
+    await expect(p).rejects.toMatchObject({ type: "abort" });
+    expect(server.requests.some((r) => r.method === "DELETE")).toBe(false);
+    expect(server.uploads.size).toBe(1);
+  });
+});
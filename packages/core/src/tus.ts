@@ -0,0 +1,389 @@
+/**
+ * @uplnk/core/tus — tus 1.0 resumable upload protocol client.
+ */
+
+import { defaultTransport } from "./transports";
+import { UplnkError, toUplnkError } from "./errors";
+import { nextRetryDelay, waitForRetry } from "./retry-strategies";
+import { createSpeedMeter } from "./estimator";
+import { toRateLimiter } from "./rate-limit";
+import type {
+  UploadError,
+  UploadProgress,
+  ProgressOptions,
+  RetryOptions,
+  RetryEvent,
+  UploadTransport,
+  TransportMethod,
+  TransportResponse,
+  RateLimiter,
+} from "@uplnk/types";
+
+/** tus protocol version sent in `Tus-Resumable`. */
+export const TUS_VERSION = "1.0.0";
+
+/** Options for a tus upload. */
+export interface TusUploadOptions {
+  /** Creation endpoint (POST target). */
+  endpoint: string;
+  /** File or blob to upload. */
+  file: Blob;
+  /** URL of an existing upload to resume instead of creating a new one. */
+  uploadUrl?: string;
+  /** Upload-Metadata pairs. Default: `filename` and `filetype` for File objects. */
+  metadata?: Record<string, string>;
+  /** Bytes per PATCH request. Default: the whole remaining file. */
+  chunkSize?: number;
+
+  /** Extra headers sent with every request. */
+  headers?: Record<string, string>;
+  /** Transport used for all protocol requests. */
+  transport?: UploadTransport;
+  /** Retry configuration; failed requests resume from the server offset. `maxElapsedMs` restarts whenever the upload progresses. */
+  retry?: RetryOptions;
+  /** Called when a failed request will be retried, before waiting `delayMs`. */
+  onRetry?: (event: RetryEvent) => void;
+  /** Abort signal to cancel the upload. */
+  signal?: AbortSignal;
+  /** Abort a single request after this many ms. */
+  timeoutMs?: number;
+  /** Delete the upload on the server (termination extension) when aborted. Default: true. */
+  terminateOnAbort?: boolean;
+  /**
+   * Bandwidth limit in bytes per second, or a shared RateLimiter. Each PATCH
+   * is paced as the transport sends it, so with XHR a smaller `chunkSize`
+   * paces a single file more evenly.
+   */
+  rateLimit?: number | RateLimiter;
+
+  /** Progress reporting options. */
+  progress?: ProgressOptions;
+  /** Progress callback, in bytes of the whole file. */
+  onProgress?: (progress: UploadProgress) => void;
+  /** Called once the upload URL is known, e.g. to store it for resuming later. */
+  onUploadUrl?: (uploadUrl: string) => void;
+  /** Called after each PATCH the server acknowledged, with the new offset. */
+  onChunkComplete?: (offset: number) => void;
+  /** Awaited before each PATCH, with its offset; the upload waits meanwhile (e.g. to pause). */
+  beforeChunk?: (offset: number) => Promise<void> | void;
+}
+
+/** Result of a tus upload. */
+export interface TusUploadResult {
+  /** URL of the completed upload. */
+  uploadUrl: string;
+}
+
+const DEFAULT_THROTTLE_MS = 100;
+
+/**
+ * Encode metadata as an `Upload-Metadata` header value.
+ *
+ * @internal
+ */
+export function encodeTusMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      let binary = "";
+      for (const byte of bytes) binary += String.fromCharCode(byte);
+      return value === "" ? key : `${key} ${btoa(binary)}`;
+    })
+    .join(",");
+}
+
+/**
+ * Delete an upload on the server (termination extension). Failures are
+ * ignored: the upload was abandoned either way.
+ *
+ * @internal
+ */
+export async function terminateTusUpload(
+  uploadUrl: string,
+  options: Pick<TusUploadOptions, "transport" | "headers">,
+): Promise<void> {
+  const transport = options.transport ?? defaultTransport();
+  await transport
+    .send({
+      url: uploadUrl,
+      method: "DELETE",
+      headers: { ...options.headers, "Tus-Resumable": TUS_VERSION },
+      body: new Blob([]),
+      withCredentials: false,
+      signal: new AbortController().signal,
+    })
+    .catch(() => undefined);
+}
+
+interface TusRequest {
+  url: string;
+  method: TransportMethod;
+  headers: Record<string, string>;
+  body?: Blob;
+  onUploadProgress?: (loaded: number) => void;
+  /** Ignore the upload's abort signal (used to terminate after an abort). */
+  detached?: boolean;
+}
+
+/**
+ * Upload a Blob with the tus 1.0 resumable upload protocol: creation (POST),
+ * offset discovery (HEAD), PATCH chunks and termination (DELETE) on abort.
+ * When a request fails and `retry` allows another attempt, the upload resumes
+ * from the offset the server reports instead of from byte 0.
+ *
+ * @param options - tus upload options
+ * @returns The upload URL
+ *
+ * @example
+ * ```ts
+ * const { uploadUrl } = await tusUpload({
+ *   endpoint: "https://tusd.example.com/files/",
+ *   file,
+ *   chunkSize: 8 * 1024 * 1024,
+ *   retry: exponentialBackoff({ maxAttempts: 5 }),
+ *   onUploadUrl: (url) => localStorage.setItem(file.name, url),
+ *   onProgress: (p) => console.log(`${p.percent?.toFixed(1)}%`),
+ * });
+ * ```
+ */
+export async function tusUpload(options: TusUploadOptions): Promise<TusUploadResult> {
+  const {
+    endpoint,
+    file,
+    chunkSize = Infinity,
+    headers = {},
+    retry,
+    signal,
+    timeoutMs,
+    terminateOnAbort = true,
+    onProgress,
+    onUploadUrl,
+    onChunkComplete,
+    beforeChunk,
+    onRetry,
+  } = options;
+  const transport = options.transport ?? defaultTransport();
+  const limiter = toRateLimiter(options.rateLimit);
+  const { throttleMs = DEFAULT_THROTTLE_MS } = options.progress ?? {};
+  const metadata =
+    options.metadata ?? (file instanceof File ? { filename: file.name, filetype: file.type } : {});
+
+  let lastEmit = 0;
+  let current = 0;
+  const meter = createSpeedMeter(
+    options.progress,
+    onProgress ? () => emitProgress(current, true) : undefined,
+  );
+
+  const emitProgress = (loaded: number, force: boolean): void => {
+    if (!onProgress) return;
+    current = loaded;
+    const total = file.size;
+    const progress = meter.annotate({
+      loaded,
+      total,
+      percent: total > 0 ? Math.min(100, (loaded / total) * 100) : 100,
+    });
+    const now = Date.now();
+    if (!force && now - lastEmit < throttleMs) return;
+    lastEmit = now;
+    onProgress(progress);
+  };
+
+  const send = (request: TusRequest): Promise<TransportResponse> =>
+    new Promise((resolve, reject) => {
+      const requestSignal = request.detached ? undefined : signal;
+      const controller = new AbortController();
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      let settled = false;
+
+      const finish = (err: UploadError | null, response?: TransportResponse): void => {
+        if (settled) return;
+        settled = true;
+        requestSignal?.removeEventListener("abort", onAbort);
+        if (timeoutId != null) clearTimeout(timeoutId);
+        if (err) {
+          controller.abort();
+          reject(
+            toUplnkError(err, {
+              url: request.url,
+              method: request.method,
+              headers: response?.headers,
+            }),
+          );
+        } else if (response) {
+          resolve(response);
+        }
+      };
+      const onAbort = (): void => finish({ type: "abort" });
+
+      if (requestSignal?.aborted) {
+        onAbort();
+        return;
+      }
+      requestSignal?.addEventListener("abort", onAbort);
+      if (typeof timeoutMs === "number" && timeoutMs > 0) {
+        timeoutId = setTimeout(() => finish({ type: "timeout" }), timeoutMs);
+      }
+
+      transport
+        .send({
+          url: request.url,
+          method: request.method,
+          headers: { ...headers, ...request.headers, "Tus-Resumable": TUS_VERSION },
+          body: request.body ?? new Blob([]),
+          withCredentials: false,
+          signal: controller.signal,
+          onUploadProgress: request.onUploadProgress,
+          pace:
+            limiter && request.body ? (bytes) => limiter.take(bytes, controller.signal) : undefined,
+        })
+        .then(
+          (response) => {
+            if (response.status >= 200 && response.status < 300) {
+              finish(null, response);
+            } else {
+              finish(
+                {
+                  type: "http",
+                  status: response.status,
+                  response: response.responseText || undefined,
+                },
+                response,
+              );
+            }
+          },
+          (err: UploadError) => finish(err),
+        );
+    });
+
+  const readOffset = (response: TransportResponse): number => {
+    const offset = Number(response.headers["upload-offset"]);
+    if (!Number.isFinite(offset) || offset < 0) {
+      throw new Error("uplnk: tus response is missing a valid Upload-Offset header");
+    }
+    return offset;
+  };
+
+  const create = async (): Promise<string> => {
+    const createHeaders: Record<string, string> = { "Upload-Length": String(file.size) };
+    if (Object.keys(metadata).length > 0) {
+      createHeaders["Upload-Metadata"] = encodeTusMetadata(metadata);
+    }
+    const response = await send({ url: endpoint, method: "POST", headers: createHeaders });
+    const location = response.headers["location"];
+    if (!location) throw new Error("uplnk: tus creation response has no Location header");
+    return new URL(location, endpoint).toString();
+  };
+
+  const fetchOffset = async (url: string): Promise<number> =>
+    readOffset(await send({ url, method: "HEAD", headers: {} }));
+
+  const patch = async (url: string, offset: number): Promise<number> => {
+    const end = Math.min(file.size, offset + chunkSize);
+    const response = await send({
+      url,
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/offset+octet-stream",
+        "Upload-Offset": String(offset),
+      },
+      body: file.slice(offset, end),
+      onUploadProgress: (loaded) => emitProgress(offset + loaded, false),
+    });
+    return readOffset(response);
+  };
+
+  let uploadUrl = options.uploadUrl;
+  let offset = 0;
+  let attempt = 0;
+  // Start of the current run of failures; the retry budget restarts once the upload progresses.
+  let failingSince: number | undefined;
+  let resync = uploadUrl != null;
+  const terminate = async (): Promise<void> => {
+    if (terminateOnAbort && uploadUrl != null) {
+      await send({ url: uploadUrl, method: "DELETE", headers: {}, detached: true }).catch(
+        () => undefined,
+      );
+    }
+  };
+
+  emitProgress(0, true);
+
+  try {
+    for (;;) {
+      try {
+        if (signal?.aborted) {
+          throw new UplnkError({ type: "abort" }, { url: uploadUrl ?? endpoint });
+        }
+        if (uploadUrl == null) {
+          uploadUrl = await create();
+          onUploadUrl?.(uploadUrl);
+          offset = 0;
+        } else if (resync) {
+          try {
+            offset = await fetchOffset(uploadUrl);
+          } catch (err) {
+            const e = err as UplnkError;
+            // The server no longer knows the upload we were asked to resume: start over.
+            if (
+              uploadUrl === options.uploadUrl &&
+              e.type === "http" &&
+              (e.status === 404 || e.status === 410)
+            ) {
+              uploadUrl = undefined;
+              continue;
+            }
+            throw err;
+          }
+          // Speed covers this session only, not bytes uploaded before the resume.
+          meter.reset();
+          resync = false;
+          emitProgress(offset, true);
+        }
+
+        while (offset < file.size) {
+          await beforeChunk?.(offset);
+          const next = await patch(uploadUrl, offset);
+          // Resending the same chunk to a server that keeps none of it would never end.
+          if (next <= offset) {
+            throw new UplnkError({ type: "network" }, { url: uploadUrl, method: "PATCH" });
+          }
+          attempt = 0;
+          failingSince = undefined;
+          offset = next;
+          onChunkComplete?.(offset);
+        }
+        emitProgress(file.size, true);
+        return { uploadUrl };
+      } catch (err) {
+        if (!(err instanceof UplnkError)) throw err;
+        if (err.type === "abort") {
+          await terminate();
+          throw err;
+        }
+        failingSince = failingSince ?? Date.now();
+        const delay =
+          retry && attempt < retry.attempts - 1 && retry.shouldRetry(err, attempt)
+            ? nextRetryDelay(retry, attempt, {
+                error: err,
+                headers: err.headers,
+                elapsedMs: Date.now() - failingSince,
+              })
+            : undefined;
+        if (delay === undefined) throw err;
+        onRetry?.({ attempt, error: err.toUploadError(), delayMs: delay });
+        attempt++;
+        try {
+          await waitForRetry(delay, signal);
+        } catch (abort) {
+          await terminate();
+          throw abort;
+        }
+        resync = uploadUrl != null;
+      }
+    }
+  } finally {
+    meter.stop();
+  }
+}
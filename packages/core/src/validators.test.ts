@@ -1,8 +1,12 @@
 import { describe, it, expect } from "vitest";
 import {
   validateFile,
+  validateFileAsync,
+  validateFiles,
+  collectValidationErrors,
   validateSize,
   validateType,
+  validateTypeAsync,
   formatValidationError,
   formatBytes,
   FILE_TYPE_PRESETS,
@@ -49,6 +53,17 @@ describe("validators", () => {
       const error = validateSize(file, {});
       expect(error).toBeNull();
     });
+
+    it("can check the compressed size instead", () => {
+      const file = new Blob(["x".repeat(2000)]);
+      expect(
+        validateSize(file, { maxSize: 1000, sizeOf: "compressed", compressedSize: 40 }),
+      ).toBeNull();
+      expect(
+        validateSize(file, { maxSize: 1000, sizeOf: "compressed", compressedSize: 1500 }),
+      ).toEqual({ type: "size-too-large", maxSize: 1000, actualSize: 1500, sizeOf: "compressed" });
+      expect(() => validateSize(file, { maxSize: 1000, sizeOf: "compressed" })).toThrow(TypeError);
+    });
   });
 
   describe("validateType", () => {
@@ -142,6 +157,90 @@ describe("validators", () => {
         actualType: "",
       });
     });
+
+    describe("verifyContent (validateFileAsync)", () => {
+      const png = Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d);
+      const exe = Uint8Array.of(0x4d, 0x5a, 0x90, 0, 3, 0, 0, 0);
+
+      it("accepts content that matches the declared type", async () => {
+        const file = new File([png as BlobPart], "cat.png", { type: "image/png" });
+        await expect(
+          validateFileAsync(file, { allowedTypes: FILE_TYPE_PRESETS.images, verifyContent: true }),
+        ).resolves.toBeNull();
+      });
+
+      it("rejects a renamed executable", async () => {
+        const file = new File([exe as BlobPart], "cat.png", { type: "image/png" });
+        await expect(
+          validateFileAsync(file, { allowedTypes: FILE_TYPE_PRESETS.images, verifyContent: true }),
+        ).resolves.toEqual({
+          type: "content-mismatch",
+          declaredType: "image/png",
+          detectedType: "application/x-msdownload",
+        });
+      });
+
+      it("rejects unrecognized content claiming a type with a signature", async () => {
+        const file = new File(["not a pdf"], "report.pdf", { type: "application/pdf" });
+        await expect(validateFileAsync(file, { verifyContent: true })).resolves.toEqual({
+          type: "content-mismatch",
+          declaredType: "application/pdf",
+          detectedType: null,
+        });
+      });
+
+      it("falls back to the extension and skips text types", async () => {
+        const untyped = new File([exe as BlobPart], "photo.jpg");
+        await expect(validateFileAsync(untyped, { verifyContent: true })).resolves.toMatchObject({
+          declaredType: "image/jpeg",
+        });
+        const text = new File(["a,b\n1,2"], "data.csv", { type: "text/csv" });
+        await expect(validateFileAsync(text, { verifyContent: true })).resolves.toBeNull();
+      });
+
+      it("checks a spoofed .png in validateTypeAsync but not in validateType", async () => {
+        const file = new File([exe as BlobPart], "cat.png", { type: "image/png" });
+        const options = { allowedTypes: FILE_TYPE_PRESETS.images, verifyContent: true };
+        expect(validateType(file, options)).toBeNull();
+        await expect(validateTypeAsync(file, options)).resolves.toEqual({
+          type: "content-mismatch",
+          declaredType: "image/png",
+          detectedType: "application/x-msdownload",
+        });
+        const real = new File([png as BlobPart], "cat.png", { type: "image/png" });
+        await expect(validateTypeAsync(real, options)).resolves.toBeNull();
+      });
+
+      it("checks content against the allowed types when the declared type is generic", async () => {
+        const allowedTypes = [...FILE_TYPE_PRESETS.images, "application/octet-stream"];
+        const upload = new File([exe as BlobPart], "cat", { type: "application/octet-stream" });
+        await expect(
+          validateTypeAsync(upload, { allowedTypes, verifyContent: true }),
+        ).resolves.toEqual({
+          type: "content-mismatch",
+          declaredType: "application/octet-stream",
+          detectedType: "application/x-msdownload",
+        });
+        const image = new File([png as BlobPart], "cat", { type: "application/octet-stream" });
+        await expect(
+          validateTypeAsync(image, { allowedTypes, verifyContent: true }),
+        ).resolves.toBeNull();
+      });
+
+      it("runs in validateFileAsync before the custom validator", async () => {
+        const file = new File([exe as BlobPart], "cat.png", { type: "image/png" });
+        let called = false;
+        const error = await validateFileAsync(file, {
+          verifyContent: true,
+          customValidator: () => {
+            called = true;
+            return null;
+          },
+        });
+        expect(error?.type).toBe("content-mismatch");
+        expect(called).toBe(false);
+      });
+    });
   });
 
   describe("validateFile", () => {
@@ -224,6 +323,172 @@ describe("validators", () => {
     });
   });
 
+  describe("validateFileAsync", () => {
+    /** PNG signature and IHDR with the given size. */
+    function png(width: number, height: number): Uint8Array {
+      const bytes = new Uint8Array(33);
+      bytes.set([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52,
+      ]);
+      new DataView(bytes.buffer).setUint32(16, width);
+      new DataView(bytes.buffer).setUint32(20, height);
+      return bytes;
+    }
+
+    /** WAV header for `seconds` of 8 kHz 8-bit mono audio (samples omitted). */
+    function wav(seconds: number): Uint8Array {
+      const bytes = new Uint8Array(44);
+      const view = new DataView(bytes.buffer);
+      bytes.set([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x41, 0x56, 0x45]);
+      bytes.set([0x66, 0x6d, 0x74, 0x20], 12);
+      view.setUint32(16, 16, true);
+      view.setUint32(28, 8000, true);
+      bytes.set([0x64, 0x61, 0x74, 0x61], 36);
+      view.setUint32(40, seconds * 8000, true);
+      return bytes;
+    }
+
+    it("checks image dimensions", async () => {
+      const file = new File([png(800, 600) as BlobPart], "a.png", { type: "image/png" });
+
+      await expect(validateFileAsync(file, { minWidth: 400, maxHeight: 1080 })).resolves.toBeNull();
+      await expect(validateFileAsync(file, { minWidth: 1024, maxHeight: 1080 })).resolves.toEqual({
+        type: "dimensions-out-of-range",
+        width: 800,
+        height: 600,
+        minWidth: 1024,
+        maxHeight: 1080,
+      });
+    });
+
+    it("checks media duration", async () => {
+      const file = new File([wav(90) as BlobPart], "a.wav", { type: "audio/wav" });
+
+      await expect(validateFileAsync(file, { maxDuration: 60 })).resolves.toEqual({
+        type: "duration-too-long",
+        maxDuration: 60,
+        actualDuration: 90,
+      });
+      await expect(validateFileAsync(file, { minDuration: 120 })).resolves.toMatchObject({
+        type: "duration-too-short",
+      });
+    });
+
+    it("reports unreadable metadata only for media files", async () => {
+      const svg = new File(["<svg/>"], "a.svg", { type: "image/svg+xml" });
+      const pdf = new File(["%PDF-1.7"], "a.pdf", { type: "application/pdf" });
+
+      await expect(validateFileAsync(svg, { maxWidth: 100 })).resolves.toEqual({
+        type: "metadata-unreadable",
+        metadata: "dimensions",
+      });
+      await expect(validateFileAsync(pdf, { maxWidth: 100, maxDuration: 10 })).resolves.toBeNull();
+    });
+
+    it("awaits the custom validator after the built-in checks", async () => {
+      const calls: string[] = [];
+      const customValidator = async (): Promise<ValidationError> => {
+        calls.push("custom");
+        return { type: "custom", message: "taken" };
+      };
+      const file = new File([png(10, 10) as BlobPart], "a.png", { type: "image/png" });
+
+      await expect(validateFileAsync(file, { maxSize: 1, customValidator })).resolves.toMatchObject(
+        {
+          type: "size-too-large",
+        },
+      );
+      expect(calls).toEqual([]);
+      await expect(validateFileAsync(file, { customValidator })).resolves.toEqual({
+        type: "custom",
+        message: "taken",
+      });
+    });
+  });
+
+  describe("collectValidationErrors", () => {
+    it("returns every error instead of the first", async () => {
+      const file = new File(["x".repeat(2000)], "notes.txt", { type: "text/plain" });
+      const errors = await collectValidationErrors(file, {
+        maxSize: 1000,
+        allowedTypes: ["image/png"],
+        allowedExtensions: [".png"],
+        customValidator: async () => ({ type: "custom", message: "no" }),
+      });
+
+      expect(errors.map((e) => e.type)).toEqual([
+        "size-too-large",
+        "invalid-type",
+        "invalid-type",
+        "custom",
+      ]);
+      await expect(collectValidationErrors(file, { maxSize: 5000 })).resolves.toEqual([]);
+    });
+  });
+
+  describe("validateFiles", () => {
+    const file = (name: string, size: number, type = "", lastModified = 1): File =>
+      new File(["x".repeat(size)], name, { type, lastModified });
+
+    it("reports per-file errors and accepts the rest", async () => {
+      const big = file("big.bin", 300);
+      const report = await validateFiles([file("a.txt", 10), big], { maxSize: 100 });
+
+      expect(report.valid).toBe(false);
+      expect(report.accepted.map((f) => f.name)).toEqual(["a.txt"]);
+      expect(report.rejected).toEqual([big]);
+      expect(report.files[1]).toMatchObject({ index: 1, errors: [{ type: "size-too-large" }] });
+      expect(report.errors).toEqual([]);
+    });
+
+    it("rejects duplicates by name, size and lastModified", async () => {
+      const report = await validateFiles(
+        [file("a.txt", 10), file("a.txt", 10, "", 2), file("a.txt", 10)],
+        { rejectDuplicates: true },
+      );
+
+      expect(report.files.map((r) => r.errors)).toEqual([
+        [],
+        [],
+        [{ type: "duplicate-file", duplicateOf: 0 }],
+      ]);
+    });
+
+    it("applies count, quota and total size limits to the files that passed", async () => {
+      const files = [
+        file("1.mp4", 10, "video/mp4"),
+        file("huge.mp4", 999, "video/mp4"),
+        file("2.mp4", 10, "video/mp4"),
+        file("3.mp4", 10, "video/mp4"),
+        file("a.png", 40, "image/png"),
+        file("b.png", 40, "image/png"),
+        file("c.png", 5, "image/png"),
+      ];
+      const report = await validateFiles(files, {
+        maxSize: 500,
+        maxFiles: 5,
+        quotas: { videos: 2 },
+        maxTotalSize: 70,
+      });
+
+      expect(report.accepted.map((f) => f.name)).toEqual(["1.mp4", "2.mp4", "a.png"]);
+      expect(report.files.map((r) => r.errors[0]?.type)).toEqual([
+        undefined,
+        "size-too-large",
+        undefined,
+        "quota-exceeded",
+        undefined,
+        "total-size-too-large",
+        "too-many-files",
+      ]);
+      expect(report.errors).toEqual([
+        { type: "too-many-files", maxFiles: 5, actualCount: 6 },
+        { type: "quota-exceeded", preset: "videos", max: 2, actualCount: 3 },
+        { type: "total-size-too-large", maxTotalSize: 70, actualSize: 100 },
+      ]);
+    });
+  });
+
   describe("formatValidationError", () => {
     it("formats size-too-large error", () => {
       const error: ValidationError = {
@@ -237,6 +502,16 @@ describe("validators", () => {
       expect(message).toContain("exceeds");
     });
 
+    it("names the compressed size", () => {
+      const message = formatValidationError({
+        type: "size-too-large",
+        maxSize: 1024,
+        actualSize: 2048,
+        sizeOf: "compressed",
+      });
+      expect(message).toBe("Compressed size (2 KB) exceeds maximum allowed size (1 KB)");
+    });
+
     it("formats size-too-small error", () => {
       const error: ValidationError = {
         type: "size-too-small",
@@ -261,6 +536,58 @@ describe("validators", () => {
       expect(message).toContain("not allowed");
     });
 
+    it("formats content-mismatch error", () => {
+      expect(
+        formatValidationError({
+          type: "content-mismatch",
+          declaredType: "image/png",
+          detectedType: "application/x-msdownload",
+        }),
+      ).toBe('File content (application/x-msdownload) does not match its type "image/png"');
+    });
+
+    it("formats media errors", () => {
+      expect(
+        formatValidationError({
+          type: "dimensions-out-of-range",
+          width: 800,
+          height: 600,
+          minWidth: 1024,
+          maxHeight: 1080,
+        }),
+      ).toBe(
+        "Image dimensions (800×600 px) are outside the allowed range (width at least 1024 px, height at most 1080 px)",
+      );
+      expect(
+        formatValidationError({ type: "duration-too-long", maxDuration: 60, actualDuration: 3725 }),
+      ).toBe("Duration (1:02:05) exceeds maximum allowed duration (1:00)");
+      expect(
+        formatValidationError({ type: "duration-too-short", minDuration: 5, actualDuration: 2.4 }),
+      ).toBe("Duration (0:02) is below minimum required duration (0:05)");
+      expect(formatValidationError({ type: "metadata-unreadable", metadata: "duration" })).toBe(
+        "Could not read the media duration",
+      );
+    });
+
+    it("formats collection errors", () => {
+      expect(formatValidationError({ type: "too-many-files", maxFiles: 5, actualCount: 7 })).toBe(
+        "Too many files (7); at most 5 allowed",
+      );
+      expect(
+        formatValidationError({
+          type: "total-size-too-large",
+          maxTotalSize: 1048576,
+          actualSize: 2097152,
+        }),
+      ).toBe("Total size (2 MB) exceeds maximum allowed total (1 MB)");
+      expect(
+        formatValidationError({ type: "quota-exceeded", preset: "videos", max: 3, actualCount: 4 }),
+      ).toBe("Too many videos (4); at most 3 allowed");
+      expect(formatValidationError({ type: "duplicate-file", duplicateOf: 0 })).toBe(
+        "File is a duplicate of file 1",
+      );
+    });
+
     it("formats custom error", () => {
       const error: ValidationError = {
         type: "custom",
@@ -2,15 +2,40 @@
  * @uplnk/core/validators — File validation utilities for pre-upload checks.
  */
 
+import { sniffFileType, isSameContentType, hasSignature, typeForExtension } from "./sniff";
+import { getImageDimensions, getMediaDuration } from "./media";
+import { formatBytes, formatDuration } from "./format";
+import { getValidationLocale, lookupMessage, renderMessage } from "./messages";
+import type { ValidationMessageKey, ValidationMessageOptions } from "./messages";
+
+export { formatBytes };
+
 /** File validation error types. */
 export type ValidationError =
-  | { type: "size-too-large"; maxSize: number; actualSize: number }
-  | { type: "size-too-small"; minSize: number; actualSize: number }
+  | { type: "size-too-large"; maxSize: number; actualSize: number; sizeOf?: "compressed" }
+  | { type: "size-too-small"; minSize: number; actualSize: number; sizeOf?: "compressed" }
   | {
       type: "invalid-type";
       allowedTypes: readonly string[] | string[];
       actualType: string;
     }
+  | { type: "content-mismatch"; declaredType: string; detectedType: string | null }
+  | {
+      type: "dimensions-out-of-range";
+      width: number;
+      height: number;
+      minWidth?: number;
+      maxWidth?: number;
+      minHeight?: number;
+      maxHeight?: number;
+    }
+  | { type: "duration-too-long"; maxDuration: number; actualDuration: number }
+  | { type: "duration-too-short"; minDuration: number; actualDuration: number }
+  | { type: "metadata-unreadable"; metadata: "dimensions" | "duration" }
+  | { type: "duplicate-file"; duplicateOf: number }
+  | { type: "too-many-files"; maxFiles: number; actualCount: number }
+  | { type: "total-size-too-large"; maxTotalSize: number; actualSize: number }
+  | { type: "quota-exceeded"; preset: FileTypePreset; max: number; actualCount: number }
   | { type: "custom"; message: string };
 
 /** Options for file size validation. */
@@ -19,6 +44,10 @@ export interface SizeValidationOptions {
   maxSize?: number;
   /** Minimum file size in bytes. */
   minSize?: number;
+  /** Which size `maxSize` and `minSize` apply to. Default: "original". */
+  sizeOf?: "original" | "compressed";
+  /** Compressed size in bytes, e.g. from `compressFile()`; required for `sizeOf: "compressed"`. */
+  compressedSize?: number;
 }
 
 /** Options for file type validation. */
@@ -27,6 +56,13 @@ export interface TypeValidationOptions {
   allowedTypes?: readonly string[] | string[];
   /** Allowed file extensions (e.g., [".png", ".jpg"]). */
   allowedExtensions?: readonly string[] | string[];
+  /**
+   * Also read the file's first bytes and check that they match its declared
+   * type (or the type its extension implies) and one of `allowedTypes`.
+   * Reading is async, so only validateTypeAsync(), validateFileAsync(),
+   * collectValidationErrors() and validateFiles() check it.
+   */
+  verifyContent?: boolean;
 }
 
 /** Combined validation options. */
@@ -35,6 +71,29 @@ export interface FileValidationOptions extends SizeValidationOptions, TypeValida
   customValidator?: (file: File | Blob) => ValidationError | null;
 }
 
+/** Limits read from image and audio/video headers. */
+export interface MediaValidationOptions {
+  /** Minimum image width in pixels. */
+  minWidth?: number;
+  /** Maximum image width in pixels. */
+  maxWidth?: number;
+  /** Minimum image height in pixels. */
+  minHeight?: number;
+  /** Maximum image height in pixels. */
+  maxHeight?: number;
+  /** Minimum audio/video duration in seconds. */
+  minDuration?: number;
+  /** Maximum audio/video duration in seconds. */
+  maxDuration?: number;
+}
+
+/** Options for validateFileAsync(). */
+export interface AsyncFileValidationOptions
+  extends Omit<FileValidationOptions, "customValidator">, MediaValidationOptions {
+  /** Custom validation function; may be async. */
+  customValidator?: (file: File | Blob) => ValidationError | null | Promise<ValidationError | null>;
+}
+
 /**
  * Validate file size.
  *
@@ -48,27 +107,38 @@ export interface FileValidationOptions extends SizeValidationOptions, TypeValida
  * if (error) {
  *   console.error("File too large:", error);
  * }
+ *
+ * // Limit what goes over the wire instead:
+ * const compressed = await compressFile(file, "gzip");
+ * validateSize(file, { maxSize: 5 * 1024 * 1024, sizeOf: "compressed", compressedSize: compressed.size });
  * ```
  */
 export function validateSize(
   file: File | Blob,
   options: SizeValidationOptions,
 ): ValidationError | null {
-  const { maxSize, minSize } = options;
+  const { maxSize, minSize, sizeOf = "original", compressedSize } = options;
+  const compressed = sizeOf === "compressed";
+  if (compressed && compressedSize == null) {
+    throw new TypeError('uplnk: sizeOf "compressed" needs compressedSize');
+  }
+  const size = compressed ? (compressedSize as number) : file.size;
 
-  if (maxSize != null && file.size > maxSize) {
+  if (maxSize != null && size > maxSize) {
     return {
       type: "size-too-large",
       maxSize,
-      actualSize: file.size,
+      actualSize: size,
+      ...(compressed && { sizeOf: "compressed" as const }),
     };
   }
 
-  if (minSize != null && file.size < minSize) {
+  if (minSize != null && size < minSize) {
     return {
       type: "size-too-small",
       minSize,
-      actualSize: file.size,
+      actualSize: size,
+      ...(compressed && { sizeOf: "compressed" as const }),
     };
   }
 
@@ -76,7 +146,8 @@ export function validateSize(
 }
 
 /**
- * Validate file type.
+ * Validate file type. `verifyContent` needs to read the file and is ignored
+ * here; use validateTypeAsync() for it.
  *
  * @param file - File or Blob to validate
  * @param options - Type validation options
@@ -97,16 +168,51 @@ export function validateType(
   file: File | Blob,
   options: TypeValidationOptions,
 ): ValidationError | null {
+  return checkType(file, options);
+}
+
+/**
+ * Validate file type like validateType(), and with `verifyContent: true` also
+ * check the file's first bytes against its declared type and `allowedTypes`.
+ *
+ * @param file - File or Blob to validate
+ * @param options - Type validation options
+ * @returns ValidationError if invalid, null if valid
+ *
+ * @example
+ * ```ts
+ * const error = await validateTypeAsync(file, {
+ *   allowedTypes: FILE_TYPE_PRESETS.images,
+ *   verifyContent: true,
+ * });
+ * ```
+ */
+export async function validateTypeAsync(
+  file: File | Blob,
+  options: TypeValidationOptions,
+): Promise<ValidationError | null> {
+  return (
+    checkType(file, options) ??
+    (options.verifyContent ? await validateContent(file, options.allowedTypes) : null)
+  );
+}
+
+function checkType(file: File | Blob, options: TypeValidationOptions): ValidationError | null {
+  return typeErrors(file, options)[0] ?? null;
+}
+
+function typeErrors(file: File | Blob, options: TypeValidationOptions): ValidationError[] {
   const { allowedTypes, allowedExtensions } = options;
+  const errors: ValidationError[] = [];
 
   // Check MIME type
   if (allowedTypes && allowedTypes.length > 0) {
     if (!allowedTypes.includes(file.type)) {
-      return {
+      errors.push({
         type: "invalid-type",
         allowedTypes,
         actualType: file.type,
-      };
+      });
     }
   }
 
@@ -119,19 +225,48 @@ export function validateType(
     const normalizedActual = extension.toLowerCase();
 
     if (!normalizedAllowed.includes(normalizedActual)) {
-      return {
+      errors.push({
         type: "invalid-type",
         allowedTypes: allowedExtensions,
         actualType: extension,
-      };
+      });
     }
   }
 
-  return null;
+  return errors;
 }
 
 /**
- * Validate file with combined options.
+ * Compare the sniffed format with the declared type, falling back to the
+ * type implied by the extension, and with the allowed types. Generic or
+ * missing declared types are only checked against the allowed types.
+ */
+async function validateContent(
+  file: File | Blob,
+  allowedTypes?: readonly string[] | string[],
+): Promise<ValidationError | null> {
+  const declared =
+    (file.type !== "application/octet-stream" && file.type) ||
+    (file instanceof File ? typeForExtension(getFileExtension(file.name)) : undefined);
+  const allowed = allowedTypes && allowedTypes.length > 0 ? allowedTypes : undefined;
+  if (!declared && !allowed) return null;
+
+  const sniffed = await sniffFileType(file);
+  const fits = (type: string): boolean =>
+    sniffed ? isSameContentType(sniffed.mime, type) : !hasSignature(type);
+  const matches = (!declared || fits(declared)) && (!allowed || allowed.some(fits));
+  return matches
+    ? null
+    : {
+        type: "content-mismatch",
+        declaredType: declared || file.type,
+        detectedType: sniffed?.mime ?? null,
+      };
+}
+
+/**
+ * Validate file with combined options. Checks that read the file (content,
+ * image dimensions, duration) are in validateFileAsync().
  *
  * @param file - File or Blob to validate
  * @param options - Combined validation options
@@ -164,7 +299,7 @@ export function validateFile(
   if (sizeError) return sizeError;
 
   // Check type
-  const typeError = validateType(file, options);
+  const typeError = checkType(file, options);
   if (typeError) return typeError;
 
   // Custom validation
@@ -177,55 +312,388 @@ export function validateFile(
 }
 
 /**
- * Format validation error into a human-readable message.
+ * Validate a file, including checks that need to read it: content sniffing
+ * (`verifyContent`), image dimensions and audio/video duration. Runs size,
+ * type, content, media and custom checks in that order and returns the first
+ * error.
  *
- * @param error - Validation error
- * @returns Human-readable error message
+ * Dimension limits apply to images and duration limits to audio and video,
+ * recognized by content or declared type. When such a file's header cannot
+ * be parsed (e.g. an SVG, or WebM from MediaRecorder, which has no duration),
+ * the result is a `metadata-unreadable` error.
+ *
+ * @param file - File or Blob to validate
+ * @param options - Combined validation options, with media limits and an async custom validator
+ * @returns ValidationError if invalid, null if valid
  *
  * @example
  * ```ts
- * const error = validateFile(file, { maxSize: 5000000 });
- * if (error) {
- *   alert(formatValidationError(error));
- * }
+ * const error = await validateFileAsync(file, {
+ *   allowedTypes: FILE_TYPE_PRESETS.images,
+ *   verifyContent: true,
+ *   minWidth: 400,
+ *   minHeight: 400,
+ *   customValidator: async (file) =>
+ *     (await api.isDuplicate(file)) ? { type: "custom", message: "Already uploaded" } : null,
+ * });
+ * if (error) alert(formatValidationError(error));
  * ```
  */
-export function formatValidationError(error: ValidationError): string {
-  switch (error.type) {
-    case "size-too-large":
-      return `File size (${formatBytes(error.actualSize)}) exceeds maximum allowed size (${formatBytes(error.maxSize)})`;
-    case "size-too-small":
-      return `File size (${formatBytes(error.actualSize)}) is below minimum required size (${formatBytes(error.minSize)})`;
-    case "invalid-type":
-      return `File type "${error.actualType}" is not allowed. Allowed types: ${error.allowedTypes.join(", ")}`;
-    case "custom":
-      return error.message;
+export async function validateFileAsync(
+  file: File | Blob,
+  options: AsyncFileValidationOptions,
+): Promise<ValidationError | null> {
+  const error =
+    validateSize(file, options) ??
+    checkType(file, options) ??
+    (options.verifyContent ? await validateContent(file, options.allowedTypes) : null) ??
+    (await validateMedia(file, options));
+  if (error) return error;
+
+  return (await options.customValidator?.(file)) ?? null;
+}
+
+async function validateMedia(
+  file: File | Blob,
+  options: MediaValidationOptions,
+): Promise<ValidationError | null> {
+  return (await mediaErrors(file, options))[0] ?? null;
+}
+
+async function mediaErrors(
+  file: File | Blob,
+  options: MediaValidationOptions,
+): Promise<ValidationError[]> {
+  const { minWidth, maxWidth, minHeight, maxHeight, minDuration, maxDuration } = options;
+  const errors: ValidationError[] = [];
+
+  if (minWidth != null || maxWidth != null || minHeight != null || maxHeight != null) {
+    const size = await getImageDimensions(file);
+    if (!size) {
+      if (file.type.startsWith("image/")) {
+        errors.push({ type: "metadata-unreadable", metadata: "dimensions" });
+      }
+    } else {
+      const { width, height } = size;
+      if (
+        (minWidth != null && width < minWidth) ||
+        (maxWidth != null && width > maxWidth) ||
+        (minHeight != null && height < minHeight) ||
+        (maxHeight != null && height > maxHeight)
+      ) {
+        errors.push({
+          type: "dimensions-out-of-range",
+          width,
+          height,
+          ...(minWidth != null && { minWidth }),
+          ...(maxWidth != null && { maxWidth }),
+          ...(minHeight != null && { minHeight }),
+          ...(maxHeight != null && { maxHeight }),
+        });
+      }
+    }
   }
+
+  if (minDuration != null || maxDuration != null) {
+    const duration = await getMediaDuration(file);
+    if (duration == null) {
+      if (/^(audio|video)\//.test(file.type)) {
+        errors.push({ type: "metadata-unreadable", metadata: "duration" });
+      }
+    } else if (maxDuration != null && duration > maxDuration) {
+      errors.push({ type: "duration-too-long", maxDuration, actualDuration: duration });
+    } else if (minDuration != null && duration < minDuration) {
+      errors.push({ type: "duration-too-short", minDuration, actualDuration: duration });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Run every check of validateFileAsync() and return all errors, so a form
+ * can show each problem with a file at once.
+ *
+ * @param file - File or Blob to validate
+ * @param options - Same options as validateFileAsync()
+ * @returns All validation errors; empty if the file is valid
+ *
+ * @example
+ * ```ts
+ * const errors = await collectValidationErrors(file, {
+ *   maxSize: FILE_SIZE_PRESETS["5MB"],
+ *   allowedTypes: FILE_TYPE_PRESETS.images,
+ *   allowedExtensions: [".png", ".jpg"],
+ * });
+ * list.replaceChildren(...errors.map((e) => new Option(formatValidationError(e))));
+ * ```
+ */
+export async function collectValidationErrors(
+  file: File | Blob,
+  options: AsyncFileValidationOptions,
+): Promise<ValidationError[]> {
+  const errors: ValidationError[] = [];
+  const sizeError = validateSize(file, options);
+  if (sizeError) errors.push(sizeError);
+  errors.push(...typeErrors(file, options));
+  if (options.verifyContent) {
+    const contentError = await validateContent(file, options.allowedTypes);
+    if (contentError) errors.push(contentError);
+  }
+  errors.push(...(await mediaErrors(file, options)));
+  const customError = await options.customValidator?.(file);
+  if (customError) errors.push(customError);
+  return errors;
+}
+
+/** Name of a `FILE_TYPE_PRESETS` entry. */
+export type FileTypePreset = keyof typeof FILE_TYPE_PRESETS;
+
+/** Rules for validateFiles(): checks for each file plus rules for the whole set. */
+export interface FileCollectionRules extends AsyncFileValidationOptions {
+  /** Maximum number of files. */
+  maxFiles?: number;
+  /** Maximum combined size in bytes. */
+  maxTotalSize?: number;
+  /** Reject files with the same name, size and lastModified as an earlier one. */
+  rejectDuplicates?: boolean;
+  /** Maximum number of files per type preset, e.g. `{ videos: 3 }`. */
+  quotas?: Partial<Record<FileTypePreset, number>>;
+}
+
+/** Validation outcome for one file of a collection. */
+export interface FileValidationResult<F extends File | Blob = File | Blob> {
+  file: F;
+  /** Index of the file in the collection. */
+  index: number;
+  /** Errors for this file; empty if it was accepted. */
+  errors: ValidationError[];
+}
+
+/** Result of validateFiles(). */
+export interface FileCollectionReport<F extends File | Blob = File | Blob> {
+  /** Whether every file was accepted. */
+  valid: boolean;
+  /** One result per file, in order. */
+  files: FileValidationResult<F>[];
+  /** Collection rules that were broken (count, total size, quotas), each listed once. */
+  errors: ValidationError[];
+  /** Files without errors, in order. */
+  accepted: F[];
+  /** Files with errors, in order. */
+  rejected: F[];
 }
 
+const fileKey = (file: File | Blob): string | undefined =>
+  file instanceof File ? `${file.name}\0${file.size}\0${file.lastModified}` : undefined;
+
 /**
- * Format bytes into human-readable size.
+ * Validate a set of files: each file against the per-file options (collecting
+ * all of its errors), then the set against `maxFiles`, `maxTotalSize`,
+ * `rejectDuplicates` and `quotas`.
+ *
+ * Files are taken in order. A file that fails its own checks does not count
+ * toward the collection rules; of the rest, those that would exceed a limit
+ * are rejected with the broken rule as their error, so the first files that
+ * fit are accepted. Pass the report to `batchUpload()` as `validation` to
+ * upload only the accepted files.
  *
- * @param bytes - Number of bytes
- * @param decimals - Number of decimal places (default: 2)
- * @returns Formatted string (e.g., "1.5 MB")
+ * @param files - Files to validate, e.g. from an `<input type="file" multiple>`
+ * @param rules - Per-file options and collection rules
+ * @returns Per-file results, collection errors, and the accepted and rejected files
  *
  * @example
  * ```ts
- * formatBytes(1536); // "1.5 KB"
- * formatBytes(1048576); // "1 MB"
+ * const report = await validateFiles([...input.files], {
+ *   maxSize: FILE_SIZE_PRESETS["100MB"],
+ *   maxFiles: 10,
+ *   maxTotalSize: FILE_SIZE_PRESETS["500MB"],
+ *   rejectDuplicates: true,
+ *   quotas: { videos: 3 },
+ * });
+ * report.errors.forEach((e) => toast(formatValidationError(e)));
  * ```
  */
-export function formatBytes(bytes: number, decimals: number = 2): string {
-  if (bytes === 0) return "0 Bytes";
+export async function validateFiles<F extends File | Blob>(
+  files: readonly F[],
+  rules: FileCollectionRules,
+): Promise<FileCollectionReport<F>> {
+  const { maxFiles, maxTotalSize, rejectDuplicates = false, quotas = {} } = rules;
+  const results: FileValidationResult<F>[] = [];
+  for (const [index, file] of files.entries()) {
+    results.push({ file, index, errors: await collectValidationErrors(file, rules) });
+  }
+  const errors: ValidationError[] = [];
+  const reject = (result: FileValidationResult<F>, error: ValidationError): void => {
+    result.errors.push(error);
+    if (!errors.includes(error)) errors.push(error);
+  };
 
-  const k = 1024;
-  const dm = decimals < 0 ? 0 : decimals;
-  const sizes = ["Bytes", "KB", "MB", "GB", "TB"];
+  let candidates = results.filter((r) => r.errors.length === 0);
 
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  if (rejectDuplicates) {
+    const seen = new Map<string, number>();
+    for (const result of candidates) {
+      const key = fileKey(result.file);
+      if (key === undefined) continue;
+      const first = seen.get(key);
+      if (first === undefined) seen.set(key, result.index);
+      else result.errors.push({ type: "duplicate-file", duplicateOf: first });
+    }
+    candidates = candidates.filter((r) => r.errors.length === 0);
+  }
 
-  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(dm))} ${sizes[i]}`;
+  if (maxFiles != null && candidates.length > maxFiles) {
+    const error: ValidationError = {
+      type: "too-many-files",
+      maxFiles,
+      actualCount: candidates.length,
+    };
+    for (const result of candidates.slice(maxFiles)) reject(result, error);
+    candidates = candidates.slice(0, maxFiles);
+  }
+
+  for (const [preset, max] of Object.entries(quotas) as Array<[FileTypePreset, number]>) {
+    const types: readonly string[] = FILE_TYPE_PRESETS[preset];
+    const matching = candidates.filter((r) => types.includes(r.file.type));
+    if (matching.length <= max) continue;
+    const error: ValidationError = {
+      type: "quota-exceeded",
+      preset,
+      max,
+      actualCount: matching.length,
+    };
+    for (const result of matching.slice(max)) reject(result, error);
+    candidates = candidates.filter((r) => r.errors.length === 0);
+  }
+
+  if (maxTotalSize != null) {
+    const actualSize = candidates.reduce((sum, r) => sum + r.file.size, 0);
+    if (actualSize > maxTotalSize) {
+      const error: ValidationError = { type: "total-size-too-large", maxTotalSize, actualSize };
+      let total = 0;
+      for (const result of candidates) {
+        if (total + result.file.size > maxTotalSize) reject(result, error);
+        else total += result.file.size;
+      }
+    }
+  }
+
+  return {
+    valid: results.every((r) => r.errors.length === 0),
+    files: results,
+    errors,
+    accepted: results.filter((r) => r.errors.length === 0).map((r) => r.file),
+    rejected: results.filter((r) => r.errors.length > 0).map((r) => r.file),
+  };
+}
+
+/**
+ * Format validation error into a human-readable message, using the
+ * message catalog for the locale (see registerLocale()).
+ *
+ * @param error - Validation error
+ * @param options - Locale, per-call message overrides and size units
+ * @returns Human-readable error message
+ *
+ * @example
+ * ```ts
+ * const error = validateFile(file, { maxSize: 5000000 });
+ * if (error) {
+ *   alert(formatValidationError(error));
+ * }
+ *
+ * formatValidationError(error, { locale: "de", units: "si" });
+ * ```
+ */
+export function formatValidationError(
+  error: ValidationError,
+  options: ValidationMessageOptions = {},
+): string {
+  if (error.type === "custom") return error.message;
+
+  const locale = options.locale ?? getValidationLocale();
+  // English keeps the plain number format; other locales get Intl separators.
+  const numberLocale = options.locale ?? (locale === "en" ? undefined : locale);
+  const message = (key: ValidationMessageKey, params: Record<string, string> = {}): string =>
+    renderMessage(lookupMessage(key, locale, options.messages), params);
+  const size = (bytes: number): string =>
+    formatBytes(bytes, { units: options.units, locale: numberLocale });
+  const count = (n: number): string =>
+    numberLocale === undefined ? `${n}` : new Intl.NumberFormat(numberLocale).format(n);
+  const clock = (seconds: number): string => formatDuration(seconds, { style: "clock" });
+
+  switch (error.type) {
+    case "size-too-large":
+      return message(
+        error.sizeOf === "compressed" ? "compressed-size-too-large" : "size-too-large",
+        { actualSize: size(error.actualSize), maxSize: size(error.maxSize) },
+      );
+    case "size-too-small":
+      return message(
+        error.sizeOf === "compressed" ? "compressed-size-too-small" : "size-too-small",
+        { actualSize: size(error.actualSize), minSize: size(error.minSize) },
+      );
+    case "invalid-type":
+      return message("invalid-type", {
+        actualType: error.actualType,
+        allowedTypes: error.allowedTypes.join(message("list-separator")),
+      });
+    case "content-mismatch":
+      return error.detectedType
+        ? message("content-mismatch", {
+            detectedType: error.detectedType,
+            declaredType: error.declaredType,
+          })
+        : message("content-unrecognized", { declaredType: error.declaredType });
+    case "dimensions-out-of-range": {
+      const limits = (
+        [
+          ["min-width", error.minWidth],
+          ["max-width", error.maxWidth],
+          ["min-height", error.minHeight],
+          ["max-height", error.maxHeight],
+        ] as const
+      ).flatMap(([key, value]) => (value == null ? [] : [message(key, { value: count(value) })]));
+      return message("dimensions-out-of-range", {
+        width: count(error.width),
+        height: count(error.height),
+        limits: limits.join(message("list-separator")),
+      });
+    }
+    case "duration-too-long":
+      return message("duration-too-long", {
+        actualDuration: clock(error.actualDuration),
+        maxDuration: clock(error.maxDuration),
+      });
+    case "duration-too-short":
+      return message("duration-too-short", {
+        actualDuration: clock(error.actualDuration),
+        minDuration: clock(error.minDuration),
+      });
+    case "metadata-unreadable":
+      return message(
+        error.metadata === "dimensions" ? "dimensions-unreadable" : "duration-unreadable",
+      );
+    case "duplicate-file":
+      return message("duplicate-file", { duplicateOf: count(error.duplicateOf + 1) });
+    case "too-many-files":
+      return message("too-many-files", {
+        actualCount: count(error.actualCount),
+        maxFiles: count(error.maxFiles),
+      });
+    case "total-size-too-large":
+      return message("total-size-too-large", {
+        actualSize: size(error.actualSize),
+        maxTotalSize: size(error.maxTotalSize),
+      });
+    case "quota-exceeded":
+      return message("quota-exceeded", {
+        preset: error.preset,
+        actualCount: count(error.actualCount),
+        max: count(error.max),
+      });
+  }
 }
 
 /**
@@ -10,12 +10,39 @@ export interface UploadProgress {
   total?: number;
   /** 0–100. */
   percent?: number;
-  /** Bytes per second. */
+  /** Bytes per second, smoothed by the configured estimator. */
   speed?: number;
+  /** Bytes per second over the most recent progress interval. */
+  instantSpeed?: number;
   /** Seconds remaining (estimate). */
   eta?: number;
+  /** True when no bytes have moved for `ProgressOptions.stallMs`. */
+  stalled?: boolean;
+  /** Bytes sent so far on the wire, when `compress` or `encrypt` is set (`loaded` counts original bytes). */
+  wireLoaded?: number;
+  /** Size of the body on the wire, when `compress` or `encrypt` is set. */
+  wireTotal?: number;
 }
 
+/**
+ * Speed estimation algorithm:
+ * - `average`: bytes sent divided by time since the upload started
+ * - `ewma`: exponentially weighted moving average of recent speeds
+ * - `window`: average over the last `samples` progress events
+ */
+export type EstimatorOptions =
+  | { type: "average" }
+  | {
+      type: "ewma";
+      /** Time for an old sample's weight to halve, in ms. Default: 2000. */
+      halfLifeMs?: number;
+    }
+  | {
+      type: "window";
+      /** Number of progress samples in the window. Default: 10. */
+      samples?: number;
+    };
+
 /** Options for progress reporting. */
 export interface ProgressOptions {
   /** Minimum ms between progress callbacks. Default: 100. */
@@ -24,6 +51,10 @@ export interface ProgressOptions {
   emitOnStart?: boolean;
   /** Emit final 100% progress. Default: true. */
   emitOnEnd?: boolean;
+  /** How `speed` and `eta` are estimated. Default: "average". */
+  estimator?: EstimatorOptions["type"] | EstimatorOptions;
+  /** Report `stalled: true` once no bytes have moved for this many ms (0 disables). Default: 5000. */
+  stallMs?: number;
 }
 
 /** Upload error variants. */
@@ -31,34 +62,466 @@ export type UploadError =
   | { type: "abort" }
   | { type: "timeout" }
   | { type: "network" }
-  | { type: "http"; status: number; response?: string };
+  | { type: "http"; status: number; response?: string }
+  | { type: "checksum-mismatch"; checksum?: ChecksumMismatch };
+
+/** Content-Encoding applied by `UplnkOptions.compress`. */
+export type UploadCompression = "gzip" | "deflate";
+
+/** A compressed request body, as returned by `compressFile()`. */
+export interface CompressedBody {
+  /** Compressed bytes, with the original file's MIME type. */
+  body: Blob;
+  /** Content-Encoding of `body`. */
+  format: UploadCompression;
+  /** Size of the original file in bytes. */
+  sourceSize: number;
+  /** Size of the compressed body in bytes. */
+  size: number;
+  /** Map a count of compressed bytes to the (approximate) original bytes they encode. */
+  toSourceBytes(wireBytes: number): number;
+}
+
+/** An AES-GCM key and the identifier stored alongside the ciphertext. */
+export interface EncryptionKey {
+  /** AES-GCM CryptoKey with the "encrypt" usage. */
+  key: CryptoKey;
+  /** Identifier of the key (e.g. a KMS key ID or a wrapped data key reference). */
+  keyId?: string;
+}
+
+/** Options for `UplnkOptions.encrypt`. */
+export interface EncryptionOptions {
+  /** AES-GCM key, or a callback that provides one (e.g. a data key from your KMS). */
+  key: CryptoKey | (() => EncryptionKey | Promise<EncryptionKey>);
+  /** Key identifier, when `key` is a CryptoKey. */
+  keyId?: string;
+  /** Plaintext bytes per encrypted segment. Default: 65536. */
+  segmentSize?: number;
+  /**
+   * 12-byte base IV. Default: random. Only pass one to re-create identical
+   * ciphertext with the same key, e.g. when resuming a multipart upload.
+   */
+  iv?: Uint8Array;
+  /**
+   * Request header names for the key ID and base IV, or false to send none.
+   * Default: `x-uplnk-key-id` and `x-uplnk-iv`.
+   */
+  headers?: { keyId?: string; iv?: string } | false;
+}
+
+/** How an upload was encrypted. */
+export interface EncryptionInfo {
+  /** Always "AES-GCM". */
+  algorithm: "AES-GCM";
+  /** Key identifier, if one was given. */
+  keyId?: string;
+  /** Base IV, base64-encoded. */
+  iv: string;
+  /** Plaintext bytes per segment. */
+  segmentSize: number;
+}
+
+/** An encrypted request body, as returned by `encryptFile()`. */
+export interface EncryptedBody extends EncryptionInfo {
+  /** Framed ciphertext. */
+  body: Blob;
+  /** Size of the plaintext file in bytes. */
+  sourceSize: number;
+  /** Size of the ciphertext in bytes. */
+  size: number;
+  /** Metadata headers (key ID, IV) to send with the body. */
+  headers: Record<string, string>;
+  /** Map a count of ciphertext bytes to the plaintext bytes they hold. */
+  toSourceBytes(wireBytes: number): number;
+}
+
+/**
+ * A file prepared for encryption, as returned by `createEncryptor()`: the
+ * metadata and ciphertext size are known, and ranges of the ciphertext are
+ * encrypted on demand.
+ */
+export interface Encryptor extends Omit<EncryptedBody, "body"> {
+  /** Encrypt the segments covering ciphertext bytes [start, end) and return that range. */
+  read(start: number, end: number, signal?: AbortSignal): Promise<Blob>;
+}
+
+/** Hash algorithm for end-to-end checksums. */
+export type ChecksumAlgorithm = "sha256" | "sha1" | "md5" | "crc32c";
+
+/** A checksum the server reported that differs from the local one. */
+export interface ChecksumMismatch {
+  /** Algorithm compared. */
+  algorithm: ChecksumAlgorithm;
+  /** Checksum of the local file, base64-encoded. */
+  expected: string;
+  /** Checksum reported by the server, base64-encoded. */
+  actual: string;
+}
+
+/** Options for `UplnkOptions.checksum`. */
+export interface ChecksumOptions {
+  /** Hash algorithm. */
+  algorithm: ChecksumAlgorithm;
+  /**
+   * Where to send the checksum: "s3" (`Content-MD5` for md5, otherwise
+   * `x-amz-checksum-<algorithm>`), "gcs" (`x-goog-hash`; md5 and crc32c only),
+   * any other header name (base64 value), or false to only compute it.
+   * Default: "s3".
+   */
+  header?: string | false;
+  /** Compare with the checksum echoed by the server. Default: true. */
+  verify?: boolean;
+  /**
+   * md5 only: also compare with a single-part ETag, for S3 PUTs without
+   * SSE-KMS or SSE-C encryption (whose ETags are not the file's MD5).
+   * Default: false.
+   */
+  verifyEtag?: boolean;
+}
+
+/** Digest of a file. */
+export interface FileChecksum {
+  /** Algorithm used. */
+  algorithm: ChecksumAlgorithm;
+  /** Digest, base64-encoded (the form storage providers use in headers). */
+  base64: string;
+  /** Digest, hex-encoded. */
+  hex: string;
+}
+
+/** Checksum of an uploaded file. */
+export interface UploadChecksum extends FileChecksum {
+  /** Whether the server echoed a checksum (or, with `verifyEtag`, an ETag) and it matched. */
+  verified: boolean;
+}
+
+/** The failed attempt a retry delay is computed for. */
+export interface RetryFailure {
+  /** Why the attempt failed. */
+  error: UploadError;
+  /** Response headers of the failed attempt, keyed by lower-cased name ({} without a response). */
+  headers: Record<string, string>;
+  /** Ms elapsed since the first attempt started. */
+  elapsedMs: number;
+}
+
+/** Context passed to a `UrlResolver` before each attempt. */
+export interface UrlResolverContext {
+  /** Zero-based attempt index; a re-sign after expiry keeps the index of the attempt it replaces. */
+  attempt: number;
+  /** Why a URL is needed: the first attempt, a retry, or a re-sign after `isExpiredUrl` matched. */
+  reason: "initial" | "retry" | "expired";
+  /** Error of the previous attempt (for "retry" and "expired"). */
+  error?: UploadError;
+  /** The upload's abort signal, e.g. to cancel a signing request. */
+  signal?: AbortSignal;
+}
+
+/** A URL with extra request headers (e.g. signed headers that must accompany it). */
+export interface ResolvedUrl {
+  url: string;
+  /** Merged over `UplnkOptions.headers` for this attempt. */
+  headers?: Record<string, string>;
+}
+
+/** Returns the URL for an attempt, e.g. by requesting a fresh presigned URL. */
+export type UrlResolver = (
+  context: UrlResolverContext,
+) => string | ResolvedUrl | Promise<string | ResolvedUrl>;
+
+/** The request an attempt is about to send; `beforeRequest` interceptors may change any field. */
+export interface InterceptorRequest {
+  /** Resolved destination URL. */
+  url: string;
+  /** HTTP method. */
+  method: UplnkMethod;
+  /** Request headers, including those added by `checksum`, `encrypt` or a `url` resolver. */
+  headers: Record<string, string>;
+  /** Body to send: the file, or its compressed or encrypted form. */
+  body: UploadBody;
+}
+
+/** Passed to every interceptor hook. */
+export interface InterceptorContext {
+  /** The request of this attempt (already sent for `afterResponse` and `onError`). */
+  request: InterceptorRequest;
+  /** Zero-based attempt index. */
+  attempt: number;
+  /** Options of the `uplnk()` call. */
+  options: Readonly<UplnkOptions>;
+}
+
+/** Passed to `afterResponse`. */
+export interface ResponseInterceptorContext extends InterceptorContext {
+  response: TransportResponse;
+}
+
+/** Passed to `onError`. */
+export interface ErrorInterceptorContext extends InterceptorContext {
+  error: UploadError;
+}
+
+/**
+ * Middleware around each attempt of `uplnk()`. Hooks run in order, and run
+ * again on every retry.
+ */
+export interface UplnkInterceptor {
+  /**
+   * Before sending: mutate `context.request`, or return a response to skip
+   * the network (it still goes through `afterResponse`).
+   */
+  beforeRequest?(
+    context: InterceptorContext,
+  ): void | TransportResponse | Promise<void | TransportResponse>;
+  /**
+   * After a response arrives, before its status is checked: return a
+   * replacement response (e.g. with a non-2xx status to fail a 200 whose body
+   * reports an error), or throw an `UploadError`.
+   */
+  afterResponse?(
+    context: ResponseInterceptorContext,
+  ): void | TransportResponse | Promise<void | TransportResponse>;
+  /**
+   * When the attempt fails: return a response to recover, or an `UploadError`
+   * to replace the error (e.g. to make it retryable or not).
+   */
+  onError?(
+    context: ErrorInterceptorContext,
+  ): void | UploadError | TransportResponse | Promise<void | UploadError | TransportResponse>;
+}
+
+/** Passed to `onRetry` when a failed attempt will be retried. */
+export interface RetryEvent {
+  /** Zero-based index of the attempt that failed (as in `shouldRetry`). */
+  attempt: number;
+  /** Why it failed. */
+  error: UploadError;
+  /** Wait before the next attempt, in ms. */
+  delayMs: number;
+}
 
 /** Options for retry behavior. */
 export interface RetryOptions {
   /** Max number of attempts (including first). */
   attempts: number;
-  /** Delay in ms before next attempt. Can be a number or a function that calculates delay based on attempt. */
-  delayMs: number | ((attempt: number) => number);
+  /**
+   * Delay in ms before next attempt. Can be a number or a function of the
+   * attempt and the failed response (e.g. to honor `Retry-After`).
+   */
+  delayMs: number | ((attempt: number, failure?: RetryFailure) => number);
   /** Return true to retry on this error. */
   shouldRetry: (err: UploadError, attempt: number) => boolean;
+  /** Stop retrying once the next attempt would start more than this many ms after the first. */
+  maxElapsedMs?: number;
 }
 
 /** HTTP method for upload. */
 export type UplnkMethod = "PUT" | "POST" | "PATCH";
 
+/** HTTP method a transport may be asked to send (protocol clients also use HEAD and DELETE). */
+export type TransportMethod = UplnkMethod | "HEAD" | "DELETE";
+
+/**
+ * Upload payload. Browser transports accept `File | Blob` (and byte arrays)
+ * and `StreamBody`; the Node transport also accepts a file path, a Buffer or
+ * a Readable stream.
+ */
+export type UploadBody = File | Blob | string | Uint8Array | AsyncIterable<Uint8Array>;
+
+/**
+ * A body of known length produced as it is read, e.g. ciphertext encrypted
+ * segment by segment. Each iteration starts over, so it can be retried. The
+ * Node transport and a streaming fetch transport send it as they read it;
+ * the XHR transport and an unstreamed fetch collect it into a Blob first.
+ */
+export interface StreamBody extends AsyncIterable<Uint8Array> {
+  /** Length in bytes. */
+  readonly size: number;
+}
+
+/**
+ * Send the file inside a `multipart/form-data` body. Fields are written in
+ * order and the file part always comes last, as S3 presigned POST requires.
+ */
+export interface FormBodyOptions {
+  type: "form";
+  /** Name of the file field. Default: "file". */
+  fieldName?: string;
+  /** Extra fields sent before the file, in order (e.g. S3 policy fields). */
+  fields?: Record<string, string> | Array<[string, string]>;
+  /** Filename of the file part. Default: `file.name`, or "blob". */
+  fileName?: string;
+}
+
+/** How the file is encoded in the request body. Default: `{ type: "raw" }`. */
+export type UploadBodyMode = { type: "raw" } | FormBodyOptions;
+
+/**
+ * Transport-neutral handle to an in-flight upload request.
+ * Passed to `onStart`, `onResponse` and `onError` whatever the transport.
+ */
+export interface UploadRequest {
+  /** Name of the transport that owns this request (e.g. "xhr", "fetch"). */
+  readonly transport: string;
+  /** HTTP method. */
+  readonly method: string;
+  /** Request URL. */
+  readonly url: string;
+  /** Size of the request body in bytes, if known. */
+  readonly bodySize?: number;
+  /** HTTP status once a response has arrived; 0 before. */
+  readonly status: number;
+  /** Response body as text; "" before completion. */
+  readonly responseText: string;
+  /** Set a request header. Only effective in `onStart`, before the body is sent. */
+  setRequestHeader(name: string, value: string): void;
+  /** Read a response header (case-insensitive); null if absent. */
+  getResponseHeader(name: string): string | null;
+  /** All response headers, keyed by lower-cased name. */
+  getResponseHeaders(): Record<string, string>;
+  /** Abort the request. */
+  abort(): void;
+  /** Underlying native object (e.g. the XMLHttpRequest), if the transport exposes one. */
+  readonly raw?: unknown;
+}
+
+/** Request handed from uplnk() to an UploadTransport. */
+export interface TransportRequest {
+  /** Destination URL. */
+  url: string;
+  /** HTTP method. */
+  method: TransportMethod;
+  /** Request headers. */
+  headers: Record<string, string>;
+  /** Request body (empty for HEAD and DELETE). */
+  body: UploadBody;
+  /** Send cookies/credentials. */
+  withCredentials: boolean;
+  /** Aborts the request (user abort or timeout). */
+  signal: AbortSignal;
+  /** Called once, before the body is sent. */
+  onStart?: (request: UploadRequest) => void;
+  /** Called with raw byte counts as the body is sent. */
+  onUploadProgress?: (loaded: number, total?: number) => void;
+  /** Read the response body as a Blob (`TransportResponse.body`). Default: "text". */
+  responseType?: "text" | "blob";
+  /**
+   * Bandwidth limit: await this before sending each chunk of `bytes`.
+   * Transports that send the body in one call (XHR, fetch without request
+   * streams) await it once for the whole body, so the request keeps its
+   * `Content-Length`; a limiter shared with later requests holds them back
+   * until the average rate is met. tus and multipart uploads pace each chunk
+   * or part this way.
+   */
+  pace?: (bytes: number) => Promise<void>;
+}
+
+/** Completed HTTP exchange, whatever its status code. */
+export interface TransportResponse {
+  /** HTTP status. */
+  status: number;
+  /** Response headers, keyed by lower-cased name. */
+  headers: Record<string, string>;
+  /** Response body as text ("" when the body was read as a Blob by XHR). */
+  responseText: string;
+  /** Response body, when the request asked for `responseType: "blob"`. */
+  body?: Blob;
+}
+
+/** Token-bucket bandwidth limiter, shareable between concurrent uploads. */
+export interface RateLimiter {
+  /** Current limit in bytes per second (Infinity when unlimited). */
+  readonly bytesPerSecond: number;
+  /** Change the limit; waiting uploads pick up the new rate immediately. */
+  setRate(bytesPerSecond: number): void;
+  /** Wait until `bytes` may be sent. Rejects with an abort error when `signal` fires. */
+  take(bytes: number, signal?: AbortSignal): Promise<void>;
+}
+
+/** How uplnk() parses the response body. */
+export type UploadResponseType = "json" | "text" | "blob";
+
+/** Timing of an upload, across all attempts. */
+export interface UploadTiming {
+  /** When uplnk() was called (ms timestamp). */
+  startTime: number;
+  /** When the successful response was received (ms timestamp). */
+  endTime: number;
+  /** `endTime - startTime`, in ms. */
+  duration: number;
+  /** Body bytes sent by the successful attempt. */
+  bytes: number;
+  /** Average speed in bytes per second over the successful attempt. */
+  averageSpeed: number;
+}
+
+/** Result of a successful upload. */
+export interface UploadResult<T = unknown> {
+  /** HTTP status. */
+  status: number;
+  /** Response headers, keyed by lower-cased name. */
+  headers: Record<string, string>;
+  /** Response body, parsed according to `responseType`. */
+  body: T;
+  /** Number of attempts made, including the successful one. */
+  attempts: number;
+  /** Timing information. */
+  timing: UploadTiming;
+  /** Checksum of the file, when `checksum` was set. */
+  checksum?: UploadChecksum;
+  /** Key ID, IV and segment size, when `encrypt` was set. */
+  encryption?: EncryptionInfo;
+}
+
+/**
+ * Sends a single HTTP request on behalf of uplnk().
+ * `send` resolves for any HTTP response (including non-2xx) and rejects with
+ * `{ type: "network" }` or `{ type: "abort" }` when no response was received.
+ */
+export interface UploadTransport {
+  /** Transport name, reported on `UploadRequest.transport`. */
+  readonly name: string;
+  /** Send the request. */
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
 /** Options for a single upload. */
 export interface UplnkOptions {
-  /** Destination URL (e.g. signed URL). */
-  url: string;
-  /** File or blob to upload. */
-  file: File | Blob;
+  /**
+   * Destination URL (e.g. signed URL), or a resolver called before each
+   * attempt so that retries get a fresh signature.
+   */
+  url: string | UrlResolver;
+  /**
+   * With a `url` resolver: return true when an error means the URL expired.
+   * The URL is then re-signed and the request sent again without using up a
+   * retry attempt. Default: `isExpiredUrl()` (403 with an S3/GCS expiry body).
+   */
+  isExpiredUrl?: (error: UploadError) => boolean;
+  /** Re-signs allowed per upload after expiry, so a clock skew cannot loop forever. Default: 3. */
+  maxUrlRefreshes?: number;
+  /** File or blob to upload (file path, Buffer or Readable with the Node transport). */
+  file: UploadBody;
+  /** Body encoding: the raw file, or a multipart/form-data body. Default: raw. */
+  body?: UploadBodyMode;
 
-  /** HTTP method. Default: "PUT". */
+  /** HTTP method. Default: "PUT" ("POST" for form bodies). */
   method?: UplnkMethod;
   /** Request headers. */
   headers?: Record<string, string>;
   /** Send cookies/credentials. Default: false. */
   withCredentials?: boolean;
+  /** Transport used to send the request. Default: XHR where available, otherwise fetch. */
+  transport?: UploadTransport;
+  /**
+   * Bandwidth limit in bytes per second, or a shared RateLimiter. Streamed
+   * bodies (Node, fetch with request streams) are paced chunk by chunk; XHR
+   * waits to pay for the whole body, then sends it at full speed. To pace one
+   * file over XHR, use `rateLimit` on `tusUpload()` or `multipartUpload()`
+   * with small chunks or parts.
+   */
+  rateLimit?: number | RateLimiter;
 
   /** Abort signal to cancel the upload. */
   signal?: AbortSignal;
@@ -70,15 +533,41 @@ export interface UplnkOptions {
   /** Progress callback. */
   onProgress?: (progress: UploadProgress) => void;
 
-  /** Called before send(). */
-  onStart?: (xhr: XMLHttpRequest) => void;
+  /** How to parse the response body into `UploadResult.body`. Default: "text". */
+  responseType?: UploadResponseType;
+
+  /** Called before the body is sent. */
+  onStart?: (request: UploadRequest) => void;
   /** Called on completion (before promise resolves). */
-  onResponse?: (xhr: XMLHttpRequest) => void;
-  /** Called before rejection. */
-  onError?: (err: UploadError, xhr?: XMLHttpRequest) => void;
+  onResponse?: (request: UploadRequest) => void;
+  /** Called when an attempt fails, after interceptor `onError` hooks that did not recover it. */
+  onError?: (err: UploadError, request?: UploadRequest) => void;
 
   /** Retry configuration. */
   retry?: RetryOptions;
+  /** Called when a failed attempt will be retried, before waiting `delayMs`. */
+  onRetry?: (event: RetryEvent) => void;
+
+  /** Middleware run around every attempt, after any from `createUplnk()` defaults. */
+  interceptors?: UplnkInterceptor[];
+
+  /**
+   * Hash the file before sending, send the digest in a header and verify it
+   * against the server's echo. A mismatch rejects with "checksum-mismatch".
+   */
+  checksum?: ChecksumAlgorithm | ChecksumOptions;
+
+  /**
+   * Compress the file before sending and set `Content-Encoding`. Pass the
+   * result of `compressFile()` to reuse a body that was already compressed.
+   */
+  compress?: UploadCompression | CompressedBody;
+
+  /**
+   * Encrypt the file with segmented AES-GCM before sending. Pass the result
+   * of `encryptFile()` to reuse a body that was already encrypted.
+   */
+  encrypt?: EncryptionOptions | EncryptedBody;
 }
 
 /** Types-only package; no runtime. */